@@ -104,6 +104,8 @@ const externals = [
     "obsidian",
     "electron",
     "crypto",
+    // Imported lazily by the shared folder remote, only on the desktop.
+    "node:fs/promises",
     "@codemirror/autocomplete",
     "@codemirror/collab",
     "@codemirror/commands",
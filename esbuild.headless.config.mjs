@@ -0,0 +1,57 @@
+//@ts-check
+
+import esbuild from "esbuild";
+import process from "process";
+import sveltePlugin from "esbuild-svelte";
+import { sveltePreprocess } from "svelte-preprocess";
+import fs from "node:fs";
+import inlineWorkerPlugin from "esbuild-plugin-inline-worker";
+import path from "node:path";
+
+// Build the headless runtime (See docs/headless.md).
+const manifestJson = JSON.parse(fs.readFileSync("./manifest.json") + "");
+const packageJson = JSON.parse(fs.readFileSync("./package.json") + "");
+const updateInfo = JSON.stringify(fs.readFileSync("./updates.md") + "");
+
+// `obsidian` is not available on Node.js; replace it with the shim.
+const obsidianShimPlugin = {
+    name: "obsidian-shim",
+    setup(build) {
+        build.onResolve({ filter: /^obsidian$/ }, () => ({
+            path: path.resolve("src/headless/obsidian.ts"),
+            namespace: "file",
+        }));
+    },
+};
+
+// PouchDB adapters are loaded at runtime, from the `node_modules` next to the runtime.
+const externals = ["pouchdb-adapter-*", "electron", "@codemirror/*", "@lezer/*"];
+
+await esbuild.build({
+    entryPoints: ["src/headless/main.ts"],
+    bundle: true,
+    define: {
+        MANIFEST_VERSION: `"${manifestJson.version}"`,
+        PACKAGE_VERSION: `"${packageJson.version}"`,
+        UPDATE_INFO: `${updateInfo}`,
+    },
+    external: externals,
+    format: "cjs",
+    target: "node20",
+    logLevel: "info",
+    platform: "node",
+    sourcemap: "inline",
+    outfile: "livesync-headless.cjs",
+    plugins: [
+        obsidianShimPlugin,
+        inlineWorkerPlugin({
+            external: externals,
+            treeShaking: true,
+        }),
+        sveltePlugin({
+            preprocess: sveltePreprocess(),
+            compilerOptions: { css: "injected", preserveComments: false },
+        }),
+    ],
+});
+process.exit(0);
@@ -0,0 +1,129 @@
+import { delay } from "octagonal-wheels/promises";
+import type { RequestUrlResponse } from "../deps.ts";
+
+export type FaultTarget = "remote" | "storage";
+
+export type Fault =
+    // The request is not sent, and fails as a network error.
+    | { type: "drop" }
+    // The request is not sent, and the server responds with the status (e.g., 413, 409 or 500).
+    | { type: "status"; status: number }
+    // The request (or the operation) is performed after the delay.
+    | { type: "delay"; ms: number }
+    // The body of the response (or the read content) is truncated; to the half if the length is omitted.
+    | { type: "truncate"; length?: number }
+    // The operation of the storage fails.
+    | { type: "fail" };
+
+export type FaultRule = {
+    target: FaultTarget;
+    // The method of the request (e.g., `POST`), or the operation of the storage (`read`, `write`, `delete` or `rename`).
+    // Matches any if omitted.
+    operation?: string;
+    // The regular expression which the URL (without the remote URI) or the path should match.
+    match?: string;
+    fault: Fault;
+    // Skip the first `skip` matches.
+    skip?: number;
+    // Inject the fault only `times` times; unlimited if omitted.
+    times?: number;
+};
+
+/**
+ * Rules of the faults to inject, for testing the recovery paths. Rules are evaluated in order, and the first one which
+ * matches is applied.
+ */
+export class FaultInjector {
+    rules: { rule: FaultRule; hits: number }[] = [];
+
+    add(...rules: FaultRule[]) {
+        this.rules.push(...rules.map((rule) => ({ rule, hits: 0 })));
+    }
+    clear() {
+        this.rules = [];
+    }
+
+    find(target: FaultTarget, operation: string, path: string): Fault | undefined {
+        for (const entry of this.rules) {
+            const rule = entry.rule;
+            if (rule.target != target) continue;
+            if (rule.operation && rule.operation.toLowerCase() != operation.toLowerCase()) continue;
+            if (rule.match && !new RegExp(rule.match).test(path)) continue;
+            entry.hits++;
+            const count = entry.hits - (rule.skip ?? 0);
+            if (count <= 0) continue;
+            if (rule.times !== undefined && count > rule.times) continue;
+            return rule.fault;
+        }
+        return undefined;
+    }
+}
+
+function truncated(data: ArrayBuffer, length?: number) {
+    return data.slice(0, length ?? Math.floor(data.byteLength / 2));
+}
+
+/**
+ * Perform the request by `fetch` with the fault.
+ */
+export async function fetchWithFault(
+    fault: Fault | undefined | false,
+    perform: () => Promise<Response>
+): Promise<Response> {
+    if (!fault) return await perform();
+    switch (fault.type) {
+        case "drop":
+            throw new TypeError("Failed to fetch (Injected fault)");
+        case "status":
+            return new Response(
+                JSON.stringify({ error: "injected_fault", reason: `Injected fault: ${fault.status}` }),
+                {
+                    status: fault.status,
+                    statusText: `${fault.status}`,
+                    headers: { "content-type": "application/json" },
+                }
+            );
+        case "delay":
+            await delay(fault.ms);
+            return await perform();
+        case "truncate": {
+            const r = await perform();
+            return new Response(truncated(await r.arrayBuffer(), fault.length), {
+                status: r.status,
+                statusText: r.statusText,
+                headers: r.headers,
+            });
+        }
+        default:
+            throw new Error("Injected fault");
+    }
+}
+
+/**
+ * Perform the request by `requestUrl` with the fault. As `requestUrl` does, statuses other than 2xx are thrown.
+ */
+export async function requestWithFault(
+    fault: Fault | undefined | false,
+    perform: () => Promise<RequestUrlResponse>
+): Promise<RequestUrlResponse> {
+    if (!fault) return await perform();
+    switch (fault.type) {
+        case "drop":
+            throw new Error("Request failed (Injected fault)");
+        case "status": {
+            const er: Error & { status?: number } = new Error(`Request Error:${fault.status} (Injected fault)`);
+            er.status = fault.status;
+            throw er;
+        }
+        case "delay":
+            await delay(fault.ms);
+            return await perform();
+        case "truncate": {
+            const r = await perform();
+            const arrayBuffer = truncated(r.arrayBuffer, fault.length);
+            return { ...r, arrayBuffer, text: new TextDecoder().decode(arrayBuffer), json: undefined };
+        }
+        default:
+            throw new Error("Injected fault");
+    }
+}
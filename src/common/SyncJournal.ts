@@ -0,0 +1,102 @@
+import type { FileEventType } from "./types.ts";
+
+export const SYNC_JOURNAL_VERSION = 1;
+
+// A file event, as it was appended to the queue of `StorageEventManager`.
+export type SyncJournalFileEvent = {
+    kind: "file";
+    type: FileEventType;
+    path: string;
+    oldPath?: string;
+    mtime?: number;
+    size?: number;
+    // The hash of the content; absent for deletions, or if the content could not be read.
+    hash?: string;
+};
+// A document of the replication result, as it was passed to `$$parseReplicationResult`.
+export type SyncJournalDoc = {
+    id: string;
+    rev: string;
+    type: string;
+    path?: string;
+    deleted?: boolean;
+    mtime?: number;
+    size?: number;
+    hash?: string;
+};
+export type SyncJournalReplicated = {
+    kind: "replicated";
+    docs: SyncJournalDoc[];
+    // Chunks are not recorded one by one.
+    chunks: number;
+};
+// A decision of resolving the conflict (e.g., `3-way`, `keep local` or `manual`).
+export type SyncJournalConflict = {
+    kind: "conflict";
+    path: string;
+    decision: string;
+    // The revision which has been deleted, if any.
+    rev?: string;
+};
+
+export type SyncJournalEvent = SyncJournalFileEvent | SyncJournalReplicated | SyncJournalConflict;
+export type SyncJournalEntry = SyncJournalEvent & { seq: number; time: number };
+
+export type SyncJournalTrace = {
+    version: number;
+    recordedAt: number;
+    // The number of the entries which have been discarded by the limit, before the first one.
+    dropped: number;
+    entries: SyncJournalEntry[];
+};
+
+/**
+ * The ordered journal of the events of the synchronisation, to reproduce the bugs by replaying it.
+ * Contents are never stored; only their hashes are.
+ */
+export class SyncJournal {
+    seq = 0;
+    dropped = 0;
+    entries: SyncJournalEntry[] = [];
+    maxEntries: () => number;
+
+    constructor(maxEntries: () => number) {
+        this.maxEntries = maxEntries;
+    }
+
+    /**
+     * Record the event. The returned entry can be filled in later (e.g., by the hash), without changing the order.
+     */
+    record<T extends SyncJournalEvent>(event: T): T & { seq: number; time: number } {
+        const entry = { ...event, seq: ++this.seq, time: Date.now() };
+        this.entries.push(entry);
+        const overflow = this.entries.length - this.maxEntries();
+        if (overflow > 0) {
+            this.entries.splice(0, overflow);
+            this.dropped += overflow;
+        }
+        return entry;
+    }
+    clear() {
+        this.dropped += this.entries.length;
+        this.entries = [];
+    }
+
+    export(): SyncJournalTrace {
+        return {
+            version: SYNC_JOURNAL_VERSION,
+            recordedAt: Date.now(),
+            dropped: this.dropped,
+            entries: this.entries.map((e) => ({ ...e })),
+        };
+    }
+}
+
+/**
+ * The content which stands in for the recorded one on replaying; the same hash makes the same content.
+ */
+export function contentOfHash(hash: string | undefined, size: number | undefined) {
+    const seed = `${hash ?? "unknown"}\n`;
+    const length = Math.max(size ?? 0, seed.length);
+    return seed.repeat(Math.ceil(length / seed.length)).substring(0, length);
+}
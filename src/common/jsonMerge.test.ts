@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import { applyJSONKeyPolicies, detectJSONIndent, mergeJSON, mergeJSONPreferring } from "./jsonMerge.ts";
+
+describe("mergeJSON", () => {
+    it("merges the keys which have been changed on each side", () => {
+        const base = { a: 1, b: { c: 2, d: 3 } };
+        const left = { a: 10, b: { c: 2, d: 3 } };
+        const right = { a: 1, b: { c: 2, d: 30 }, e: 4 };
+        expect(mergeJSON(base, left, right)).toEqual({ a: 10, b: { c: 2, d: 30 }, e: 4 });
+    });
+
+    it("removes the keys which have been removed on one side", () => {
+        const base = { a: 1, b: 2 };
+        expect(mergeJSON(base, { a: 1 }, { a: 1, b: 2, c: 3 })).toEqual({ a: 1, c: 3 });
+    });
+
+    it("reports the conflict when the same value has been changed on both sides", () => {
+        expect(mergeJSON({ a: 1 }, { a: 2 }, { a: 3 })).toBe(false);
+        expect(mergeJSON({ a: 1 }, { a: 2 }, {})).toBe(false);
+    });
+
+    it("merges the same change on both sides", () => {
+        expect(mergeJSON({ a: 1 }, { a: 2 }, { a: 2 })).toEqual({ a: 2 });
+    });
+
+    it("merges the nodes of canvases by their ids", () => {
+        const base = {
+            nodes: [
+                { id: "n1", text: "one" },
+                { id: "n2", text: "two" },
+            ],
+        };
+        const left = {
+            nodes: [
+                { id: "n1", text: "one, edited" },
+                { id: "n2", text: "two" },
+                { id: "n3", text: "three" },
+            ],
+        };
+        const right = {
+            nodes: [
+                { id: "n1", text: "one" },
+                { id: "n4", text: "four" },
+            ],
+        };
+        expect(mergeJSON(base, left, right)).toEqual({
+            nodes: [
+                { id: "n1", text: "one, edited" },
+                { id: "n3", text: "three" },
+                { id: "n4", text: "four" },
+            ],
+        });
+    });
+
+    it("reports the conflict when the same item has been changed on both sides", () => {
+        const base = { nodes: [{ id: 1, x: 0 }] };
+        expect(mergeJSON(base, { nodes: [{ id: 1, x: 10 }] }, { nodes: [{ id: 1, x: 20 }] })).toBe(false);
+    });
+
+    it("does not merge the arrays without ids", () => {
+        expect(mergeJSON({ a: [1] }, { a: [1, 2] }, { a: [1, 3] })).toBe(false);
+    });
+
+    it("merges only the additions without the common ancestor", () => {
+        expect(mergeJSON(undefined, { a: 1 }, { b: 2 })).toEqual({ a: 1, b: 2 });
+        expect(mergeJSON(undefined, { a: 1 }, { a: 2 })).toBe(false);
+    });
+});
+
+describe("mergeJSONPreferring", () => {
+    it("takes the values of the prior side when both sides have them", () => {
+        expect(mergeJSONPreferring({ a: 1, b: { c: 2 } }, { a: 10, b: { c: 20, d: 30 }, e: 40 })).toEqual({
+            a: 1,
+            b: { c: 2, d: 30 },
+            e: 40,
+        });
+    });
+
+    it("merges the items by their ids", () => {
+        expect(
+            mergeJSONPreferring(
+                [{ id: "x", v: 1 }],
+                [
+                    { id: "y", v: 2 },
+                    { id: "x", v: 3, w: 4 },
+                ]
+            )
+        ).toEqual([
+            { id: "x", v: 1, w: 4 },
+            { id: "y", v: 2 },
+        ]);
+    });
+});
+
+describe("applyJSONKeyPolicies", () => {
+    const local = { theme: "dark", token: "local", items: [{ key: "a" }, { key: "b" }] };
+    const incoming = { theme: "light", token: "remote", items: [{ key: "b" }, { key: "c" }] };
+
+    it("keeps the local values at the pointers of the local policy", () => {
+        expect(applyJSONKeyPolicies(local, incoming, [{ policy: "local", pointer: "/token", idKey: "" }])).toEqual({
+            ...incoming,
+            token: "local",
+        });
+    });
+
+    it("merges the arrays by the id key", () => {
+        expect(applyJSONKeyPolicies(local, incoming, [{ policy: "merge", pointer: "/items", idKey: "key" }])).toEqual({
+            ...incoming,
+            items: [{ key: "b" }, { key: "c" }, { key: "a" }],
+        });
+    });
+
+    it("removes the value which does not exist locally", () => {
+        expect(
+            applyJSONKeyPolicies({}, incoming, [{ policy: "local", pointer: "/token", idKey: "" }])
+        ).not.toHaveProperty("token");
+    });
+});
+
+describe("detectJSONIndent", () => {
+    it("detects the indentation", () => {
+        expect(detectJSONIndent('{\n    "a": 1\n}')).toBe(4);
+        expect(detectJSONIndent('{\n\t"a": 1\n}')).toBe("\t");
+        expect(detectJSONIndent('{"a":1}')).toBeUndefined();
+    });
+});
@@ -0,0 +1,210 @@
+import { isObjectDifferent } from "octagonal-wheels/object";
+import type { PluginDataKeyRule } from "./types.ts";
+
+type JSONValue = string | number | boolean | null | JSONValue[] | { [key: string]: JSONValue };
+type JSONObject = { [key: string]: JSONValue };
+
+// Marks the value which has been removed on one side.
+const ABSENT = undefined;
+
+class JSONMergeConflict extends Error {}
+
+function isJSONObject(value: unknown): value is JSONObject {
+    return typeof value == "object" && value !== null && !Array.isArray(value);
+}
+
+function isIdentifiedArray(value: unknown): value is JSONObject[] {
+    return (
+        Array.isArray(value) &&
+        value.every((e) => isJSONObject(e) && (typeof e.id == "string" || typeof e.id == "number"))
+    );
+}
+
+function isSame(a: JSONValue | undefined, b: JSONValue | undefined) {
+    if (a === ABSENT || b === ABSENT) return a === b;
+    return !isObjectDifferent(a, b);
+}
+
+function mergeValue(
+    base: JSONValue | undefined,
+    left: JSONValue | undefined,
+    right: JSONValue | undefined,
+    path: string
+): JSONValue | undefined {
+    if (isSame(left, right)) return left;
+    if (isSame(base, left)) return right;
+    if (isSame(base, right)) return left;
+    if (isJSONObject(left) && isJSONObject(right)) {
+        return mergeObject(isJSONObject(base) ? base : {}, left, right, path);
+    }
+    if (isIdentifiedArray(left) && isIdentifiedArray(right)) {
+        return mergeArrayById(isIdentifiedArray(base) ? base : [], left, right, path);
+    }
+    throw new JSONMergeConflict(path);
+}
+
+function mergeObject(base: JSONObject, left: JSONObject, right: JSONObject, path: string) {
+    const result = {} as JSONObject;
+    const keys = new Set([...Object.keys(left), ...Object.keys(right), ...Object.keys(base)]);
+    for (const key of keys) {
+        const value = mergeValue(base[key], left[key], right[key], `${path}/${key}`);
+        if (value !== ABSENT) result[key] = value;
+    }
+    return result;
+}
+
+function mergeArrayById(base: JSONObject[], left: JSONObject[], right: JSONObject[], path: string) {
+    const toMap = (items: JSONObject[]) => new Map(items.map((e) => [`${e.id}`, e]));
+    const baseMap = toMap(base);
+    const leftMap = toMap(left);
+    const rightMap = toMap(right);
+    // Keep the order of the left side, and append the items which only exist on the right side.
+    const ids = [...new Set([...leftMap.keys(), ...rightMap.keys()])];
+    const result = [] as JSONObject[];
+    for (const id of ids) {
+        const value = mergeValue(baseMap.get(id), leftMap.get(id), rightMap.get(id), `${path}/${id}`);
+        if (value !== ABSENT) result.push(value as JSONObject);
+    }
+    return result;
+}
+
+/**
+ * Merge two JSON documents by their common ancestor.
+ * Objects are merged key by key, and arrays of objects which have `id` (e.g., nodes and edges of canvases) are
+ * merged item by item.
+ * @param base the common ancestor. If it is not available, an empty object is used; then only additions are merged.
+ * @returns the merged object, or false if the same value has been changed on both sides.
+ */
+export function mergeJSON(base: JSONValue | undefined, left: JSONValue, right: JSONValue): JSONValue | false {
+    try {
+        return mergeValue(base ?? {}, left, right, "") ?? false;
+    } catch (ex) {
+        if (ex instanceof JSONMergeConflict) return false;
+        throw ex;
+    }
+}
+
+/**
+ * Merge two JSON documents without the common ancestor.
+ * Values which have been changed on both sides are taken from `prior`.
+ */
+export function mergeJSONPreferring(prior: JSONValue, other: JSONValue): JSONValue {
+    if (isJSONObject(prior) && isJSONObject(other)) {
+        const result = { ...other, ...prior } as JSONObject;
+        for (const key of Object.keys(prior)) {
+            if (key in other) result[key] = mergeJSONPreferring(prior[key], other[key]);
+        }
+        return result;
+    }
+    if (isIdentifiedArray(prior) && isIdentifiedArray(other)) {
+        const otherMap = new Map(other.map((e) => [`${e.id}`, e]));
+        const priorIds = new Set(prior.map((e) => `${e.id}`));
+        return [
+            ...prior.map((e) => (otherMap.has(`${e.id}`) ? mergeJSONPreferring(e, otherMap.get(`${e.id}`)!) : e)),
+            ...other.filter((e) => !priorIds.has(`${e.id}`)),
+        ];
+    }
+    return prior;
+}
+
+function parsePointer(pointer: string) {
+    if (pointer == "") return [];
+    return pointer
+        .substring(1)
+        .split("/")
+        .map((e) => e.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+function getByPointer(value: JSONValue | undefined, tokens: string[]): JSONValue | undefined {
+    let current = value;
+    for (const token of tokens) {
+        if (Array.isArray(current)) {
+            current = current[Number(token)];
+        } else if (isJSONObject(current) && Object.prototype.hasOwnProperty.call(current, token)) {
+            current = current[token];
+        } else {
+            return ABSENT;
+        }
+    }
+    return current;
+}
+
+function setByPointer(target: JSONValue | undefined, tokens: string[], value: JSONValue | undefined) {
+    if (tokens.length == 0) return value;
+    const [token, ...rest] = tokens;
+    if (Array.isArray(target)) {
+        const index = Number(token);
+        if (!Number.isInteger(index) || index < 0) return target;
+        const result = [...target];
+        const item = setByPointer(target[index], rest, value);
+        if (item === ABSENT) {
+            result.splice(index, 1);
+        } else {
+            result[index] = item;
+        }
+        return result;
+    }
+    const result = isJSONObject(target) ? { ...target } : ({} as JSONObject);
+    const item = setByPointer(result[token], rest, value);
+    if (item === ABSENT) {
+        delete result[token];
+    } else {
+        result[token] = item;
+    }
+    return result;
+}
+
+function mergeArrayByKey(local: JSONValue | undefined, incoming: JSONValue | undefined, idKey: string) {
+    if (!Array.isArray(local) || !Array.isArray(incoming)) return incoming ?? local;
+    const getId = (e: JSONValue) => (isJSONObject(e) && e[idKey] !== undefined ? `${e[idKey]}` : undefined);
+    const incomingIds = new Set(incoming.map(getId).filter((e) => e !== undefined));
+    // Items which have no id could not be matched; they are taken from the incoming one.
+    const localOnly = local.filter((e) => {
+        const id = getId(e);
+        return id !== undefined && !incomingIds.has(id);
+    });
+    return [...incoming, ...localOnly];
+}
+
+/**
+ * Apply key policies to the JSON document which has come from the other device.
+ * The incoming document is taken as is, except the values at the pointers of the policies. Policies for deeper
+ * pointers take precedence.
+ */
+export function applyJSONKeyPolicies(
+    local: JSONValue | undefined,
+    incoming: JSONValue,
+    policies: Pick<PluginDataKeyRule, "policy" | "pointer" | "idKey">[]
+): JSONValue {
+    const sorted = policies
+        .map((e) => ({ ...e, tokens: parsePointer(e.pointer) }))
+        .sort((a, b) => a.tokens.length - b.tokens.length);
+    let result = incoming as JSONValue | undefined;
+    for (const { policy, tokens, idKey } of sorted) {
+        const localValue = getByPointer(local, tokens);
+        const incomingValue = getByPointer(incoming, tokens);
+        const value =
+            policy == "local"
+                ? localValue
+                : policy == "remote"
+                  ? incomingValue
+                  : mergeArrayByKey(localValue, incomingValue, idKey);
+        if (value === ABSENT && getByPointer(result, tokens) === ABSENT) continue;
+        result = setByPointer(result, tokens, value);
+    }
+    return result ?? {};
+}
+
+/**
+ * Detect the indentation of the JSON text, to keep the style of the file after merging.
+ */
+export function detectJSONIndent(text: string): string | number | undefined {
+    const m = text.match(/^[{[]\r?\n([ \t]+)/);
+    if (!m) return undefined;
+    return m[1].startsWith("\t") ? "\t" : m[1].length;
+}
+
+export function isJSONDocument(path: string) {
+    const ext = path.split(".").pop()?.toLowerCase() ?? "";
+    return ["json", "canvas", "excalidraw"].includes(ext);
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SETTINGS } from "../lib/src/common/types.ts";
+import {
+    migrateSettings,
+    SETTINGS_MIGRATION_STEPS,
+    SETTINGS_SCHEMA_VERSION,
+    validateSettings,
+} from "./settingsSchema.ts";
+import { DEFAULT_PLUGIN_SETTINGS_EXTENSION, type LiveSyncPluginSettings } from "./types.ts";
+
+function defaultSettings(): LiveSyncPluginSettings {
+    return { ...DEFAULT_SETTINGS, ...DEFAULT_PLUGIN_SETTINGS_EXTENSION, useIndexedDBAdapter: true };
+}
+
+describe("migrateSettings", () => {
+    it.each(SETTINGS_MIGRATION_STEPS)("migrates $version: $description", (step) => {
+        const settings = {
+            ...defaultSettings(),
+            ...step.test.before,
+            settingsSchemaVersion: step.version - 1,
+        } as LiveSyncPluginSettings;
+        migrateSettings(settings);
+        const result = settings as unknown as Record<string, unknown>;
+        for (const [key, value] of Object.entries(step.test.after)) {
+            if (value === undefined) {
+                expect(result).not.toHaveProperty(key);
+            } else {
+                expect(result[key]).toEqual(value);
+            }
+        }
+        expect(settings.settingsSchemaVersion).toBe(SETTINGS_SCHEMA_VERSION);
+    });
+
+    it("does not apply the steps which have been applied", () => {
+        const settings = { ...defaultSettings(), settingsSchemaVersion: SETTINGS_SCHEMA_VERSION };
+        expect(migrateSettings(settings)).toEqual([]);
+    });
+
+    it("applies the steps in the order of the version", () => {
+        const before = Object.assign({}, ...SETTINGS_MIGRATION_STEPS.map((e) => e.test.before)) as object;
+        const settings = { ...defaultSettings(), ...before, settingsSchemaVersion: 0 };
+        const versions = migrateSettings(settings).map((e) => e.version);
+        expect(versions).toEqual([...versions].sort((a, b) => a - b));
+        expect(versions.length).toBe(SETTINGS_MIGRATION_STEPS.length);
+        expect(settings.settingsSchemaVersion).toBe(SETTINGS_SCHEMA_VERSION);
+    });
+
+    it.each(SETTINGS_MIGRATION_STEPS.filter((e) => e.isPerLoad))(
+        "applies $version on every load: $description",
+        (step) => {
+            const settings = {
+                ...defaultSettings(),
+                ...step.test.before,
+                settingsSchemaVersion: SETTINGS_SCHEMA_VERSION,
+            } as LiveSyncPluginSettings;
+            expect(migrateSettings(settings)).toEqual([step]);
+        }
+    );
+});
+
+describe("validateSettings", () => {
+    it("finds no issues in the default settings", () => {
+        expect(validateSettings(defaultSettings())).toEqual([]);
+    });
+
+    it("finds the contradictory settings", () => {
+        const issues = validateSettings({ ...defaultSettings(), liveSync: true, periodicReplication: true });
+        expect(issues.some((e) => e.keys.includes("periodicReplication"))).toBe(true);
+    });
+
+    it("finds the values of the wrong type", () => {
+        const settings = { ...defaultSettings(), batch_size: "50" } as unknown as LiveSyncPluginSettings;
+        const issues = validateSettings(settings);
+        expect(issues).toContainEqual(expect.objectContaining({ level: "error", keys: ["batch_size"] }));
+    });
+});
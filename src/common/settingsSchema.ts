@@ -0,0 +1,190 @@
+import { DEFAULT_SETTINGS, REMOTE_COUCHDB, REMOTE_MINIO } from "../lib/src/common/types.ts";
+import { $msg } from "../lib/src/common/i18n.ts";
+import { DEFAULT_PLUGIN_SETTINGS_EXTENSION, type LiveSyncPluginSettings } from "./types.ts";
+import { isFileDropRemote } from "./utils.ts";
+
+// Settings which have been loaded from data.json. They may have obsolete keys, or lack some keys.
+type LoadedSettings = LiveSyncPluginSettings & Record<string, unknown>;
+
+export type SettingsMigrationStep = {
+    // Steps are applied in the order of the version, to the settings which have an older `settingsSchemaVersion`.
+    version: number;
+    description: string;
+    // Applied on every load, not only once. For the values which can come back later, e.g., by importing old settings.
+    isPerLoad?: boolean;
+    // Returns true if the settings have been changed.
+    migrate: (settings: LoadedSettings) => boolean;
+    // The message to show when the settings have been changed. The description is shown if omitted.
+    notice?: () => string;
+    // Checked by `settingsSchema.test.ts`: `before` is migrated, and the result should have the values of `after`.
+    // `undefined` in `after` means that the key should be removed.
+    test: { before: Record<string, unknown>; after: Record<string, unknown> };
+};
+
+/**
+ * Migration steps of the settings, which are applied once (or on every load, if `isPerLoad`) on loading.
+ * Please append new steps with the next version; never modify or remove the released steps.
+ * Note: The migrations which need the remote or the user's decision (e.g., case sensitivity) are not here,
+ * but in `ModuleMigration`, as they are versioned by `settingVersion`.
+ */
+export const SETTINGS_MIGRATION_STEPS: SettingsMigrationStep[] = [
+    {
+        version: 1,
+        description: "Disable sending chunks in bulk, which could corrupt the remote database",
+        isPerLoad: true,
+        migrate: (settings) => {
+            if (!settings.sendChunksBulk) return false;
+            settings.sendChunksBulk = false;
+            settings.sendChunksBulkMaxSize = 1;
+            return true;
+        },
+        notice: () => $msg("moduleMigration.logBulkSendCorrupted"),
+        test: {
+            before: { sendChunksBulk: true, sendChunksBulkMaxSize: 10 },
+            after: { sendChunksBulk: false, sendChunksBulkMaxSize: 1 },
+        },
+    },
+    {
+        version: 2,
+        description: "Remove the temporary encryption settings, which had been saved by mistake",
+        isPerLoad: true,
+        migrate: (settings) => {
+            if (!("workingEncrypt" in settings) && !("workingPassphrase" in settings)) return false;
+            delete settings.workingEncrypt;
+            delete settings.workingPassphrase;
+            return true;
+        },
+        test: {
+            before: { workingEncrypt: true, workingPassphrase: "secret" },
+            after: { workingEncrypt: undefined, workingPassphrase: undefined },
+        },
+    },
+];
+
+export const SETTINGS_SCHEMA_VERSION = Math.max(...SETTINGS_MIGRATION_STEPS.map((e) => e.version));
+
+/**
+ * Apply the migration steps which have not been applied to the settings yet, and the per-load steps.
+ * @returns the steps which have changed the settings.
+ */
+export function migrateSettings(settings: LiveSyncPluginSettings) {
+    const current = settings.settingsSchemaVersion ?? 0;
+    const steps = SETTINGS_MIGRATION_STEPS.filter((e) => e.version > current || e.isPerLoad).sort(
+        (a, b) => a.version - b.version
+    );
+    const changed = [] as SettingsMigrationStep[];
+    for (const step of steps) {
+        if (step.migrate(settings as LoadedSettings)) changed.push(step);
+        settings.settingsSchemaVersion = Math.max(settings.settingsSchemaVersion ?? 0, step.version);
+    }
+    return changed;
+}
+
+export type SettingsIssue = {
+    level: "error" | "warning";
+    keys: string[];
+    message: string;
+};
+type SettingsValidator = (settings: LiveSyncPluginSettings) => SettingsIssue | false;
+
+const DEFAULTS = { ...DEFAULT_SETTINGS, ...DEFAULT_PLUGIN_SETTINGS_EXTENSION } as Record<string, unknown>;
+
+const SETTINGS_VALIDATORS: SettingsValidator[] = [
+    (settings) =>
+        !settings.useIndexedDBAdapter && {
+            level: "warning",
+            keys: ["useIndexedDBAdapter"],
+            message:
+                "The old database adapter is in use. It is no longer maintained; please enable the IndexedDB adapter and fetch the database again.",
+        },
+    (settings) =>
+        settings.liveSync &&
+        settings.periodicReplication && {
+            level: "warning",
+            keys: ["liveSync", "periodicReplication"],
+            message: "LiveSync and periodic sync are both enabled. Periodic sync is not performed while in LiveSync.",
+        },
+    (settings) =>
+        settings.liveSync &&
+        settings.remoteType == REMOTE_MINIO && {
+            level: "error",
+            keys: ["liveSync", "remoteType"],
+            message: "LiveSync is not available with the object storage. Please use periodic sync instead.",
+        },
+    (settings) =>
+        settings.liveSync &&
+        settings.readOnlyDevice && {
+            level: "warning",
+            keys: ["liveSync", "readOnlyDevice"],
+            message:
+                "LiveSync is not available on the read-only device. Changes are only fetched on start-up; please use periodic sync instead.",
+        },
+    (settings) =>
+        settings.usePathObfuscation &&
+        settings.passphrase == "" && {
+            level: "error",
+            keys: ["usePathObfuscation", "passphrase"],
+            message: "Path obfuscation is enabled without the passphrase. Paths cannot be obfuscated.",
+        },
+    (settings) =>
+        settings.encrypt &&
+        settings.passphrase == "" && {
+            level: "error",
+            keys: ["encrypt", "passphrase"],
+            message: "End-to-end encryption is enabled without the passphrase.",
+        },
+    (settings) =>
+        (settings.batch_size < 2 || settings.batches_limit < 2) && {
+            level: "error",
+            keys: ["batch_size", "batches_limit"],
+            message: "Batch size and batch limit should be 2 or more.",
+        },
+    (settings) =>
+        settings.isConfigured &&
+        settings.remoteType == REMOTE_COUCHDB &&
+        settings.couchDB_URI != "" &&
+        !/^https?:\/\//.test(settings.couchDB_URI) && {
+            level: "error",
+            keys: ["couchDB_URI"],
+            message: "The URI of CouchDB should start with `http://` or `https://`.",
+        },
+    (settings) =>
+        settings.isConfigured &&
+        isFileDropRemote(settings) &&
+        settings.fileDropFolder.trim() == "" && {
+            level: "error",
+            keys: ["fileDropFolder"],
+            message: "The shared folder is not configured.",
+        },
+];
+
+/**
+ * Check the type of each value against the default value.
+ */
+function validateSettingTypes(settings: LiveSyncPluginSettings) {
+    const issues = [] as SettingsIssue[];
+    const values = settings as unknown as Record<string, unknown>;
+    for (const [key, defaultValue] of Object.entries(DEFAULTS)) {
+        if (defaultValue === undefined || defaultValue === null || !(key in values)) continue;
+        const expected = Array.isArray(defaultValue) ? "array" : typeof defaultValue;
+        const actual = Array.isArray(values[key]) ? "array" : typeof values[key];
+        if (expected != actual) {
+            issues.push({
+                level: "error",
+                keys: [key],
+                message: `\`${key}\` should be ${expected}, but is ${actual}.`,
+            });
+        }
+    }
+    return issues;
+}
+
+/**
+ * Find invalid or contradictory settings.
+ */
+export function validateSettings(settings: LiveSyncPluginSettings): SettingsIssue[] {
+    return [
+        ...validateSettingTypes(settings),
+        ...SETTINGS_VALIDATORS.map((e) => e(settings)).filter((e): e is SettingsIssue => !!e),
+    ];
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { threeWayMerge } from "./threeWayMerge.ts";
+
+const base = "# Title\n\nFirst paragraph.\n\nSecond paragraph.\n\nThird paragraph.\n";
+
+describe("threeWayMerge", () => {
+    it("takes the changes of both sides when they do not overlap", () => {
+        const left = base.replace("First paragraph.", "First paragraph, edited on the left.");
+        const right = base.replace("Third paragraph.", "Third paragraph, edited on the right.");
+        expect(threeWayMerge(base, left, right)).toEqual({
+            merged: "# Title\n\nFirst paragraph, edited on the left.\n\nSecond paragraph.\n\nThird paragraph, edited on the right.\n",
+        });
+    });
+
+    it("takes the change of one side when the other side is not changed", () => {
+        const left = base + "\nAppended.\n";
+        expect(threeWayMerge(base, left, base)).toEqual({ merged: left });
+        expect(threeWayMerge(base, base, left)).toEqual({ merged: left });
+    });
+
+    it("takes the deletion and the addition on both sides", () => {
+        const left = base.replace("Second paragraph.\n\n", "");
+        const right = "Prepended.\n" + base;
+        expect(threeWayMerge(base, left, right)).toEqual({ merged: "Prepended.\n" + left });
+    });
+
+    it("merges the same change on both sides", () => {
+        const changed = base.replace("Second paragraph.", "Second paragraph, edited.");
+        expect(threeWayMerge(base, changed, changed)).toEqual({ merged: changed });
+    });
+
+    it("reports the overlapping changes as conflicts, with the other changes applied on both sides", () => {
+        const left = base
+            .replace("First paragraph.", "First paragraph, left.")
+            .replace("Third paragraph.", "Third paragraph, edited.");
+        const right = base.replace("First paragraph.", "First paragraph, right.");
+        expect(threeWayMerge(base, left, right)).toEqual({
+            left,
+            right: right.replace("Third paragraph.", "Third paragraph, edited."),
+            conflicts: 1,
+        });
+    });
+
+    it("reports the changes on the adjacent lines as conflicts", () => {
+        const text = "a\nb\nc\n";
+        const result = threeWayMerge(text, "a\nB\nc\n", "a\nb\nC\n");
+        expect(result).toEqual({ left: "a\nB\nc\n", right: "a\nb\nC\n", conflicts: 1 });
+    });
+
+    it("merges into the empty base", () => {
+        expect(threeWayMerge("", "same\n", "same\n")).toEqual({ merged: "same\n" });
+        expect(threeWayMerge("", "left\n", "right\n")).toEqual({ left: "left\n", right: "right\n", conflicts: 1 });
+    });
+});
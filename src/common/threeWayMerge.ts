@@ -0,0 +1,135 @@
+import diff_match_patch, { DIFF_DELETE, DIFF_EQUAL, DIFF_INSERT } from "diff-match-patch";
+
+type MergeSide = "left" | "right";
+type Hunk = {
+    side: MergeSide;
+    // The range of the base lines which have been replaced by `lines`.
+    start: number;
+    end: number;
+    lines: string[];
+};
+
+export type ThreeWayMergeResult =
+    | { merged: string }
+    | {
+          // Both sides have got all non-overlapping changes applied, only the overlapping changes are different.
+          left: string;
+          right: string;
+          conflicts: number;
+      };
+
+function splitLines(text: string): string[] {
+    if (text == "") return [];
+    return text.split(/(?<=\n)/);
+}
+
+function diffLines(dmp: diff_match_patch, side: MergeSide, base: string, target: string): Hunk[] {
+    const { chars1, chars2, lineArray } = dmp.diff_linesToChars_(base, target);
+    const diffs = dmp.diff_main(chars1, chars2, false);
+    dmp.diff_charsToLines_(diffs, lineArray);
+    const hunks = [] as Hunk[];
+    let pos = 0;
+    let current: Hunk | undefined = undefined;
+    for (const [op, text] of diffs) {
+        const lines = splitLines(text);
+        if (op == DIFF_EQUAL) {
+            if (current) hunks.push(current);
+            current = undefined;
+            pos += lines.length;
+            continue;
+        }
+        if (!current) current = { side, start: pos, end: pos, lines: [] };
+        if (op == DIFF_DELETE) {
+            pos += lines.length;
+            current.end = pos;
+        } else if (op == DIFF_INSERT) {
+            current.lines.push(...lines);
+        }
+    }
+    if (current) hunks.push(current);
+    return hunks;
+}
+
+function applyHunks(baseLines: string[], start: number, end: number, hunks: Hunk[]) {
+    const result = [] as string[];
+    let pos = start;
+    for (const hunk of hunks) {
+        result.push(...baseLines.slice(pos, hunk.start), ...hunk.lines);
+        pos = hunk.end;
+    }
+    result.push(...baseLines.slice(pos, end));
+    return result.join("");
+}
+
+/**
+ * Merge two texts line by line, using the text of their common ancestor.
+ * Changes which have been made on only one side are taken as they are. Changes which overlap (or touch) each other
+ * are conflicts unless both sides made the same change.
+ * @param base the text of the common ancestor
+ * @param left the text of one side
+ * @param right the text of the other side
+ */
+export function threeWayMerge(base: string, left: string, right: string): ThreeWayMergeResult {
+    const dmp = new diff_match_patch();
+    const baseLines = splitLines(base);
+    const hunks = [...diffLines(dmp, "left", base, left), ...diffLines(dmp, "right", base, right)].sort(
+        (a, b) => a.start - b.start || a.end - b.end
+    );
+
+    // Group the hunks which overlap or touch each other.
+    const groups = [] as Hunk[][];
+    let groupEnd = -1;
+    for (const hunk of hunks) {
+        const last = groups[groups.length - 1];
+        if (last && hunk.start <= groupEnd) {
+            last.push(hunk);
+            groupEnd = Math.max(groupEnd, hunk.end);
+        } else {
+            groups.push([hunk]);
+            groupEnd = hunk.end;
+        }
+    }
+
+    const mergedLeft = [] as string[];
+    const mergedRight = [] as string[];
+    let conflicts = 0;
+    let pos = 0;
+    for (const group of groups) {
+        const start = group[0].start;
+        const end = Math.max(...group.map((e) => e.end));
+        const common = baseLines.slice(pos, start).join("");
+        const leftText = applyHunks(
+            baseLines,
+            start,
+            end,
+            group.filter((e) => e.side == "left")
+        );
+        const rightText = applyHunks(
+            baseLines,
+            start,
+            end,
+            group.filter((e) => e.side == "right")
+        );
+        const isLeftOnly = group.every((e) => e.side == "left");
+        const isRightOnly = group.every((e) => e.side == "right");
+        if (isLeftOnly || leftText == rightText) {
+            mergedLeft.push(common, leftText);
+            mergedRight.push(common, leftText);
+        } else if (isRightOnly) {
+            mergedLeft.push(common, rightText);
+            mergedRight.push(common, rightText);
+        } else {
+            mergedLeft.push(common, leftText);
+            mergedRight.push(common, rightText);
+            conflicts++;
+        }
+        pos = end;
+    }
+    const rest = baseLines.slice(pos).join("");
+    mergedLeft.push(rest);
+    mergedRight.push(rest);
+    if (conflicts == 0) {
+        return { merged: mergedLeft.join("") };
+    }
+    return { left: mergedLeft.join(""), right: mergedRight.join(""), conflicts };
+}
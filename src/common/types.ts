@@ -3,6 +3,10 @@ import {
     type DatabaseEntry,
     type EntryBody,
     type FilePath,
+    type FilePathWithPrefix,
+    type MetaEntry,
+    type ObsidianLiveSyncSettings,
+    type diff_result,
     type UXFileInfoStub,
     type UXInternalFileInfoStub,
 } from "../lib/src/common/types.ts";
@@ -55,7 +59,7 @@ export type queueItem = {
 };
 
 export type CacheData = string | ArrayBuffer;
-export type FileEventType = "CREATE" | "DELETE" | "CHANGED" | "INTERNAL";
+export type FileEventType = "CREATE" | "DELETE" | "CHANGED" | "RENAME" | "INTERNAL";
 export type FileEventArgs = {
     file: UXFileInfoStub | UXInternalFileInfoStub;
     cache?: CacheData;
@@ -71,6 +75,29 @@ export type FileEventItem = {
     batched?: boolean;
 };
 
+// A snapshot of the queue, to show the activity of the synchronisation.
+export type ActivityQueueSnapshot = {
+    name: string;
+    // Number of the queued items, including the items which are not files (e.g., chunks).
+    count: number;
+    items: FilePathWithPrefix[];
+    // Number of the items which have been processed since the start-up. The throughput is computed from this.
+    processed: number;
+};
+
+// The document which has been renamed from the other one keeps the path of the previous one.
+// Other devices use this to rename the file on the storage instead of deleting and creating it.
+export type RenamedMetaEntry = MetaEntry & {
+    renamedFrom?: FilePathWithPrefix;
+};
+
+// The result of the three-way merge which could not be completed.
+// `left` and `right` have the merged content instead of the content of the revisions,
+// hence the chosen one should be stored as a new revision, not only by deleting the other.
+export type PreMergedDiffResult = diff_result & {
+    preMerged?: boolean;
+};
+
 // Hidden items (Now means `chunk`)
 export const CHeader = "h:";
 
@@ -85,6 +112,146 @@ export const ICHeaderLength = ICHeader.length;
 
 // Internal data Container (eXtended)
 export const ICXHeader = "ix:";
+// Profiles of customisation sync. This is not in the range of `ICXHeader`, hence it is not enumerated as a customisation.
+export const ICXProfilesID = "ix;profiles";
 
 export const FileWatchEventQueueMax = 10;
 export const configURIBase = "obsidian://setuplivesync?settings=";
+// A long setup URI is split into numbered chunks (e.g., to be shown as QR codes), which have this base.
+// Each chunk is `obsidian://setuplivesync?set=<id>&chunk=<index>/<total>&data=<part of the encrypted settings>`.
+export const configURIChunkBase = "obsidian://setuplivesync?set=";
+export type SetupURIChunk = {
+    // Chunks which have the same `set` are joined.
+    set: string;
+    // 1-based.
+    index: number;
+    total: number;
+    data: string;
+};
+
+// The payload of the setup URI (version 2), which is encrypted and stored in `settings` of the URI.
+// Setup URIs without `setupURIVersion` are legacy ones, which only have the settings and are valid forever.
+export const SETUP_URI_VERSION = 2;
+export type SetupURIScope = {
+    // The device does not send any changes on its storage to the remote database.
+    readOnly: boolean;
+    // If not empty, the URI can only be used in the vault which has this name.
+    vaultName: string;
+};
+export type SetupURIPayload = {
+    setupURIVersion: typeof SETUP_URI_VERSION;
+    // The identifier to revoke the URI. Revoked identifiers are listed in the milestone document of the remote.
+    id: string;
+    issued: number;
+    // `0` means that the URI never expires.
+    expires: number;
+    scope: SetupURIScope;
+    settings: Partial<ObsidianLiveSyncSettings>;
+};
+// Setup URIs which have been issued on this device, to be revoked later.
+export type IssuedSetupURI = Omit<SetupURIPayload, "setupURIVersion" | "settings">;
+
+export const CONFLICT_RESOLUTION_POLICIES = ["newer", "local", "remote", "ask", "merge", "keep-both"] as const;
+// newer: Keep the revision which has been modified later.
+// local: Keep the revision which is on the storage of this device.
+// remote: Keep the revision which has come from the other device.
+// ask: Always show the merge dialog, without any automatic merging.
+// merge: Merge the revisions by the common ancestor, even if `disableMarkdownAutoMerge` is enabled.
+// keep-both: Keep the newer revision, and write the older one as a sibling file.
+export type ConflictResolutionPolicy = (typeof CONFLICT_RESOLUTION_POLICIES)[number];
+export type ConflictResolutionRule = {
+    // glob, or regular expression if it is enclosed in slashes (e.g., `/^daily\/.*$/i`).
+    pattern: string;
+    policy: ConflictResolutionPolicy;
+};
+
+export const PLUGIN_DATA_KEY_POLICIES = ["local", "remote", "merge"] as const;
+// local: Keep the value on this device.
+// remote: Always take the value from the other device, even if it is under the pointer of `local`.
+// merge: Merge the array by `id` (or the given key) of items. Items which only exist on this device are kept.
+export type PluginDataKeyPolicy = (typeof PLUGIN_DATA_KEY_POLICIES)[number];
+export type PluginDataKeyRule = {
+    // The directory name of the plugin, or `*` for all plugins.
+    plugin: string;
+    policy: PluginDataKeyPolicy;
+    // JSON pointer (RFC 6901) to the value in data.json, e.g., `/window/width`.
+    pointer: string;
+    idKey: string;
+};
+
+export const REVISION_RETENTION_GRANULARITIES = ["all", "hourly", "daily", "weekly", "monthly"] as const;
+// all: Keep every revision.
+// hourly, daily, weekly, monthly: Keep the newest revision in each hour, day, week or month (in local time).
+export type RevisionRetentionGranularity = (typeof REVISION_RETENTION_GRANULARITIES)[number];
+export type RevisionRetentionRule = {
+    granularity: RevisionRetentionGranularity;
+    // Milliseconds. The rule is applied to the revisions which are younger than this. `Infinity` means forever.
+    period: number;
+};
+
+// A named set of include/exclude patterns. Each device selects one of them to limit the files on its storage.
+export type SelectiveSyncProfile = {
+    name: string;
+    // If any, only the files which match one of them are written to the storage.
+    includes: string[];
+    // Files which match one of them are not written to the storage, even if they match `includes`.
+    excludes: string[];
+};
+
+// Placeholders are written next to the files which are not on the storage, as `<path>.livesync-placeholder.md`.
+// They are never synchronised.
+export const PLACEHOLDER_SUFFIX = ".livesync-placeholder.md";
+
+// Archives of the local database (See `LocalDatabaseMaintenance`). They are never synchronised.
+export const DATABASE_ARCHIVE_SUFFIX = ".livesync-archive.zip";
+
+// Settings which are only handled by the plugin. They are stored in data.json along with ObsidianLiveSyncSettings.
+export interface PluginSettingsExtension {
+    // One rule per line: `<policy> <pattern>`. The first matched rule is applied.
+    conflictResolutionRules: string;
+    // Profiles start with `[name]`, and followed by `include <pattern>` or `exclude <pattern>` lines.
+    // The profile which is used on this device is not stored in the settings, but in the local storage.
+    selectiveSyncProfiles: string;
+    // Write placeholders for the binary files which are too large or excluded by the selective sync profile.
+    usePlaceholderFiles: boolean;
+    // The maximum size of the log store on this device. `0` disables storing logs.
+    persistentLogMaxSizeInMB: number;
+    // One rule per line: `<plugin> <policy> <JSON pointer> [<id key>]`. Applied when data.json is applied by
+    // customisation sync.
+    pluginDataKeyPolicies: string;
+    // Changes on the storage are not stored into the local database, hence never sent to the remote.
+    // Set by importing the setup URI which has the read-only scope.
+    readOnlyDevice: boolean;
+    // The version of the migration steps which have been applied (See `settingsSchema.ts`).
+    settingsSchemaVersion: number;
+    // Take a snapshot of the revisions of all files in this interval. `0` disables scheduled snapshots.
+    vaultSnapshotIntervalInMinutes: number;
+    // Number of the scheduled snapshots to keep. Named snapshots are kept until they are deleted.
+    vaultSnapshotKeepCount: number;
+    // One rule per line: `<granularity> <period>`, e.g., `daily 3m`. Chunks of the revisions which are not kept by
+    // this (nor pinned) are treated as unused by the garbage collection. Empty to keep the previous behaviour.
+    revisionRetentionPolicy: string;
+    // The maximum number of the entries of the sync journal, kept on memory. `0` disables recording.
+    syncJournalMaxEntries: number;
+    // Exchange the journal packs through `fileDropFolder` (e.g., a NAS mount, a USB stick or a folder mirrored by
+    // another sync tool) instead of the bucket. Only on the object storage remote; See `isFileDropRemote`.
+    useFileDrop: boolean;
+    // The folder to exchange the journal packs, on the shared folder remote.
+    fileDropFolder: string;
+}
+export const DEFAULT_PLUGIN_SETTINGS_EXTENSION: PluginSettingsExtension = {
+    conflictResolutionRules: "",
+    selectiveSyncProfiles: "",
+    usePlaceholderFiles: false,
+    persistentLogMaxSizeInMB: 0,
+    pluginDataKeyPolicies: "",
+    readOnlyDevice: false,
+    settingsSchemaVersion: 0,
+    vaultSnapshotIntervalInMinutes: 0,
+    vaultSnapshotKeepCount: 24,
+    revisionRetentionPolicy: "",
+    syncJournalMaxEntries: 0,
+    useFileDrop: false,
+    fileDropFolder: "",
+};
+export type LiveSyncPluginSettings = ObsidianLiveSyncSettings & PluginSettingsExtension;
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { decrypt, encrypt } from "../lib/src/encryption/e2ee_v2.ts";
+import { configURIBase, type SetupURIChunk } from "./types.ts";
+import { joinSetupURIChunks, parseSetupURIChunk, splitSetupURI } from "./utils.ts";
+
+async function createSetupURI(length: number) {
+    const conf = { couchDB_URI: "https://example.com", couchDB_DBNAME: "vault", passphrase: "x".repeat(length) };
+    const encrypted = await encrypt(JSON.stringify(conf), "test", false);
+    return { conf, encrypted, uri: `${configURIBase}${encodeURIComponent(encrypted)}` };
+}
+
+describe("splitSetupURI", () => {
+    it("does not split the short setup URI", async () => {
+        const { uri } = await createSetupURI(10);
+        expect(splitSetupURI(uri, uri.length)).toEqual([uri]);
+    });
+
+    it.each([64, 100, 800])("splits into the chunks which are not longer than %i characters", async (maxLength) => {
+        const { encrypted, uri } = await createSetupURI(2000);
+        const chunks = splitSetupURI(uri, maxLength);
+        expect(chunks.length).toBeGreaterThan(1);
+        for (const chunk of chunks) {
+            expect(chunk.length).toBeLessThanOrEqual(maxLength);
+        }
+        // Chunks can be received in any order.
+        const parsed = chunks.reverse().map((e) => parseSetupURIChunk(e));
+        expect(parsed).not.toContain(false);
+        expect(joinSetupURIChunks(parsed as SetupURIChunk[])).toBe(encrypted);
+    });
+
+    it("round-trips the settings", async () => {
+        const { conf, uri } = await createSetupURI(500);
+        const parsed = splitSetupURI(uri, 64).map((e) => parseSetupURIChunk(e)) as SetupURIChunk[];
+        const joined = joinSetupURIChunks(parsed);
+        expect(joined).not.toBe(false);
+        expect(JSON.parse(await decrypt(joined as string, "test", false))).toEqual(conf);
+    });
+
+    it("does not join the incomplete chunks", async () => {
+        const { uri } = await createSetupURI(500);
+        const parsed = splitSetupURI(uri, 64).map((e) => parseSetupURIChunk(e)) as SetupURIChunk[];
+        expect(joinSetupURIChunks(parsed.slice(1))).toBe(false);
+    });
+
+    it("refuses the length which cannot contain any data", async () => {
+        const { uri } = await createSetupURI(10);
+        expect(() => splitSetupURI(uri, 20)).toThrow();
+    });
+});
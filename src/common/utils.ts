@@ -19,10 +19,33 @@ import {
     type EntryHasPath,
     type FilePath,
     type FilePathWithPrefix,
+    REMOTE_MINIO,
     type UXFileInfo,
     type UXFileInfoStub,
 } from "../lib/src/common/types.ts";
-import { CHeader, ICHeader, ICHeaderLength, ICXHeader, PSCHeader } from "./types.ts";
+import {
+    CHeader,
+    configURIBase,
+    configURIChunkBase,
+    CONFLICT_RESOLUTION_POLICIES,
+    DATABASE_ARCHIVE_SUFFIX,
+    type ConflictResolutionPolicy,
+    type ConflictResolutionRule,
+    type LiveSyncPluginSettings,
+    PLUGIN_DATA_KEY_POLICIES,
+    REVISION_RETENTION_GRANULARITIES,
+    type RevisionRetentionGranularity,
+    type RevisionRetentionRule,
+    type PluginDataKeyPolicy,
+    type PluginDataKeyRule,
+    type SelectiveSyncProfile,
+    type SetupURIChunk,
+    ICHeader,
+    ICHeaderLength,
+    ICXHeader,
+    PLACEHOLDER_SUFFIX,
+    PSCHeader,
+} from "./types.ts";
 import type ObsidianLiveSyncPlugin from "../main.ts";
 import { writeString } from "../lib/src/string_and_binary/convert.ts";
 import { fireAndForget } from "../lib/src/common/utils.ts";
@@ -30,6 +53,7 @@ import { sameChangePairs } from "./stores.ts";
 import type { KeyValueDatabase } from "./KeyValueDB.ts";
 import { scheduleTask } from "octagonal-wheels/concurrency/task";
 import { EVENT_PLUGIN_UNLOADED, eventHub } from "./events.ts";
+import { minimatch } from "minimatch";
 
 export { scheduleTask, cancelTask, cancelAllTasks } from "../lib/src/concurrency/task.ts";
 
@@ -493,3 +517,326 @@ export function onlyInNTimes(n: number, proc: (progress: number) => any) {
         }
     };
 }
+
+/**
+ * Parse conflict resolution rules which have been written as `<policy> <pattern>` per line.
+ * Empty lines and lines starting with `#` are ignored.
+ * @returns rules and lines which could not be parsed.
+ */
+export function parseConflictResolutionRules(source: string) {
+    const rules = [] as ConflictResolutionRule[];
+    const errors = [] as string[];
+    for (const line of source.split(/\r?\n/).map((e) => e.trim())) {
+        if (line == "" || line.startsWith("#")) continue;
+        const [policy, ...rest] = line.split(/\s+/);
+        const pattern = rest.join(" ");
+        if (!CONFLICT_RESOLUTION_POLICIES.includes(policy as ConflictResolutionPolicy) || pattern == "") {
+            errors.push(line);
+            continue;
+        }
+        if (pattern.startsWith("/") && !isValidRegExpPattern(pattern)) {
+            errors.push(line);
+            continue;
+        }
+        rules.push({ policy: policy as ConflictResolutionPolicy, pattern });
+    }
+    return { rules, errors };
+}
+
+function isValidRegExpPattern(pattern: string) {
+    return parseRegExpPattern(pattern) !== false;
+}
+
+function parseRegExpPattern(pattern: string): RegExp | false {
+    const m = pattern.match(/^\/(.*)\/([a-z]*)$/);
+    if (!m) return false;
+    try {
+        return new RegExp(m[1], m[2]);
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Find the policy of the first rule which matches the path.
+ * @param path path without any prefix.
+ */
+export function getConflictResolutionPolicy(
+    path: string,
+    rules: ConflictResolutionRule[]
+): ConflictResolutionPolicy | undefined {
+    for (const rule of rules) {
+        if (isPathMatchedToPattern(path, rule.pattern)) return rule.policy;
+    }
+    return undefined;
+}
+
+/**
+ * Check the path matches the glob, or the regular expression enclosed in slashes.
+ * Globs without any slash are matched against the file name.
+ */
+function isPathMatchedToPattern(path: string, pattern: string) {
+    const regExp = pattern.startsWith("/") ? parseRegExpPattern(pattern) : false;
+    return regExp ? regExp.test(path) : minimatch(path, pattern, { dot: true, matchBase: !pattern.includes("/") });
+}
+
+/**
+ * Parse selective sync profiles which have been written as:
+ * ```
+ * [Mobile]
+ * exclude Attachments/Video/**
+ * ```
+ * Empty lines and lines starting with `#` are ignored.
+ * @returns profiles and lines which could not be parsed.
+ */
+export function parseSelectiveSyncProfiles(source: string) {
+    const profiles = [] as SelectiveSyncProfile[];
+    const errors = [] as string[];
+    let current: SelectiveSyncProfile | undefined;
+    for (const line of source.split(/\r?\n/).map((e) => e.trim())) {
+        if (line == "" || line.startsWith("#")) continue;
+        const header = line.match(/^\[(.+)\]$/);
+        if (header) {
+            const name = header[1].trim();
+            current = profiles.find((e) => e.name == name);
+            if (!current) {
+                current = { name, includes: [], excludes: [] };
+                profiles.push(current);
+            }
+            continue;
+        }
+        const [kind, ...rest] = line.split(/\s+/);
+        const pattern = rest.join(" ");
+        if (!current || (kind != "include" && kind != "exclude") || pattern == "") {
+            errors.push(line);
+            continue;
+        }
+        if (pattern.startsWith("/") && !isValidRegExpPattern(pattern)) {
+            errors.push(line);
+            continue;
+        }
+        (kind == "include" ? current.includes : current.excludes).push(pattern);
+    }
+    return { profiles, errors };
+}
+
+/**
+ * Check the file should not be on the storage of the device which uses the profile.
+ * @param path path without any prefix.
+ */
+export function isExcludedBySelectiveSyncProfile(path: string, profile: SelectiveSyncProfile) {
+    if (profile.includes.length > 0 && !profile.includes.some((e) => isPathMatchedToPattern(path, e))) return true;
+    return profile.excludes.some((e) => isPathMatchedToPattern(path, e));
+}
+
+/**
+ * Parse key policies of data.json of plugins which have been written as `<plugin> <policy> <JSON pointer> [<id key>]`
+ * per line. Empty lines and lines starting with `#` are ignored.
+ * @returns rules and lines which could not be parsed.
+ */
+export function parsePluginDataKeyRules(source: string) {
+    const rules = [] as PluginDataKeyRule[];
+    const errors = [] as string[];
+    for (const line of source.split(/\r?\n/).map((e) => e.trim())) {
+        if (line == "" || line.startsWith("#")) continue;
+        const [plugin, policy, pointer, idKey, ...rest] = line.split(/\s+/);
+        if (
+            !PLUGIN_DATA_KEY_POLICIES.includes(policy as PluginDataKeyPolicy) ||
+            !pointer?.startsWith("/") ||
+            (idKey && policy != "merge") ||
+            rest.length > 0
+        ) {
+            errors.push(line);
+            continue;
+        }
+        rules.push({ plugin, policy: policy as PluginDataKeyPolicy, pointer, idKey: idKey || "id" });
+    }
+    return { rules, errors };
+}
+
+/**
+ * Get the rules for the plugin, from `<configDir>/plugins/<plugin>/data.json`.
+ * @returns rules, or an empty array if the path is not data.json of any plugin.
+ */
+export function getPluginDataKeyRules(path: string, configDir: string, rules: PluginDataKeyRule[]) {
+    const m = path.match(/^(.*)\/plugins\/([^/]+)\/data\.json$/);
+    if (!m || m[1] != configDir) return [];
+    return rules.filter((e) => e.plugin == "*" || e.plugin == m[2]);
+}
+
+const RETENTION_PERIOD_UNITS: Record<string, number> = {
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000,
+    w: 7 * 24 * 60 * 60 * 1000,
+    m: 30 * 24 * 60 * 60 * 1000,
+    y: 365 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse the revision retention policy, e.g., `all 7d`, `daily 3m` and `monthly forever`.
+ * Rules are sorted by their period, so the rule which has the shortest period is applied first.
+ */
+export function parseRevisionRetentionPolicy(source: string) {
+    const rules = [] as RevisionRetentionRule[];
+    const errors = [] as string[];
+    for (const line of source.split(/\r?\n/).map((e) => e.trim())) {
+        if (line == "" || line.startsWith("#")) continue;
+        const [granularity, period, ...rest] = line.split(/\s+/);
+        const m = period?.match(/^(\d+)([hdwmy])$/);
+        if (
+            !REVISION_RETENTION_GRANULARITIES.includes(granularity as RevisionRetentionGranularity) ||
+            (!m && period != "forever") ||
+            rest.length > 0
+        ) {
+            errors.push(line);
+            continue;
+        }
+        rules.push({
+            granularity: granularity as RevisionRetentionGranularity,
+            period: m ? Number(m[1]) * RETENTION_PERIOD_UNITS[m[2]] : Infinity,
+        });
+    }
+    return { rules: rules.sort((a, b) => a.period - b.period), errors };
+}
+
+function getRetentionBucket(mtime: number, granularity: RevisionRetentionGranularity) {
+    const d = new Date(mtime);
+    switch (granularity) {
+        case "hourly":
+            return `${d.getFullYear()}-${d.getMonth()}-${d.getDate()}-${d.getHours()}`;
+        case "daily":
+            return `${d.getFullYear()}-${d.getMonth()}-${d.getDate()}`;
+        case "weekly": {
+            // Weeks start on Sunday.
+            const start = new Date(d.getFullYear(), d.getMonth(), d.getDate() - d.getDay());
+            return `${start.getFullYear()}-${start.getMonth()}-${start.getDate()}`;
+        }
+        case "monthly":
+            return `${d.getFullYear()}-${d.getMonth()}`;
+        default:
+            return `${mtime}`;
+    }
+}
+
+/**
+ * Select the revisions which should be kept by the retention rules.
+ * @param revisions revisions of one document, with their modified time.
+ * @returns revisions to keep. The leaf revisions are not concerned; they should be always kept.
+ */
+export function selectRetainedRevisions(
+    revisions: { rev: string; mtime: number }[],
+    rules: RevisionRetentionRule[],
+    now: number = Date.now()
+) {
+    const newest = new Map<string, { rev: string; mtime: number }>();
+    for (const revision of revisions) {
+        const age = now - revision.mtime;
+        const index = rules.findIndex((e) => age <= e.period);
+        if (index == -1) continue;
+        const rule = rules[index];
+        const key =
+            rule.granularity == "all"
+                ? revision.rev
+                : `${index}:${getRetentionBucket(revision.mtime, rule.granularity)}`;
+        const current = newest.get(key);
+        if (!current || current.mtime < revision.mtime) newest.set(key, revision);
+    }
+    return new Set([...newest.values()].map((e) => e.rev));
+}
+
+export function isPlaceholderPath(path: string) {
+    return path.endsWith(PLACEHOLDER_SUFFIX);
+}
+export function getPlaceholderPath(path: string) {
+    return `${path}${PLACEHOLDER_SUFFIX}` as FilePath;
+}
+export function getPathOfPlaceholder(placeholderPath: string) {
+    return placeholderPath.slice(0, -PLACEHOLDER_SUFFIX.length) as FilePath;
+}
+export function isDatabaseArchivePath(path: string) {
+    return path.endsWith(DATABASE_ARCHIVE_SUFFIX);
+}
+
+/**
+ * The shared folder remote is the object storage remote which exchanges the journal packs through the folder, instead
+ * of the bucket. Hence, it is handled as same as the object storage, except for the client of the journal.
+ */
+export function isFileDropRemote(settings: Partial<LiveSyncPluginSettings>) {
+    return settings.remoteType == REMOTE_MINIO && !!settings.useFileDrop;
+}
+
+/**
+ * Split the setup URI into numbered chunks, each of which is also a URI to be handled by LiveSync.
+ * Each chunk, including its prefix, the index and the total, is not longer than `maxLength`.
+ * @returns chunks, or the setup URI itself if it is short enough.
+ */
+export function splitSetupURI(uri: string, maxLength: number) {
+    if (uri.length <= maxLength || !uri.startsWith(configURIBase)) return [uri];
+    const encrypted = decodeURIComponent(uri.substring(configURIBase.length));
+    const set = Math.random().toString(36).slice(2, 8);
+    // The budget for the data depends on the digits of the total; hence, retry until the chunks fit in the total.
+    let total = 2;
+    for (;;) {
+        const budget = maxLength - `${configURIChunkBase}${set}&chunk=${total}/${total}&data=`.length;
+        const parts = [] as string[];
+        let part = "";
+        let partLength = 0;
+        for (const char of encrypted) {
+            const charLength = encodeURIComponent(char).length;
+            if (charLength > budget) {
+                throw new Error(`The setup URI cannot be split into the chunks of ${maxLength} characters`);
+            }
+            if (partLength + charLength > budget) {
+                parts.push(part);
+                part = "";
+                partLength = 0;
+            }
+            part += char;
+            partLength += charLength;
+        }
+        parts.push(part);
+        if (parts.length > total) {
+            total = parts.length;
+            continue;
+        }
+        return parts.map(
+            (data, i) => `${configURIChunkBase}${set}&chunk=${i + 1}/${parts.length}&data=${encodeURIComponent(data)}`
+        );
+    }
+}
+
+/**
+ * Parse the chunk of the setup URI, from the parameters which are passed to the protocol handler.
+ */
+export function parseSetupURIChunkParams(params: Record<string, string | undefined>): SetupURIChunk | false {
+    const m = `${params.chunk ?? ""}`.match(/^(\d+)\/(\d+)$/);
+    if (!params.set || !m || params.data === undefined) return false;
+    const index = Number(m[1]);
+    const total = Number(m[2]);
+    if (index < 1 || index > total) return false;
+    return { set: params.set, index, total, data: params.data };
+}
+
+export function parseSetupURIChunk(text: string): SetupURIChunk | false {
+    if (!text.startsWith(configURIChunkBase)) return false;
+    const params = new URLSearchParams(text.substring(text.indexOf("?") + 1));
+    return parseSetupURIChunkParams(Object.fromEntries(params.entries()));
+}
+
+/**
+ * Join the chunks of the setup URI.
+ * @returns the encrypted settings, which can be passed to the setup wizard, or false if some chunks are missing.
+ */
+export function joinSetupURIChunks(chunks: SetupURIChunk[]) {
+    if (chunks.length == 0) return false;
+    const { set, total } = chunks[0];
+    const parts = [] as string[];
+    for (const chunk of chunks) {
+        if (chunk.set != set || chunk.total != total) return false;
+        parts[chunk.index - 1] = chunk.data;
+    }
+    for (let i = 0; i < total; i++) {
+        if (parts[i] === undefined) return false;
+    }
+    return parts.join("");
+}
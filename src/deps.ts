@@ -26,6 +26,7 @@ export {
     WorkspaceLeaf,
 } from "obsidian";
 export type {
+    Command,
     DataWriteOptions,
     PluginManifest,
     RequestUrlParam,
@@ -30,7 +30,7 @@ import {
     MODE_SELECTIVE,
     MODE_SHINY,
 } from "../../lib/src/common/types.ts";
-import { ICXHeader, PERIODIC_PLUGIN_SWEEP } from "../../common/types.ts";
+import { ICXHeader, ICXProfilesID, PERIODIC_PLUGIN_SWEEP, type PluginDataKeyRule } from "../../common/types.ts";
 import {
     createBlob,
     createSavingEntryFromLoadedEntry,
@@ -51,6 +51,8 @@ import { stripAllPrefixes } from "../../lib/src/string_and_binary/path.ts";
 import {
     EVEN,
     PeriodicProcessor,
+    getPluginDataKeyRules,
+    parsePluginDataKeyRules,
     disposeMemoObject,
     isCustomisationSyncMetadata,
     isMarkedAsSameChanges,
@@ -62,6 +64,7 @@ import {
     scheduleTask,
 } from "../../common/utils.ts";
 import { JsonResolveModal } from "../HiddenFileCommon/JsonResolveModal.ts";
+import { applyJSONKeyPolicies, detectJSONIndent } from "../../common/jsonMerge.ts";
 import { QueueProcessor } from "../../lib/src/concurrency/processor.ts";
 import { pluginScanningCount } from "../../lib/src/mock_and_interop/stores.ts";
 import type ObsidianLiveSyncPlugin from "../../main.ts";
@@ -384,6 +387,44 @@ export type PluginDataEx = {
     mtime: number;
 };
 
+export type CustomisationProfileItem = {
+    category: string;
+    name: string;
+    // The device which the item has been captured from.
+    term: string;
+};
+export type CustomisationProfile = {
+    name: string;
+    items: CustomisationProfileItem[];
+};
+type CustomisationProfilesDoc = {
+    _id: typeof ICXProfilesID;
+    _rev?: string;
+    type: "customisation-profiles";
+    profiles: CustomisationProfile[];
+};
+// same: Converged, different: Drifted, missing: Not on this device, unavailable: The captured item has gone,
+// pinned: The plugin is pinned at another version on this device; it is regarded as converged.
+export type CustomisationProfileDrift = "same" | "different" | "missing" | "unavailable" | "pinned";
+
+export type PluginHistoryCategory = "PLUGIN_MAIN" | "PLUGIN_DATA";
+export type PluginHistoryEntry = {
+    category: PluginHistoryCategory;
+    name: string;
+    // The version of the manifest. Empty for `PLUGIN_DATA`.
+    version: string;
+    hash: string;
+    recorded: number;
+    files: PluginDataExFile[];
+};
+// Bundles of plugins which have been replaced on this device are kept in the local key-value database.
+const KV_KEY_PLUGIN_HISTORY = "plugin-history/";
+const KV_KEY_PLUGIN_PINS = "plugin-pins";
+const MAX_PLUGIN_HISTORY = 5;
+
+export const customisationProfiles = writable([] as CustomisationProfile[]);
+export const subscribedCustomisationProfile = writable("");
+
 export class ConfigSync extends LiveSyncCommands implements IObsidianModule {
     constructor(plugin: ObsidianLiveSyncPlugin) {
         super(plugin);
@@ -488,6 +529,9 @@ export class ConfigSync extends LiveSyncCommands implements IObsidianModule {
             this._log("Scanning customizations...");
             await this.scanAllConfigFiles(showNotice);
             this._log("Scanning customizations : done");
+            await this.loadCustomisationProfiles();
+            await this.getPluginPins();
+            this.requestConvergeToProfile();
         } catch (ex) {
             this._log("Scanning customizations : failed");
             this._log(ex, LOG_LEVEL_VERBOSE);
@@ -911,7 +955,7 @@ export class ConfigSync extends LiveSyncCommands implements IObsidianModule {
             return doc;
         };
         const fileA = await loadFile(dataA);
-        const fileB = await loadFile(dataB);
+        let fileB = await loadFile(dataB);
         this._log(`Comparing: ${dataA.documentPath} <-> ${dataB.documentPath}`, LOG_LEVEL_VERBOSE);
         if (!fileA || !fileB) {
             this._log(
@@ -925,6 +969,16 @@ export class ConfigSync extends LiveSyncCommands implements IObsidianModule {
             path = path.split("%")[1] as FilePath;
         }
         if (fileA.path.endsWith(".json")) {
+            const storagePath = `${this.app.vault.configDir}/${fileA.filename}`;
+            if (this.getPluginDataKeyPolicies(storagePath).length > 0) {
+                // Show only the differences of the shared parts.
+                const dataB =
+                    fileB.datatype == "plain"
+                        ? getDocData(fileB.data)
+                        : readString(new Uint8Array(decodeBinary(fileB.data)));
+                const applied = await this.applyPluginDataKeyPolicies(storagePath, dataB);
+                fileB = { ...fileB, data: [applied], datatype: "plain" };
+            }
             return serialized(
                 "config:merge-data",
                 () =>
@@ -988,6 +1042,42 @@ export class ConfigSync extends LiveSyncCommands implements IObsidianModule {
             return false;
         }
     }
+    getPluginDataKeyPolicies(path: string) {
+        const { rules } = parsePluginDataKeyRules(this.settings.pluginDataKeyPolicies);
+        return getPluginDataKeyRules(path, this.app.vault.configDir, rules);
+    }
+
+    /**
+     * Apply the key policies to data.json of the plugin, so that applying it only changes the shared parts.
+     * @param path path of the file on the storage.
+     * @param incoming content which has come from the other device.
+     * @returns the content to write. If it is not data.json of any plugin which has policies, `incoming` as is.
+     */
+    async applyPluginDataKeyPolicies(path: string, incoming: string): Promise<string> {
+        const policies = this.getPluginDataKeyPolicies(path);
+        if (policies.length == 0) return incoming;
+        let localData: string | undefined;
+        try {
+            localData = await this.plugin.storageAccess.readHiddenFileText(path);
+        } catch (ex) {
+            this._log(`Could not read the file ${path}`, LOG_LEVEL_VERBOSE);
+            this._log(ex, LOG_LEVEL_VERBOSE);
+            localData = undefined;
+        }
+        try {
+            return this.getPluginDataAppliedByKeyPolicies(policies, localData, incoming);
+        } catch (ex) {
+            this._log(`Could not apply the key policies to ${path}, applying it as is`, LOG_LEVEL_NOTICE);
+            this._log(ex, LOG_LEVEL_VERBOSE);
+            return incoming;
+        }
+    }
+    // Throws if the contents are not valid JSON.
+    getPluginDataAppliedByKeyPolicies(policies: PluginDataKeyRule[], localData: string | undefined, incoming: string) {
+        const local = localData ? JSON.parse(localData) : undefined;
+        const applied = applyJSONKeyPolicies(local, JSON.parse(incoming), policies);
+        return JSON.stringify(applied, null, detectJSONIndent(incoming)) + (incoming.endsWith("\n") ? "\n" : "");
+    }
     async applyDataV2(data: PluginDataExDisplayV2, content?: string): Promise<boolean> {
         const baseDir = this.app.vault.configDir;
         try {
@@ -998,7 +1088,10 @@ export class ConfigSync extends LiveSyncCommands implements IObsidianModule {
                 const path = `${baseDir}/${filename}` as FilePath;
                 await this.plugin.storageAccess.ensureDir(path);
                 // If the content has applied, modified time will be updated to the current time.
-                await this.plugin.storageAccess.writeHiddenFileAuto(path, content);
+                await this.plugin.storageAccess.writeHiddenFileAuto(
+                    path,
+                    await this.applyPluginDataKeyPolicies(path, content)
+                );
                 await this.storeCustomisationFileV2(path, this.plugin.$$getDeviceAndVaultName());
             } else {
                 const files = data.files;
@@ -1034,7 +1127,7 @@ export class ConfigSync extends LiveSyncCommands implements IObsidianModule {
                             this._log(ex, LOG_LEVEL_VERBOSE);
                             oldData = "";
                         }
-                        const content = getDocData(f.data);
+                        const content = await this.applyPluginDataKeyPolicies(path, getDocData(f.data));
                         if (await isDocContentSame(oldData, content)) {
                             this._log(`The file ${f.filename} is already up-to-date`, LOG_LEVEL_VERBOSE);
                             continue;
@@ -1054,6 +1147,17 @@ export class ConfigSync extends LiveSyncCommands implements IObsidianModule {
     }
     async applyData(data: IPluginDataExDisplay, content?: string): Promise<boolean> {
         this._log(`Applying ${data.displayName || data.name}..`);
+        if (data.category == "PLUGIN_MAIN" || data.category == "PLUGIN_DATA") {
+            const pinned = (await this.getPluginPins())[data.name];
+            if (data.category == "PLUGIN_MAIN" && pinned && data.version && data.version != pinned) {
+                this._log(
+                    `${data.displayName || data.name} is pinned at ${pinned} on this device. ${data.version} has not been applied`,
+                    LOG_LEVEL_NOTICE
+                );
+                return false;
+            }
+            await this.recordPluginHistory(data.category, data.name);
+        }
 
         if (data instanceof PluginDataExDisplayV2) {
             return this.applyDataV2(data, content);
@@ -1074,9 +1178,18 @@ export class ConfigSync extends LiveSyncCommands implements IObsidianModule {
                     await this.plugin.storageAccess.ensureDir(path);
                     if (!content) {
                         const dt = decodeBinary(f.data);
-                        await this.plugin.storageAccess.writeHiddenFileAuto(path, dt);
+                        if (this.getPluginDataKeyPolicies(path).length > 0) {
+                            const applying = await this.applyPluginDataKeyPolicies(
+                                path,
+                                readString(new Uint8Array(dt))
+                            );
+                            await this.plugin.storageAccess.writeHiddenFileAuto(path, applying);
+                        } else {
+                            await this.plugin.storageAccess.writeHiddenFileAuto(path, dt);
+                        }
                     } else {
-                        await this.plugin.storageAccess.writeHiddenFileAuto(path, content);
+                        const applying = await this.applyPluginDataKeyPolicies(path, content);
+                        await this.plugin.storageAccess.writeHiddenFileAuto(path, applying);
                     }
                     this._log(`Applying ${f.filename} of ${data.displayName || data.name}.. Done`);
                 } catch (ex) {
@@ -1090,29 +1203,7 @@ export class ConfigSync extends LiveSyncCommands implements IObsidianModule {
             await delay(100);
             this._log(`Config ${data.displayName || data.name} has been applied`, LOG_LEVEL_NOTICE);
             if (data.category == "PLUGIN_DATA" || data.category == "PLUGIN_MAIN") {
-                //@ts-ignore
-                const manifests = Object.values(this.app.plugins.manifests) as any as PluginManifest[];
-                //@ts-ignore
-                const enabledPlugins = this.app.plugins.enabledPlugins as Set<string>;
-                const pluginManifest = manifests.find(
-                    (manifest) => enabledPlugins.has(manifest.id) && manifest.dir == `${baseDir}/plugins/${data.name}`
-                );
-                if (pluginManifest) {
-                    this._log(
-                        `Unloading plugin: ${pluginManifest.name}`,
-                        LOG_LEVEL_NOTICE,
-                        "plugin-reload-" + pluginManifest.id
-                    );
-                    // @ts-ignore
-                    await this.app.plugins.unloadPlugin(pluginManifest.id);
-                    // @ts-ignore
-                    await this.app.plugins.loadPlugin(pluginManifest.id);
-                    this._log(
-                        `Plugin reloaded: ${pluginManifest.name}`,
-                        LOG_LEVEL_NOTICE,
-                        "plugin-reload-" + pluginManifest.id
-                    );
-                }
+                await this.reloadPlugin(data.name);
             } else if (data.category == "CONFIG") {
                 this.plugin.$$askReload();
             }
@@ -1123,6 +1214,154 @@ export class ConfigSync extends LiveSyncCommands implements IObsidianModule {
             return false;
         }
     }
+    async reloadPlugin(name: string) {
+        const baseDir = this.app.vault.configDir;
+        //@ts-ignore
+        const manifests = Object.values(this.app.plugins.manifests) as any as PluginManifest[];
+        //@ts-ignore
+        const enabledPlugins = this.app.plugins.enabledPlugins as Set<string>;
+        const pluginManifest = manifests.find(
+            (manifest) => enabledPlugins.has(manifest.id) && manifest.dir == `${baseDir}/plugins/${name}`
+        );
+        if (pluginManifest) {
+            this._log(
+                `Unloading plugin: ${pluginManifest.name}`,
+                LOG_LEVEL_NOTICE,
+                "plugin-reload-" + pluginManifest.id
+            );
+            // @ts-ignore
+            await this.app.plugins.unloadPlugin(pluginManifest.id);
+            // @ts-ignore
+            await this.app.plugins.loadPlugin(pluginManifest.id);
+            this._log(
+                `Plugin reloaded: ${pluginManifest.name}`,
+                LOG_LEVEL_NOTICE,
+                "plugin-reload-" + pluginManifest.id
+            );
+        }
+    }
+
+    getPluginBundleFiles(category: PluginHistoryCategory, name: string) {
+        const dir = `${this.app.vault.configDir}/plugins/${name}`;
+        const files = category == "PLUGIN_MAIN" ? ["manifest.json", "main.js", "styles.css"] : ["data.json"];
+        return files.map((e) => `${dir}/${e}` as FilePath);
+    }
+
+    async getInstalledPluginVersion(name: string) {
+        try {
+            const manifest = await this.plugin.storageAccess.readHiddenFileText(
+                `${this.app.vault.configDir}/plugins/${name}/manifest.json`
+            );
+            return `${JSON.parse(manifest).version ?? ""}`;
+        } catch {
+            return "";
+        }
+    }
+
+    async getPluginHistory(category: PluginHistoryCategory, name: string) {
+        return (await this.kvDB.get<PluginHistoryEntry[]>(`${KV_KEY_PLUGIN_HISTORY}${category}/${name}`)) ?? [];
+    }
+
+    /**
+     * Record the bundle of the plugin on the storage, if it has not been recorded yet.
+     */
+    async recordPluginHistory(category: PluginHistoryCategory, name: string) {
+        return await serialized(`plugin-history-${category}-${name}`, async () => {
+            try {
+                const files = [] as PluginDataExFile[];
+                for (const path of this.getPluginBundleFiles(category, name)) {
+                    const file = await this.makeEntryFromFile(path);
+                    if (file) files.push(file);
+                }
+                if (files.length == 0) return;
+                const hash = digestHash(files.map((e) => e.data).flat());
+                const history = await this.getPluginHistory(category, name);
+                if (history[0]?.hash == hash) return;
+                const entry: PluginHistoryEntry = {
+                    category,
+                    name,
+                    version: files.find((e) => e.version)?.version ?? "",
+                    hash,
+                    recorded: Date.now(),
+                    files,
+                };
+                const newHistory = [entry, ...history.filter((e) => e.hash != hash)].slice(0, MAX_PLUGIN_HISTORY);
+                await this.kvDB.set(`${KV_KEY_PLUGIN_HISTORY}${category}/${name}`, newHistory);
+                this._log(`History of ${category}/${name} has been recorded`, LOG_LEVEL_VERBOSE);
+            } catch (ex) {
+                this._log(`Could not record the history of ${category}/${name}`, LOG_LEVEL_INFO);
+                this._log(ex, LOG_LEVEL_VERBOSE);
+            }
+        });
+    }
+
+    // Cache of the pins for computing the drifts synchronously. Updated whenever the pins are read or written.
+    pluginPins = {} as Record<string, string>;
+    async getPluginPins() {
+        this.pluginPins = (await this.kvDB.get<Record<string, string>>(KV_KEY_PLUGIN_PINS)) ?? {};
+        return { ...this.pluginPins };
+    }
+
+    /**
+     * Pin the plugin at the version, or unpin it if the version is not given.
+     * Other versions of the pinned plugin are not applied to this device.
+     */
+    async setPluginPin(name: string, version?: string) {
+        const pins = await this.getPluginPins();
+        if (version) {
+            pins[name] = version;
+            // To be able to roll back to the pinned version.
+            await this.recordPluginHistory("PLUGIN_MAIN", name);
+            this._log(`${name} has been pinned at ${version}`, LOG_LEVEL_NOTICE);
+        } else {
+            delete pins[name];
+            this._log(`${name} has been unpinned`, LOG_LEVEL_NOTICE);
+        }
+        await this.kvDB.set(KV_KEY_PLUGIN_PINS, pins);
+        this.pluginPins = pins;
+    }
+
+    async rollbackPlugin(name: string) {
+        const current = await this.getInstalledPluginVersion(name);
+        const history = await this.getPluginHistory("PLUGIN_MAIN", name);
+        const previous = history.find((e) => e.version != current);
+        if (!previous) {
+            this._log(`There is no previous version of ${name} on this device`, LOG_LEVEL_NOTICE);
+            return false;
+        }
+        return await this.restorePluginHistory(previous);
+    }
+
+    async restorePluginHistory(entry: PluginHistoryEntry) {
+        const baseDir = this.app.vault.configDir;
+        try {
+            if (entry.category == "PLUGIN_MAIN") {
+                const pins = await this.getPluginPins();
+                if (pins[entry.name] && pins[entry.name] != entry.version) {
+                    // Otherwise, the restored version would be refused on this device.
+                    await this.setPluginPin(entry.name, entry.version);
+                }
+            }
+            // To be able to undo this.
+            await this.recordPluginHistory(entry.category, entry.name);
+            for (const f of entry.files) {
+                const path = `${baseDir}/${f.filename}` as FilePath;
+                await this.plugin.storageAccess.ensureDir(path);
+                await this.plugin.storageAccess.writeHiddenFileAuto(path, decodeBinary(f.data));
+                await this.storeCustomizationFiles(path);
+            }
+            await this.updatePluginList(false);
+            await this.reloadPlugin(entry.name);
+            const label = entry.category == "PLUGIN_MAIN" ? entry.version : new Date(entry.recorded).toLocaleString();
+            this._log(`${entry.name} has been restored to ${label}`, LOG_LEVEL_NOTICE);
+            return true;
+        } catch (ex) {
+            this._log(`Could not restore ${entry.name}`, LOG_LEVEL_NOTICE);
+            this._log(ex, LOG_LEVEL_VERBOSE);
+            return false;
+        }
+    }
+
     async deleteData(data: PluginDataEx): Promise<boolean> {
         try {
             if (data.documentPath) {
@@ -1157,13 +1396,176 @@ export class ConfigSync extends LiveSyncCommands implements IObsidianModule {
             return false;
         }
     }
+    customisationProfiles = [] as CustomisationProfile[];
+
+    get subscribedProfileKey() {
+        return "obsidian-live-sync-customisationprofile-" + this.plugin.$$getVaultName();
+    }
+    // The subscription is per device, hence it is kept in the local storage.
+    getSubscribedProfile() {
+        return localStorage.getItem(this.subscribedProfileKey) ?? "";
+    }
+    setSubscribedProfile(name: string) {
+        localStorage.setItem(this.subscribedProfileKey, name);
+        subscribedCustomisationProfile.set(name);
+        this.requestConvergeToProfile();
+    }
+
+    async loadCustomisationProfiles() {
+        try {
+            const doc = (await this.localDatabase.localDatabase.get(
+                ICXProfilesID
+            )) as unknown as CustomisationProfilesDoc;
+            this.customisationProfiles = doc.profiles ?? [];
+        } catch (ex: any) {
+            if (ex?.status != 404) {
+                this._log("Could not load customisation profiles", LOG_LEVEL_NOTICE);
+                this._log(ex, LOG_LEVEL_VERBOSE);
+                return;
+            }
+            this.customisationProfiles = [];
+        }
+        customisationProfiles.set(this.customisationProfiles);
+        subscribedCustomisationProfile.set(this.getSubscribedProfile());
+    }
+
+    async saveCustomisationProfiles(profiles: CustomisationProfile[]) {
+        if (!this._isWritable(ICXProfilesID)) {
+            this._log("Customisation profiles cannot be modified on the read-only device", LOG_LEVEL_NOTICE);
+            return;
+        }
+        return await serialized("customisation-profiles", async () => {
+            let rev: string | undefined = undefined;
+            try {
+                rev = (await this.localDatabase.localDatabase.get(ICXProfilesID))._rev;
+            } catch (ex: any) {
+                if (ex?.status != 404) throw ex;
+            }
+            const doc: CustomisationProfilesDoc = {
+                _id: ICXProfilesID,
+                _rev: rev,
+                type: "customisation-profiles",
+                profiles,
+            };
+            await this.localDatabase.localDatabase.put(doc as unknown as EntryDoc);
+            this.customisationProfiles = profiles;
+            customisationProfiles.set(profiles);
+            this.requestConvergeToProfile();
+        });
+    }
+
+    async updateCustomisationProfile(name: string, proc: (profile: CustomisationProfile) => CustomisationProfile) {
+        const profiles = [...this.customisationProfiles];
+        const index = profiles.findIndex((e) => e.name == name);
+        const current = index == -1 ? { name, items: [] } : profiles[index];
+        const updated = proc({ ...current, items: [...current.items] });
+        if (index == -1) {
+            profiles.push(updated);
+        } else {
+            profiles[index] = updated;
+        }
+        await this.saveCustomisationProfiles(profiles);
+    }
+
+    async deleteCustomisationProfile(name: string) {
+        await this.saveCustomisationProfiles(this.customisationProfiles.filter((e) => e.name != name));
+    }
+
+    findCustomisation(item: CustomisationProfileItem, term: string) {
+        return this.pluginList.find((e) => e.category == item.category && e.name == item.name && e.term == term);
+    }
+
+    getProfileItemDrift(item: CustomisationProfileItem): CustomisationProfileDrift {
+        const thisTerm = this.plugin.$$getDeviceAndVaultName();
+        const source = this.findCustomisation(item, item.term);
+        if (!source) return "unavailable";
+        if (item.term == thisTerm) return "same";
+        const local = this.findCustomisation(item, thisTerm);
+        if (!local) return "missing";
+        const pinned = this.pluginPins[item.name];
+        if (item.category == "PLUGIN_MAIN" && pinned && source.version && source.version != pinned) return "pinned";
+        // Files which exist only on this device are not concerned, as same as applying them manually.
+        for (const file of source.files) {
+            const localFile = local.files.find((e) => e.filename == file.filename);
+            if (!localFile) return "different";
+            const localData = getDocData(localFile.data);
+            if (localData != this.getProfileFileToApply(file.filename, localData, getDocData(file.data))) {
+                return "different";
+            }
+        }
+        return "same";
+    }
+
+    /**
+     * The content of the file which applying the profile item would write. Keys kept by the key policies are not
+     * regarded as drifted.
+     */
+    getProfileFileToApply(filename: string, localData: string, incoming: string) {
+        const policies = this.getPluginDataKeyPolicies(`${this.app.vault.configDir}/${filename}`);
+        if (policies.length == 0) return incoming;
+        try {
+            return this.getPluginDataAppliedByKeyPolicies(policies, localData, incoming);
+        } catch {
+            // Could not be parsed; it would be applied as is.
+            return incoming;
+        }
+    }
+
+    requestConvergeToProfile() {
+        if (!this._isThisModuleEnabled()) return;
+        if (!this.getSubscribedProfile()) return;
+        // The list of customisations would be updated in a while.
+        scheduleTask("converge-customisation-profile", 5000, () => {
+            fireAndForget(() => this.convergeToProfile());
+        });
+    }
+
+    /**
+     * Apply the drifted items of the subscribed profile to this device.
+     */
+    async convergeToProfile() {
+        return await serialized("converge-customisation-profile", async () => {
+            if (!this._isThisModuleEnabled() || this._isMainSuspended()) return;
+            const name = this.getSubscribedProfile();
+            const profile = this.customisationProfiles.find((e) => e.name == name);
+            if (!profile) return;
+            for (const item of profile.items) {
+                const drift = this.getProfileItemDrift(item);
+                if (drift == "same" || drift == "pinned") continue;
+                if (drift == "unavailable") {
+                    this._log(
+                        `Profile ${name}: ${item.category}/${item.name} of ${item.term} is not available`,
+                        LOG_LEVEL_VERBOSE
+                    );
+                    continue;
+                }
+                const source = this.findCustomisation(item, item.term);
+                if (!source) continue;
+                this._log(`Profile ${name}: Applying ${item.category}/${item.name} of ${item.term}`, LOG_LEVEL_INFO);
+                if (!(await this.applyData(source))) {
+                    this._log(
+                        `Profile ${name}: Could not apply ${item.category}/${item.name} of ${item.term}`,
+                        LOG_LEVEL_NOTICE
+                    );
+                }
+            }
+        });
+    }
     async $anyModuleParsedReplicationResultItem(docs: PouchDB.Core.ExistingDocument<EntryDoc>) {
+        if (docs._id == ICXProfilesID) {
+            if (this._isThisModuleEnabled()) {
+                await this.loadCustomisationProfiles();
+                this.requestConvergeToProfile();
+            }
+            return true;
+        }
         if (!docs._id.startsWith(ICXHeader)) return undefined;
         if (this._isThisModuleEnabled()) {
             await this.updatePluginList(
                 false,
                 (docs as AnyEntry).path ? (docs as AnyEntry).path : this.getPath(docs as AnyEntry)
             );
+            this.requestConvergeToProfile();
         }
         if (this._isThisModuleEnabled() && this.plugin.settings.notifyPluginOrSettingUpdated) {
             if (!this.pluginDialog || (this.pluginDialog && !this.pluginDialog.isOpened())) {
@@ -1268,6 +1670,7 @@ export class ConfigSync extends LiveSyncCommands implements IObsidianModule {
     }
 
     async storeCustomisationFileV2(path: FilePath, term: string, force = false) {
+        if (!this._isWritable(path)) return false;
         const vf = this.filenameWithUnifiedKey(path, term);
         return await serialized(`plugin-${vf}`, async () => {
             const prefixedFileName = vf;
@@ -1350,6 +1753,7 @@ export class ConfigSync extends LiveSyncCommands implements IObsidianModule {
             this._log("We have to configure the device name", LOG_LEVEL_NOTICE);
             return;
         }
+        if (!this._isWritable(path)) return false;
         if (this.useV2) {
             return await this.storeCustomisationFileV2(path, term);
         }
@@ -1629,6 +2033,7 @@ export class ConfigSync extends LiveSyncCommands implements IObsidianModule {
     }
 
     async deleteConfigOnDatabase(prefixedFileName: FilePathWithPrefix, forceWrite = false) {
+        if (!this._isWritable(prefixedFileName)) return false;
         // const id = await this.path2id(prefixedFileName);
         const mtime = new Date().getTime();
         return await serialized("file-x-" + prefixedFileName, async () => {
@@ -16,6 +16,7 @@ export class JsonResolveModal extends Modal {
     keepOrder: boolean;
     hideLocal: boolean;
     title: string = "Conflicted Setting";
+    mergeArraysById: boolean;
 
     constructor(
         app: App,
@@ -27,7 +28,8 @@ export class JsonResolveModal extends Modal {
         defaultSelect?: string,
         keepOrder?: boolean,
         hideLocal?: boolean,
-        title: string = "Conflicted Setting"
+        title: string = "Conflicted Setting",
+        mergeArraysById?: boolean
     ) {
         super(app);
         this.callback = callback;
@@ -39,6 +41,7 @@ export class JsonResolveModal extends Modal {
         this.defaultSelect = defaultSelect || "";
         this.title = title;
         this.hideLocal = hideLocal ?? false;
+        this.mergeArraysById = mergeArraysById ?? false;
         void waitForSignal(`cancel-internal-conflict:${filename}`).then(() => this.close());
     }
 
@@ -66,6 +69,7 @@ export class JsonResolveModal extends Modal {
                     defaultSelect: this.defaultSelect,
                     keepOrder: this.keepOrder,
                     hideLocal: this.hideLocal,
+                    mergeArraysById: this.mergeArraysById,
                     callback: (keepRev: string | undefined, mergedStr: string | undefined) =>
                         this.UICallback(keepRev, mergedStr),
                 },
@@ -1322,6 +1322,7 @@ Offline Changed files: ${files.length}`;
         if (await this.plugin.$$isIgnoredByIgnoreFiles(storageFilePath)) {
             return undefined;
         }
+        if (!this._isWritable(storageFilePath)) return false;
         const prefixedFileName = addPrefix(storeFilePath, ICHeader);
 
         return await serialized("file-" + prefixedFileName, async () => {
@@ -1376,6 +1377,7 @@ Offline Changed files: ${files.length}`;
         if (await this.plugin.$$isIgnoredByIgnoreFiles(storageFilePath)) {
             return undefined;
         }
+        if (!this._isWritable(storageFilePath)) return false;
         return await serialized("file-" + prefixedFileName, async () => {
             try {
                 const baseData = await this.__loadBaseSaveData(storeFilePath, false);
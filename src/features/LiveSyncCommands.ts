@@ -51,6 +51,12 @@ export abstract class LiveSyncCommands {
     _isDatabaseReady() {
         return this.plugin.$$isDatabaseReady();
     }
+    // Nothing should be written into the local database on the read-only device, not to be sent to the remote.
+    _isWritable(path: string) {
+        if (!this.settings.readOnlyDevice) return true;
+        this._verbose(`${path} is not stored because this device is read-only`);
+        return false;
+    }
 
     _log = (msg: any, level: LOG_LEVEL = LOG_LEVEL_INFO, key?: string) => {
         if (typeof msg === "string" && level !== LOG_LEVEL_NOTICE) {
@@ -1,9 +1,50 @@
 import { sizeToHumanReadable } from "octagonal-wheels/number";
-import { LOG_LEVEL_NOTICE, type MetaEntry } from "../../lib/src/common/types";
+import { strFromU8, strToU8, unzipSync, Zip, ZipDeflate } from "fflate";
+import { LOG_LEVEL_NOTICE, LOG_LEVEL_VERBOSE, REMOTE_COUCHDB, type MetaEntry } from "../../lib/src/common/types";
 import { getNoFromRev } from "../../lib/src/pouchdb/LiveSyncLocalDB";
+import { LiveSyncCouchDBReplicator } from "../../lib/src/replication/couchdb/LiveSyncReplicator";
+import { CHeader, DATABASE_ARCHIVE_SUFFIX } from "../../common/types";
+import { isDatabaseArchivePath } from "../../common/utils";
 import type { IObsidianModule } from "../../modules/AbstractObsidianModule";
 import { LiveSyncCommands } from "../LiveSyncCommands";
 
+const ARCHIVE_FORMAT = "obsidian-livesync-archive";
+const ARCHIVE_VERSION = 1;
+const ARCHIVE_MANIFEST = "manifest.json";
+// Number of documents in each entry of the archive, and in each request on importing.
+const ARCHIVE_PAGE_SIZE = 250;
+// The compressed data is written into the archive file whenever it exceeds this size.
+const ARCHIVE_FLUSH_SIZE = 4 * 1024 * 1024;
+
+type DatabaseArchiveEntry = {
+    name: string;
+    // Number of the revisions in the entry, one per line.
+    count: number;
+    sha256: string;
+};
+export type DatabaseArchiveManifest = {
+    format: typeof ARCHIVE_FORMAT;
+    version: number;
+    created: number;
+    source: string;
+    // Settings which change the IDs of the documents. Documents cannot be found from the files if they are different.
+    usePathObfuscation: boolean;
+    handleFilenameCaseSensitive: boolean;
+    documents: number;
+    chunks: number;
+    // Number of the revisions of the documents except chunks.
+    revisions: number;
+    entries: DatabaseArchiveEntry[];
+};
+// Revisions are stored with `_revisions`, hence they can be imported with `new_edits: false` to keep the revision tree.
+type ArchivedRevision = PouchDB.Core.ExistingDocument<object> & { _revisions?: { start: number; ids: string[] } };
+
+// Arrays made by fflate are always backed by `ArrayBuffer`.
+async function sha256Hex(data: Uint8Array<ArrayBuffer>) {
+    const digest = await crypto.subtle.digest("SHA-256", data);
+    return [...new Uint8Array(digest)].map((e) => e.toString(16).padStart(2, "0")).join("");
+}
+
 export class LocalDatabaseMaintenance extends LiveSyncCommands implements IObsidianModule {
     $everyOnload(): Promise<boolean> {
         return Promise.resolve(true);
@@ -12,7 +53,16 @@ export class LocalDatabaseMaintenance extends LiveSyncCommands implements IObsid
         // NO OP.
     }
     onload(): void | Promise<void> {
-        // NO OP.
+        this.plugin.addCommand({
+            id: "livesync-export-database-archive",
+            name: "Export the local database as an archive",
+            callback: () => void this.exportDatabaseArchive(),
+        });
+        this.plugin.addCommand({
+            id: "livesync-import-database-archive",
+            name: "Import an archive into the local or remote database",
+            callback: () => void this.importDatabaseArchive(),
+        });
     }
     async allChunks(includeDeleted: boolean = false) {
         const p = this._progress("", LOG_LEVEL_NOTICE);
@@ -50,6 +100,23 @@ export class LocalDatabaseMaintenance extends LiveSyncCommands implements IObsid
         }
         return true;
     }
+    /**
+     * Chunks of the revisions which are kept by the retention policy or pinned are used.
+     * If the policy is configured, chunks only referenced from other old revisions become unused.
+     */
+    async getChunkUsageChecker(used: Set<string>) {
+        const p = this._progress("", LOG_LEVEL_NOTICE);
+        p.log("Applying the revision retention policy..");
+        try {
+            const retained = await this.plugin.$$collectRetainedChunks();
+            if (this.settings.revisionRetentionPolicy.trim() == "") {
+                return (id: string) => used.has(id) || retained.has(id);
+            }
+            return (id: string) => retained.has(id);
+        } finally {
+            p.done();
+        }
+    }
     /**
      * Resurrect deleted chunks that are still used in the database.
      */
@@ -200,8 +267,9 @@ Note: **Make sure to synchronise all devices before deletion.**
     async markUnusedChunks() {
         if (!this.isAvailable()) return;
         const { used, existing } = await this.allChunks();
+        const isUsed = await this.getChunkUsageChecker(used);
         const existChunks = [...existing];
-        const unusedChunks = existChunks.filter(([key, e]) => !used.has(e._id)).map(([key, e]) => e);
+        const unusedChunks = existChunks.filter(([key, e]) => !isUsed(e._id)).map(([key, e]) => e);
         const deleteChunks = unusedChunks.map((e) => ({
             ...e,
             _deleted: true,
@@ -232,8 +300,9 @@ Note: **Make sure to synchronise all devices before deletion.**
 
     async removeUnusedChunks() {
         const { used, existing } = await this.allChunks();
+        const isUsed = await this.getChunkUsageChecker(used);
         const existChunks = [...existing];
-        const unusedChunks = existChunks.filter(([key, e]) => !used.has(e._id)).map(([key, e]) => e);
+        const unusedChunks = existChunks.filter(([key, e]) => !isUsed(e._id)).map(([key, e]) => e);
         const deleteChunks = unusedChunks.map((e) => ({
             ...e,
             data: "",
@@ -262,4 +331,304 @@ Note: **Make sure to synchronise all devices before deletion.**
             this.clearHash();
         }
     }
+
+    /**
+     * Collect all available revisions of the document, including conflicted ones.
+     * Chunks are immutable, hence only the current revision is collected.
+     */
+    async collectRevisions(doc: PouchDB.Core.ExistingDocument<object>): Promise<ArchivedRevision[]> {
+        if (doc._id.startsWith(CHeader)) return [doc];
+        const current = await this.database.get(doc._id, { revs_info: true, conflicts: true });
+        const revs = new Set([
+            ...(current._revs_info ?? []).filter((e) => e.status == "available").map((e) => e.rev),
+            ...(current._conflicts ?? []),
+        ]);
+        const ret = [] as ArchivedRevision[];
+        for (const rev of revs) {
+            ret.push(await this.database.get(doc._id, { rev, revs: true }));
+        }
+        return ret;
+    }
+
+    /**
+     * Export all documents, chunks and their revisions in the local database into an archive on the vault.
+     * The archive is a zip file which has the documents in JSONL and the manifest with their checksums.
+     * Documents are read page by page, and the compressed data is written into the archive as it is produced.
+     */
+    async exportDatabaseArchive() {
+        if (!this._isDatabaseReady()) {
+            this._notice("The local database is not ready.");
+            return;
+        }
+        const p = this._progress("[Archive] ", LOG_LEVEL_NOTICE);
+        const manifest: DatabaseArchiveManifest = {
+            format: ARCHIVE_FORMAT,
+            version: ARCHIVE_VERSION,
+            created: Date.now(),
+            source: this.plugin.$$getDeviceAndVaultName(),
+            usePathObfuscation: this.settings.usePathObfuscation,
+            handleFilenameCaseSensitive: this.settings.handleFilenameCaseSensitive,
+            documents: 0,
+            chunks: 0,
+            revisions: 0,
+            entries: [],
+        };
+        const time = new Date(manifest.created).toISOString().replace(/[:.]/g, "-");
+        const path = `${this.plugin.$$getVaultName()}-${time}${DATABASE_ARCHIVE_SUFFIX}`;
+        const compressed = [] as Uint8Array[];
+        let zipError: Error | undefined = undefined;
+        let isFinished = false;
+        // ZipDeflate compresses synchronously; the data is ready as soon as each entry has been added.
+        const zip = new Zip((err, data, final) => {
+            if (err) {
+                zipError = err;
+                return;
+            }
+            compressed.push(data);
+            if (final) isFinished = true;
+        });
+        const addEntry = (name: string, data: Uint8Array) => {
+            const file = new ZipDeflate(name, { level: 6 });
+            zip.add(file);
+            file.push(data, true);
+        };
+        let size = 0;
+        const flush = async (force: boolean) => {
+            if (zipError) throw zipError;
+            const length = compressed.reduce((acc, e) => acc + e.length, 0);
+            if (length == 0 || (!force && length < ARCHIVE_FLUSH_SIZE)) return;
+            const out = new Uint8Array(length);
+            let offset = 0;
+            for (const e of compressed.splice(0)) {
+                out.set(e, offset);
+                offset += e.length;
+            }
+            // The file is created through the vault to be listed, and appended to afterwards.
+            const isWritten =
+                size == 0
+                    ? await this.plugin.storageAccess.writeFileAuto(path, out.buffer)
+                    : await this.plugin.storageAccess.appendHiddenFile(path, out.buffer);
+            if (!isWritten) throw new Error(`Could not write ${path}`);
+            size += length;
+        };
+        try {
+            let lastKey = "";
+            let page = 0;
+            do {
+                // Read the database page by page, and write each page into the archive as one entry.
+                const res = await this.database.allDocs({
+                    include_docs: true,
+                    limit: ARCHIVE_PAGE_SIZE,
+                    ...(lastKey ? { startkey: lastKey, skip: 1 } : {}),
+                });
+                if (res.rows.length == 0) break;
+                lastKey = res.rows[res.rows.length - 1].id;
+                const revisions = [] as ArchivedRevision[];
+                for (const row of res.rows) {
+                    if (!row.doc || row.id.startsWith("_design/")) continue;
+                    const revs = await this.collectRevisions(row.doc);
+                    if (row.id.startsWith(CHeader)) {
+                        manifest.chunks++;
+                    } else {
+                        manifest.documents++;
+                        manifest.revisions += revs.length;
+                    }
+                    revisions.push(...revs);
+                }
+                const name = `docs/${`${page++}`.padStart(5, "0")}.jsonl`;
+                const data = strToU8(revisions.map((e) => JSON.stringify(e)).join("\n") + "\n");
+                manifest.entries.push({ name, count: revisions.length, sha256: await sha256Hex(data) });
+                addEntry(name, data);
+                await flush(false);
+                p.log(`Exporting: ${manifest.documents} documents and ${manifest.chunks} chunks`);
+            } while (lastKey);
+            addEntry(ARCHIVE_MANIFEST, strToU8(JSON.stringify(manifest, null, 2)));
+            zip.end();
+            await flush(true);
+            if (!isFinished) throw new Error("The archive has not been finished");
+            p.done(
+                `Exported ${manifest.documents} documents (${manifest.revisions} revisions) and ${manifest.chunks} chunks to ${path} (${sizeToHumanReadable(size)})`
+            );
+        } catch (ex) {
+            p.done("Could not export the local database.");
+            this._log(ex, LOG_LEVEL_VERBOSE);
+            // The incomplete archive should not be imported.
+            if (size > 0) await this.plugin.storageAccess.removeHidden(path);
+        }
+    }
+
+    /**
+     * Read an entry of the archive, and verify it by the manifest.
+     * Entries are decompressed one by one, not to hold all revisions of the archive in memory.
+     * @returns the revisions in the entry, or false if the entry is broken.
+     */
+    async readDatabaseArchiveEntry(path: string, archive: Uint8Array, entry: DatabaseArchiveEntry) {
+        const data = unzipSync(archive, { filter: (e) => e.name == entry.name })[entry.name];
+        if (!data || (await sha256Hex(data)) != entry.sha256) {
+            this._notice(`${path} is broken: ${entry.name} is missing or does not match the checksum.`);
+            return false;
+        }
+        const lines = strFromU8(data)
+            .split("\n")
+            .filter((e) => e != "");
+        if (lines.length != entry.count) {
+            this._notice(`${path} is broken: ${entry.name} does not have ${entry.count} revisions.`);
+            return false;
+        }
+        return lines.map((e) => JSON.parse(e) as ArchivedRevision);
+    }
+
+    /**
+     * Read the archive and verify all entries by the manifest.
+     * @returns the manifest and the compressed archive, or false if the archive is broken.
+     */
+    async readDatabaseArchive(path: string) {
+        try {
+            const archive = new Uint8Array(await this.plugin.storageAccess.readHiddenFileBinary(path));
+            const manifestData = unzipSync(archive, { filter: (e) => e.name == ARCHIVE_MANIFEST })[ARCHIVE_MANIFEST];
+            if (!manifestData) {
+                this._notice(`${path} is not an archive of the database: the manifest is missing.`);
+                return false;
+            }
+            const manifest = JSON.parse(strFromU8(manifestData)) as DatabaseArchiveManifest;
+            if (manifest.format !== ARCHIVE_FORMAT || manifest.version > ARCHIVE_VERSION) {
+                this._notice(`${path} is not an archive of the database, or has been made by a newer version.`);
+                return false;
+            }
+            const p = this._progress("[Archive] ", LOG_LEVEL_NOTICE);
+            try {
+                for (const [i, entry] of manifest.entries.entries()) {
+                    if (!(await this.readDatabaseArchiveEntry(path, archive, entry))) return false;
+                    p.log(`Verifying: ${i + 1} / ${manifest.entries.length}`);
+                }
+            } finally {
+                p.done();
+            }
+            return { manifest, archive };
+        } catch (ex) {
+            this._notice(`Could not read ${path}.`);
+            this._log(ex, LOG_LEVEL_VERBOSE);
+            return false;
+        }
+    }
+
+    async connectRemoteForArchive() {
+        // Only CouchDB accepts revisions as they are (i.e., `new_edits: false`).
+        if (this.settings.remoteType != REMOTE_COUCHDB) {
+            this._notice(
+                "Archives can only be pushed to CouchDB. Please import it into the local database, and rebuild the remote."
+            );
+            return false;
+        }
+        const replicator = await this.plugin.$anyNewReplicator();
+        if (!(replicator instanceof LiveSyncCouchDBReplicator)) return false;
+        const ret = await replicator.connectRemoteCouchDBWithSetting(this.settings, this.plugin.$$isMobile(), true);
+        if (typeof ret == "string") {
+            this._notice(`Could not connect to the remote database: ${ret}`);
+            return false;
+        }
+        return ret.db;
+    }
+
+    /**
+     * Import the revisions in the archive entry by entry, keeping their revision trees. Existing documents are not
+     * overwritten; if the revisions have been diverged, they become conflicted.
+     * @returns the number of the revisions which could not be imported, or false if the archive is broken.
+     */
+    async importRevisions(
+        db: PouchDB.Database,
+        path: string,
+        { manifest, archive }: { manifest: DatabaseArchiveManifest; archive: Uint8Array }
+    ) {
+        const p = this._progress("[Archive] ", LOG_LEVEL_NOTICE);
+        const total = manifest.entries.reduce((acc, e) => acc + e.count, 0);
+        let processed = 0;
+        let failed = 0;
+        for (const entry of manifest.entries) {
+            // Each entry is verified again, as it is read again.
+            const revisions = await this.readDatabaseArchiveEntry(path, archive, entry);
+            if (!revisions) {
+                p.done(`Importing has been stopped at ${entry.name}: ${processed - failed} / ${total} revisions.`);
+                return false;
+            }
+            for (let i = 0; i < revisions.length; i += ARCHIVE_PAGE_SIZE) {
+                const result = await db.bulkDocs(revisions.slice(i, i + ARCHIVE_PAGE_SIZE), { new_edits: false });
+                const errors = result.filter((e): e is PouchDB.Core.Error => "error" in e);
+                for (const e of errors) this._log(`Could not import ${e.id}: ${e.message}`, LOG_LEVEL_VERBOSE);
+                failed += errors.length;
+            }
+            processed += revisions.length;
+            p.log(`Importing: ${processed} / ${total}`);
+        }
+        p.done(`Imported ${processed - failed} / ${total} revisions.`);
+        return failed;
+    }
+
+    async importDatabaseArchive() {
+        if (!this._isDatabaseReady()) {
+            this._notice("The local database is not ready.");
+            return;
+        }
+        const archives = this.plugin.storageAccess.getFileNames().filter((e) => isDatabaseArchivePath(e));
+        if (archives.length == 0) {
+            this._notice(
+                `No archives have been found. Please put the archive (*${DATABASE_ARCHIVE_SUFFIX}) in the vault.`
+            );
+            return;
+        }
+        const path =
+            archives.length == 1
+                ? archives[0]
+                : await this.plugin.confirm.askSelectString("Select the archive to import", archives.sort().reverse());
+        if (!path) return;
+        const archive = await this.readDatabaseArchive(path);
+        if (!archive) return;
+        const { manifest } = archive;
+        // Documents cannot be found from the files if they have been exported with the different settings.
+        const warning =
+            manifest.usePathObfuscation != this.settings.usePathObfuscation ||
+            manifest.handleFilenameCaseSensitive != this.settings.handleFilenameCaseSensitive
+                ? `
+> [!WARNING]
+> The archive has been exported with different settings of path obfuscation or case sensitivity.
+> Imported documents may not be found from the files.
+`
+                : "";
+        const CHOICE_LOCAL = "Local database";
+        const CHOICE_REMOTE = "Remote database";
+        const CHOICE_CANCEL = "Cancel";
+        const message = `${path} has been verified.
+
+- Exported from: ${manifest.source || "unknown"} at ${new Date(manifest.created).toLocaleString()}
+- Documents: ${manifest.documents} (${manifest.revisions} revisions)
+- Chunks: ${manifest.chunks}
+${warning}
+Where do you want to import it into? Existing documents are not overwritten; diverged revisions become conflicted.
+
+> [!Note]
+> Revisions pushed to the remote database are encrypted by the current settings.`;
+        const ret = await this.plugin.confirm.askSelectStringDialogue(
+            message,
+            [CHOICE_LOCAL, CHOICE_REMOTE, CHOICE_CANCEL],
+            { title: "Import archive", defaultAction: CHOICE_CANCEL }
+        );
+        if (ret == CHOICE_LOCAL) {
+            await this.importRevisions(this.database, path, archive);
+            this.clearHash();
+            if (
+                await this.confirm(
+                    "Import archive",
+                    "Do you want to reflect the imported documents to the storage now?",
+                    "Reflect",
+                    "Later"
+                )
+            ) {
+                await this.plugin.$$performFullScan(true);
+            }
+        } else if (ret == CHOICE_REMOTE) {
+            const db = await this.connectRemoteForArchive();
+            if (!db) return;
+            await this.importRevisions(db, path, archive);
+        }
+    }
 }
@@ -7,6 +7,7 @@ import { eventHub } from "../../../common/events.ts";
 
 import { unique } from "octagonal-wheels/collection";
 import { LOG_LEVEL_NOTICE, REMOTE_P2P } from "../../../lib/src/common/types.ts";
+import { DEFAULT_PLUGIN_SETTINGS_EXTENSION } from "../../../common/types.ts";
 import { Logger } from "../../../lib/src/common/logger.ts";
 import { P2PReplicator } from "../CmdP2PReplicator.ts";
 import {
@@ -90,7 +91,7 @@ And you can also drop the local database to rebuild from the remote device.`,
                         }
                     }
                 }
-                this.plugin.settings = remoteConfig;
+                this.plugin.settings = { ...DEFAULT_PLUGIN_SETTINGS_EXTENSION, ...remoteConfig };
                 await this.plugin.saveSettings();
                 if (yn === DROP) {
                     await this.plugin.rebuilder.scheduleFetch();
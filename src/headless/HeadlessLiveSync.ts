@@ -0,0 +1,191 @@
+// The polyfills should be applied before the shared modules are evaluated.
+import { headlessLocalStorage } from "./polyfills.ts";
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { App, type Command, type PluginManifest } from "../deps.ts";
+import type { LiveSyncCommands } from "../features/LiveSyncCommands.ts";
+import ObsidianLiveSyncPlugin from "../main.ts";
+import type { IObsidianModule } from "../modules/AbstractObsidianModule.ts";
+import type { AbstractModule } from "../modules/AbstractModule.ts";
+import { ModuleDatabaseFileAccess } from "../modules/core/ModuleDatabaseFileAccess.ts";
+import { ModuleFileHandler } from "../modules/core/ModuleFileHandler.ts";
+import { ModuleLocalDatabaseObsidian } from "../modules/core/ModuleLocalDatabaseObsidian.ts";
+import { ModulePeriodicProcess } from "../modules/core/ModulePeriodicProcess.ts";
+import { ModuleRebuilder } from "../modules/core/ModuleRebuilder.ts";
+import { ModuleReplicator } from "../modules/core/ModuleReplicator.ts";
+import { ModuleReplicatorCouchDB } from "../modules/core/ModuleReplicatorCouchDB.ts";
+import { ModuleReplicatorMinIO } from "../modules/core/ModuleReplicatorMinIO.ts";
+import { ModuleReplicatorFileDrop } from "../modules/core/ModuleReplicatorFileDrop.ts";
+import { ModuleTargetFilter } from "../modules/core/ModuleTargetFilter.ts";
+import { ModuleCheckRemoteSize } from "../modules/coreFeatures/ModuleCheckRemoteSize.ts";
+import { ModuleConflictChecker } from "../modules/coreFeatures/ModuleConflictChecker.ts";
+import { ModuleConflictResolver } from "../modules/coreFeatures/ModuleConflictResolver.ts";
+import { ModuleRedFlag } from "../modules/coreFeatures/ModuleRedFlag.ts";
+import { ModuleRemoteGovernor } from "../modules/coreFeatures/ModuleRemoteGovernor.ts";
+import { ModuleResolvingMismatchedTweaks } from "../modules/coreFeatures/ModuleResolveMismatchedTweaks.ts";
+import { ModuleRevisionRetention } from "../modules/coreFeatures/ModuleRevisionRetention.ts";
+import { ModuleFileAccessHeadless } from "../modules/coreHeadless/ModuleFileAccessHeadless.ts";
+import { ModuleHeadlessAPI } from "../modules/coreHeadless/ModuleHeadlessAPI.ts";
+import { ModuleHeadlessEvents } from "../modules/coreHeadless/ModuleHeadlessEvents.ts";
+import { ModuleInputUIHeadless } from "../modules/coreHeadless/ModuleInputUIHeadless.ts";
+import { ModuleKeyValueDBHeadless } from "../modules/coreHeadless/ModuleKeyValueDBHeadless.ts";
+import { ModuleLogHeadless } from "../modules/coreHeadless/ModuleLogHeadless.ts";
+import { ModulePouchDBHeadless } from "../modules/coreHeadless/ModulePouchDBHeadless.ts";
+import { ModuleInitializerFile } from "../modules/essential/ModuleInitializerFile.ts";
+import { ModuleMigration } from "../modules/essential/ModuleMigration.ts";
+import { ModuleFaultInjection } from "../modules/extras/ModuleFaultInjection.ts";
+import { ModuleSyncJournal } from "../modules/features/ModuleSyncJournal.ts";
+import { ModuleExtraSyncObsidian } from "../modules/extraFeaturesObsidian/ModuleExtraSyncObsidian.ts";
+import { ModuleObsidianSettings } from "../modules/features/ModuleObsidianSetting.ts";
+import { ModuleSelectiveSync } from "../modules/features/ModuleSelectiveSync.ts";
+import { ModuleLiveSyncMain } from "../modules/main/ModuleLiveSyncMain.ts";
+import type { HeadlessFileAccess } from "../modules/coreHeadless/storageLib/HeadlessFileAccess.ts";
+import { NodeFileAccess } from "../modules/coreHeadless/storageLib/NodeFileAccess.ts";
+
+export type HeadlessOptions = {
+    // The directory to be synchronised, as the vault.
+    vaultDir: string;
+    // The directory to keep the settings (`data.json`), the local database, and the other states.
+    dataDir: string;
+    // The name of the vault; the name of `vaultDir` is used if omitted.
+    vaultName?: string;
+    // The PouchDB adapter of the local database. With `memory`, nothing is written into `dataDir`.
+    adapter?: string;
+    debug?: boolean;
+};
+
+// Defined by the build; See `esbuild.headless.config.mjs` and `vitest.config.mjs`.
+declare const MANIFEST_VERSION: string;
+
+const HEADLESS_MANIFEST: PluginManifest = {
+    id: "obsidian-livesync",
+    name: "Self-hosted LiveSync (headless)",
+    version: MANIFEST_VERSION || "0.0.0",
+    minAppVersion: "0.0.0",
+    description: "Self-hosted LiveSync without Obsidian",
+    author: "",
+};
+
+/**
+ * LiveSync on Node.js. The platform-dependent modules are replaced by the headless ones, and the features which need
+ * the UI (e.g., the setting dialogue, the conflict resolving dialogue, and the add-ons) are not loaded.
+ *
+ * The instance cannot be started again after stopping; `stopped` tells the host whether a new instance is required.
+ */
+export class HeadlessLiveSync extends ObsidianLiveSyncPlugin {
+    options: HeadlessOptions;
+    stopped: Promise<boolean>;
+    _onStopped!: (restart: boolean) => void;
+    // Commands which have been registered by the modules, to be run by `runCommand`.
+    commands = new Map<string, Command>();
+
+    constructor(options: HeadlessOptions) {
+        super(new App(), HEADLESS_MANIFEST);
+        this.options = options;
+        this.stopped = new Promise<boolean>((res) => (this._onStopped = res));
+    }
+
+    addCommand(command: Command): Command {
+        this.commands.set(command.id, command);
+        return super.addCommand(command);
+    }
+
+    createAddOns(): LiveSyncCommands[] {
+        return [];
+    }
+
+    createModules(): (IObsidianModule | AbstractModule)[] {
+        return [
+            // Headless modules; these should be in front of the others to replace the platform-dependent functions.
+            new ModuleLogHeadless(this),
+            new ModuleHeadlessEvents(this),
+            new ModuleInputUIHeadless(this),
+            new ModuleFileAccessHeadless(this),
+            new ModuleHeadlessAPI(this),
+            new ModulePouchDBHeadless(this, this),
+            new ModuleKeyValueDBHeadless(this),
+            // Common
+            new ModuleLiveSyncMain(this),
+            new ModuleExtraSyncObsidian(this, this),
+            new ModuleDatabaseFileAccess(this),
+            new ModuleConflictChecker(this),
+            new ModuleLocalDatabaseObsidian(this),
+            new ModuleReplicatorMinIO(this),
+            new ModuleReplicatorFileDrop(this),
+            new ModuleReplicatorCouchDB(this),
+            new ModuleReplicator(this),
+            new ModuleFileHandler(this),
+            new ModuleConflictResolver(this),
+            new ModuleRemoteGovernor(this),
+            new ModuleRevisionRetention(this),
+            new ModuleTargetFilter(this),
+            new ModulePeriodicProcess(this),
+            new ModuleInitializerFile(this),
+            new ModuleObsidianSettings(this, this),
+            new ModuleResolvingMismatchedTweaks(this),
+            new ModuleRebuilder(this),
+            new ModuleMigration(this),
+            new ModuleRedFlag(this),
+            new ModuleSelectiveSync(this, this),
+            new ModuleCheckRemoteSize(this),
+            new ModuleSyncJournal(this, this),
+            new ModuleFaultInjection(this, this),
+        ];
+    }
+
+    createVaultAccess(): HeadlessFileAccess {
+        return new NodeFileAccess(this.options.vaultDir, this);
+    }
+
+    get dataFile() {
+        return join(this.options.dataDir, "data.json");
+    }
+
+    // The same `data.json` as the plug-in; it can be copied from `.obsidian/plugins/obsidian-livesync`.
+    loadData(): Promise<any> {
+        if (!existsSync(this.dataFile)) return Promise.resolve(null);
+        return Promise.resolve(JSON.parse(readFileSync(this.dataFile, "utf-8")));
+    }
+    saveData(data: any): Promise<void> {
+        mkdirSync(this.options.dataDir, { recursive: true });
+        writeFileSync(`${this.dataFile}.tmp`, JSON.stringify(data, null, 2));
+        renameSync(`${this.dataFile}.tmp`, this.dataFile);
+        return Promise.resolve();
+    }
+
+    async start() {
+        // With the `memory` adapter, nothing is written into the data directory.
+        if (this.options.adapter != "memory") {
+            headlessLocalStorage.open(join(this.options.dataDir, "local-storage.json"));
+        }
+        await this.$$onLiveSyncLoad();
+        // On Obsidian, this is called when the layout is ready.
+        await this.$$onLiveSyncReady();
+    }
+
+    async stop(restart = false) {
+        await this.$$onLiveSyncUnload();
+        this._onStopped(restart);
+    }
+
+    restart() {
+        return this.stop(true);
+    }
+
+    /**
+     * Run the command which has been registered by the modules, as the command palette does.
+     */
+    async runCommand(id: string) {
+        const command = this.commands.get(id);
+        if (!command) {
+            throw new Error(`Command ${id} is not available on the headless runtime`);
+        }
+        if (command.callback) {
+            await command.callback();
+        } else if (command.checkCallback && command.checkCallback(true)) {
+            await command.checkCallback(false);
+        } else {
+            throw new Error(`Command ${id} cannot be run now`);
+        }
+    }
+}
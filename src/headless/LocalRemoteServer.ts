@@ -0,0 +1,33 @@
+import type { EntryDoc } from "../lib/src/common/types.ts";
+import { PouchDB } from "../lib/src/pouchdb/pouchdb-browser.ts";
+import { registerPouchDBAdapter } from "../modules/coreHeadless/ModulePouchDBHeadless.ts";
+import memoryAdapter from "pouchdb-adapter-memory";
+
+// The tests import the adapter directly; `MemoryLiveSync` always comes with this server, and uses the same adapter.
+registerPouchDBAdapter("memory", memoryAdapter);
+
+let serverCount = 0;
+
+/**
+ * The stand-in of CouchDB for the tests. Each connection is the PouchDB on memory, and the connections to the same
+ * URI share the database, as the memory adapter shares the databases which have the same name.
+ * Hence, the devices in the same process can replicate through it, with the replicator for CouchDB as it is.
+ */
+export class LocalRemoteServer {
+    id = ++serverCount;
+    uri = `http://local-remote-${this.id}`;
+    databases = new Set<string>();
+
+    connect(uri: string): PouchDB.Database<EntryDoc> {
+        const name = `local-remote-${this.id}-${uri}`;
+        this.databases.add(name);
+        return new PouchDB<EntryDoc>(name, { adapter: "memory" });
+    }
+
+    async destroy() {
+        for (const name of this.databases) {
+            await new PouchDB(name, { adapter: "memory" }).destroy();
+        }
+        this.databases.clear();
+    }
+}
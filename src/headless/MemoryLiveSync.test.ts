@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { contentOfHash } from "../common/SyncJournal.ts";
+import { LocalRemoteServer } from "./LocalRemoteServer.ts";
+import { MemoryLiveSync } from "./MemoryLiveSync.ts";
+import { replaySyncJournal } from "./replaySyncJournal.ts";
+
+// The local databases are named after the vaults; hence each test has its own names.
+let testCount = 0;
+
+describe("two devices", () => {
+    let remote: LocalRemoteServer;
+    let a: MemoryLiveSync;
+    let b: MemoryLiveSync;
+
+    beforeEach(async () => {
+        testCount++;
+        remote = new LocalRemoteServer();
+        let now = 1_700_000_000_000;
+        const clock = () => (now += 10_000);
+        a = new MemoryLiveSync({ vaultName: `device-a-${testCount}`, remote, clock });
+        b = new MemoryLiveSync({ vaultName: `device-b-${testCount}`, remote, clock });
+        await a.start();
+        await b.start();
+    });
+
+    afterEach(async () => {
+        await a.stop();
+        await b.stop();
+        await remote.destroy();
+    });
+
+    it("replicates creating, editing and deleting a note", async () => {
+        await a.vault.userWrite("folder/note.md", "Hello");
+        await a.sync();
+        await b.sync();
+        expect(await b.vault.adapterRead("folder/note.md")).toBe("Hello");
+
+        await b.vault.userWrite("folder/note.md", "Hello, world");
+        await b.sync();
+        await a.sync();
+        expect(await a.vault.adapterRead("folder/note.md")).toBe("Hello, world");
+
+        await a.vault.userDelete("folder/note.md");
+        await a.sync();
+        await b.sync();
+        expect(b.vault.getStat("folder/note.md")).toBeNull();
+    });
+
+    it("replicates a binary file", async () => {
+        const data = new Uint8Array([0, 1, 2, 3, 255]).buffer;
+        await a.vault.userWrite("image.png", data);
+        await a.sync();
+        await b.sync();
+        expect(new Uint8Array(await b.vault.adapterReadBinary("image.png"))).toEqual(new Uint8Array(data));
+    });
+});
+
+describe("replaying the sync journal", () => {
+    let remote: LocalRemoteServer;
+    let replayRemote: LocalRemoteServer;
+    const devices = [] as MemoryLiveSync[];
+
+    const startDevice = async (vaultName: string, remote: LocalRemoteServer, recording = false) => {
+        const settings = recording ? { syncJournalMaxEntries: 10000 } : {};
+        const device = new MemoryLiveSync({ vaultName: `${vaultName}-${testCount}`, remote, settings });
+        devices.push(device);
+        await device.start();
+        return device;
+    };
+
+    beforeEach(() => {
+        testCount++;
+        remote = new LocalRemoteServer();
+        replayRemote = new LocalRemoteServer();
+    });
+
+    afterEach(async () => {
+        for (const device of devices.splice(0)) await device.stop();
+        await remote.destroy();
+        await replayRemote.destroy();
+    });
+
+    it("reproduces the file events and the replicated documents on another device", async () => {
+        const a = await startDevice("journal-a", remote, true);
+        const b = await startDevice("journal-b", remote);
+        await a.vault.userWrite("local.md", "Written on A");
+        await a.sync();
+        await b.vault.userWrite("remote.md", "Written on B");
+        await b.sync();
+        await a.sync();
+        await a.vault.userDelete("local.md");
+        await a.sync();
+
+        const trace = a.journal.export();
+        expect(trace.entries.some((e) => e.kind == "file" && e.path == "local.md")).toBe(true);
+        expect(trace.entries.some((e) => e.kind == "replicated" && e.docs.some((d) => d.path == "remote.md"))).toBe(
+            true
+        );
+
+        const reporter = await startDevice("journal-reporter", replayRemote);
+        const peer = await startDevice("journal-peer", replayRemote);
+        await replaySyncJournal(trace, reporter, peer);
+        const remoteFile = trace.entries
+            .flatMap((e) => (e.kind == "replicated" ? e.docs : []))
+            .find((e) => e.path == "remote.md")!;
+        expect(await reporter.vault.adapterRead("remote.md")).toBe(contentOfHash(remoteFile.hash, remoteFile.size));
+        expect(reporter.vault.getStat("local.md")).toBeNull();
+    });
+});
@@ -0,0 +1,139 @@
+import { delay } from "octagonal-wheels/promises";
+import { REMOTE_COUCHDB, SETTING_VERSION_SUPPORT_CASE_INSENSITIVE } from "../lib/src/common/types.ts";
+import type { LiveSyncPluginSettings } from "../common/types.ts";
+import type { IObsidianModule } from "../modules/AbstractObsidianModule.ts";
+import type { AbstractModule } from "../modules/AbstractModule.ts";
+import { ModuleLocalRemote } from "../modules/coreHeadless/ModuleLocalRemote.ts";
+import type { HeadlessFileAccess } from "../modules/coreHeadless/storageLib/HeadlessFileAccess.ts";
+import { MemoryFileAccess } from "../modules/coreHeadless/storageLib/MemoryFileAccess.ts";
+import { ModuleFaultInjection } from "../modules/extras/ModuleFaultInjection.ts";
+import { ModuleSyncJournal } from "../modules/features/ModuleSyncJournal.ts";
+import { HeadlessLiveSync } from "./HeadlessLiveSync.ts";
+import type { LocalRemoteServer } from "./LocalRemoteServer.ts";
+
+export type MemoryLiveSyncOptions = {
+    // The name of the vault. This should be unique in the process, as the local database is named after it.
+    vaultName: string;
+    remote: LocalRemoteServer;
+    settings?: Partial<LiveSyncPluginSettings>;
+    caseInsensitive?: boolean;
+    // The clock of the modified time of the files; a shared logical clock makes the tests deterministic.
+    clock?: () => number;
+    debug?: boolean;
+};
+
+// Replications are performed by the tests explicitly, to make the interleaving of the devices deterministic.
+const TEST_SETTINGS: Partial<LiveSyncPluginSettings> = {
+    isConfigured: true,
+    remoteType: REMOTE_COUCHDB,
+    couchDB_DBNAME: "livesync",
+    couchDB_USER: "test",
+    couchDB_PASSWORD: "test",
+    liveSync: false,
+    syncOnStart: false,
+    syncOnSave: false,
+    syncOnEditorSave: false,
+    syncOnFileOpen: false,
+    syncAfterMerge: false,
+    periodicReplication: false,
+    notifyThresholdOfRemoteStorageSize: 0,
+    handleFilenameCaseSensitive: false,
+    doNotUseFixedRevisionForChunks: false,
+    settingVersion: SETTING_VERSION_SUPPORT_CASE_INSENSITIVE,
+    // To inject faults by `faults`.
+    enableDebugTools: true,
+};
+
+/**
+ * A device for the automated multi-device tests, which runs under a plain test runner.
+ * The vault is `MemoryFileAccess`, the local database is on the `memory` adapter, and the remote is `LocalRemoteServer`.
+ *
+ * Note: The devices in the same process share the event hub and the other global states (e.g., the encryption of the
+ * remote). Hence, automatic replications are disabled, and each step should be driven by the test; e.g.,
+ * `await a.vault.userWrite("note.md", "A"); await a.sync(); await b.sync();`.
+ */
+export class MemoryLiveSync extends HeadlessLiveSync {
+    remote: LocalRemoteServer;
+    vault: MemoryFileAccess;
+    // While offline, the remote database cannot be connected.
+    offline = false;
+    data: Partial<LiveSyncPluginSettings>;
+
+    constructor(options: MemoryLiveSyncOptions) {
+        super({ vaultDir: "", dataDir: "", vaultName: options.vaultName, adapter: "memory", debug: options.debug });
+        this.remote = options.remote;
+        this.vault = new MemoryFileAccess(this, { caseInsensitive: options.caseInsensitive, clock: options.clock });
+        this.data = {
+            ...TEST_SETTINGS,
+            couchDB_URI: options.remote.uri,
+            deviceAndVaultName: options.vaultName,
+            ...options.settings,
+        };
+    }
+
+    createModules(): (IObsidianModule | AbstractModule)[] {
+        return [new ModuleLocalRemote(this), ...super.createModules()];
+    }
+
+    createVaultAccess(): HeadlessFileAccess {
+        return this.vault;
+    }
+
+    /**
+     * The rules of the faults to inject into the operations of the vault.
+     */
+    get faults() {
+        return this.modules.find((e): e is ModuleFaultInjection => e instanceof ModuleFaultInjection)!.injector;
+    }
+
+    /**
+     * The sync journal of this device; recorded only if `syncJournalMaxEntries` is set.
+     */
+    get journal() {
+        return this.modules.find((e): e is ModuleSyncJournal => e instanceof ModuleSyncJournal)!.journal;
+    }
+
+    loadData(): Promise<any> {
+        return Promise.resolve({ ...this.data });
+    }
+    saveData(data: any): Promise<void> {
+        this.data = { ...data };
+        return Promise.resolve();
+    }
+
+    isIdle() {
+        const queues = [
+            this.databaseQueueCount,
+            this.storageApplyingCount,
+            this.replicationResultCount,
+            this.conflictProcessQueueCount,
+            this.pendingFileEventCount,
+            this.processingFileEventCount,
+        ];
+        return queues.every((e) => e.value == 0) && this.requestCount.value == this.responseCount.value;
+    }
+
+    async waitForIdle(timeout = 10000) {
+        const start = Date.now();
+        while (!this.isIdle()) {
+            if (Date.now() - start > timeout) {
+                throw new Error(`${this.options.vaultName} has not been idle in ${timeout}ms`);
+            }
+            await delay(50);
+        }
+    }
+
+    /**
+     * Reflect the pending changes of the vault to the local database, replicate once, and wait until the replicated
+     * changes have been reflected to the vault (and the conflicts have been processed).
+     */
+    async sync() {
+        await this.$everyCommitPendingFileEvent();
+        await this.waitForIdle();
+        const ret = await this.$$replicate(false);
+        await this.waitForIdle();
+        await this.$$waitForAllConflictProcessed();
+        await this.waitForIdle();
+        return ret;
+    }
+}
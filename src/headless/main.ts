@@ -0,0 +1,69 @@
+// The polyfills should be applied before any other module is evaluated.
+import "./polyfills.ts";
+import { resolve } from "node:path";
+import { parseArgs } from "node:util";
+import { HeadlessLiveSync, type HeadlessOptions } from "./HeadlessLiveSync.ts";
+
+const USAGE = `Usage: node livesync-headless.cjs --vault <dir> --data <dir> [options]
+
+    --vault <dir>      The directory to be synchronised.
+    --data <dir>       The directory to keep data.json, the local database and the states.
+    --name <name>      The name of the vault (default: the name of the vault directory).
+    --adapter <name>   The PouchDB adapter of the local database (default: leveldb).
+    --command <id>     Run the command after starting, e.g., "livesync-apply-selective-sync-profile".
+    --debug            Show debug logs.
+`;
+
+function parseOptions() {
+    const { values } = parseArgs({
+        options: {
+            vault: { type: "string" },
+            data: { type: "string" },
+            name: { type: "string" },
+            adapter: { type: "string" },
+            command: { type: "string", multiple: true },
+            debug: { type: "boolean" },
+            help: { type: "boolean", short: "h" },
+        },
+    });
+    if (values.help || !values.vault || !values.data) {
+        console.log(USAGE);
+        process.exit(values.help ? 0 : 1);
+    }
+    const options: HeadlessOptions = {
+        vaultDir: resolve(values.vault),
+        dataDir: resolve(values.data),
+        vaultName: values.name,
+        adapter: values.adapter,
+        debug: values.debug,
+    };
+    return { options, commands: values.command ?? [] };
+}
+
+async function main() {
+    const parsed = parseOptions();
+    const options = parsed.options;
+    // Commands are run only on the first start, not on restarting to apply the settings.
+    let commands = parsed.commands;
+    let restart = true;
+    while (restart) {
+        const liveSync = new HeadlessLiveSync(options);
+        const onSignal = () => void liveSync.stop();
+        process.once("SIGINT", onSignal);
+        process.once("SIGTERM", onSignal);
+        await liveSync.start();
+        for (const command of commands) {
+            await liveSync.runCommand(command);
+        }
+        commands = [];
+        restart = await liveSync.stopped;
+        process.off("SIGINT", onSignal);
+        process.off("SIGTERM", onSignal);
+    }
+    process.exit(0);
+}
+
+main().catch((ex) => {
+    console.error(ex);
+    process.exit(1);
+});
@@ -0,0 +1,211 @@
+// The stand-in of the `obsidian` module for the headless runtime. `esbuild.headless.config.mjs` resolves `obsidian` to
+// this file, hence the modules which are shared with the plug-in can be bundled without Obsidian.
+// Only the things which the core modules use are implemented; UI classes are placeholders which refuse to be used.
+
+export type DataWriteOptions = {
+    ctime?: number;
+    mtime?: number;
+};
+export type PluginManifest = {
+    id: string;
+    name: string;
+    version: string;
+    minAppVersion: string;
+    description: string;
+    author: string;
+    authorUrl?: string;
+    isDesktopOnly?: boolean;
+    dir?: string;
+};
+export type RequestUrlParam = {
+    url: string;
+    method?: string;
+    contentType?: string;
+    body?: string | ArrayBuffer;
+    headers?: Record<string, string>;
+    throw?: boolean;
+};
+export type RequestUrlResponse = {
+    status: number;
+    headers: Record<string, string>;
+    arrayBuffer: ArrayBuffer;
+    json: any;
+    text: string;
+};
+export type ListedFiles = {
+    files: string[];
+    folders: string[];
+};
+export type MarkdownFileInfo = {
+    file: TFile | null;
+};
+export type Command = {
+    id: string;
+    name: string;
+    callback?: () => any;
+    checkCallback?: (checking: boolean) => boolean | void;
+    editorCallback?: (...args: any[]) => any;
+    editorCheckCallback?: (checking: boolean, ...args: any[]) => boolean | void;
+};
+
+function notAvailable(name: string): never {
+    throw new Error(`${name} is not available in the headless runtime.`);
+}
+
+export const Platform = {
+    isDesktop: true,
+    isMobile: false,
+    isDesktopApp: false,
+    isMobileApp: false,
+    isIosApp: false,
+    isAndroidApp: false,
+    isPhone: false,
+    isTablet: false,
+    isMacOS: process.platform == "darwin",
+    isWin: process.platform == "win32",
+    isLinux: process.platform == "linux",
+    isSafari: false,
+};
+
+export function normalizePath(path: string): string {
+    return path
+        .replace(/[\\/]+/g, "/")
+        .replace(/^\/+|\/+$/g, "")
+        .replace(/\u00A0|\u202F/g, " ")
+        .normalize("NFC");
+}
+
+export async function requestUrl(request: RequestUrlParam | string): Promise<RequestUrlResponse> {
+    const param = typeof request == "string" ? { url: request } : request;
+    const headers = { ...(param.headers ?? {}) };
+    if (param.contentType) headers["content-type"] = param.contentType;
+    const response = await fetch(param.url, { method: param.method ?? "GET", headers, body: param.body });
+    const arrayBuffer = await response.arrayBuffer();
+    const text = new TextDecoder().decode(arrayBuffer);
+    const responseHeaders = {} as Record<string, string>;
+    response.headers.forEach((value, key) => (responseHeaders[key] = value));
+    if ((param.throw ?? true) && response.status >= 400) {
+        throw new Error(`Request failed, status ${response.status}`);
+    }
+    let json: any = undefined;
+    try {
+        json = JSON.parse(text);
+    } catch {
+        // Not a JSON response.
+    }
+    return { status: response.status, headers: responseHeaders, arrayBuffer, json, text };
+}
+export async function request(param: RequestUrlParam | string): Promise<string> {
+    return (await requestUrl(param)).text;
+}
+
+export function debounce<T extends unknown[]>(cb: (...args: T) => any, timeout = 0, resetTimer = false) {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    return (...args: T) => {
+        if (timer && !resetTimer) return;
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(() => {
+            timer = undefined;
+            cb(...args);
+        }, timeout);
+    };
+}
+
+export abstract class TAbstractFile {
+    name = "";
+    path = "";
+    parent: TFolder | null = null;
+}
+export class TFile extends TAbstractFile {
+    basename = "";
+    extension = "";
+    stat = { ctime: 0, mtime: 0, size: 0 };
+}
+export class TFolder extends TAbstractFile {
+    children: TAbstractFile[] = [];
+    isRoot() {
+        return this.path == "";
+    }
+}
+
+export class App {}
+
+/**
+ * The host of the modules. Registrations are ignored; commands are kept by the headless host (`HeadlessLiveSync`).
+ */
+export class Plugin {
+    app: App;
+    manifest: PluginManifest;
+    constructor(app: App, manifest: PluginManifest) {
+        this.app = app;
+        this.manifest = manifest;
+    }
+    addCommand(command: Command) {
+        return command;
+    }
+    registerInterval(id: number) {
+        // Intervals are cleared by their owners on unloading.
+        return id;
+    }
+    registerEvent(_: unknown) {}
+    registerView(_: string, __: unknown) {}
+    registerObsidianProtocolHandler(_: string, __: unknown) {}
+    registerDomEvent(..._: unknown[]) {}
+    registerEditorExtension(_: unknown) {}
+    addRibbonIcon(..._: unknown[]): any {
+        return undefined;
+    }
+    addStatusBarItem(): any {
+        return undefined;
+    }
+    addSettingTab(_: unknown) {}
+    loadData(): Promise<any> {
+        return Promise.resolve(null);
+    }
+    saveData(_: any): Promise<void> {
+        return Promise.resolve();
+    }
+}
+
+export class Notice {
+    constructor(message: string | DocumentFragment, _?: number) {
+        console.log(typeof message == "string" ? message : message.textContent);
+    }
+    setMessage(_: string | DocumentFragment) {
+        return this;
+    }
+    hide() {}
+}
+
+class Unavailable {
+    constructor(..._: any[]) {
+        notAvailable(this.constructor.name);
+    }
+}
+export class Modal extends Unavailable {}
+export class FuzzySuggestModal extends Unavailable {}
+export class PluginSettingTab extends Unavailable {}
+export class Setting extends Unavailable {}
+export class ItemView extends Unavailable {}
+export class WorkspaceLeaf extends Unavailable {}
+export class MarkdownView extends Unavailable {}
+export class Editor extends Unavailable {}
+export class TextAreaComponent extends Unavailable {}
+export class ButtonComponent extends Unavailable {}
+export class Menu extends Unavailable {}
+export class MarkdownRenderer extends Unavailable {
+    static render(): Promise<void> {
+        notAvailable("MarkdownRenderer");
+    }
+}
+
+export function addIcon(_: string, __: string) {}
+export function sanitizeHTMLToDom(_: string): DocumentFragment {
+    notAvailable("sanitizeHTMLToDom");
+}
+export function stringifyYaml(_: any): string {
+    notAvailable("stringifyYaml");
+}
+export function parseYaml(_: string): any {
+    notAvailable("parseYaml");
+}
@@ -0,0 +1,53 @@
+// Globals which the shared modules expect on Obsidian (i.e., on the browser).
+// This should be imported before any other module of the headless runtime.
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+
+/**
+ * `localStorage`, which is persisted into a JSON file once the file has been opened.
+ * Device-specific values (e.g., the device name) are kept in it as the plug-in does.
+ */
+class FileBackedStorage {
+    _items = new Map<string, string>();
+    _file = "";
+
+    open(file: string) {
+        this._file = file;
+        this._items = new Map(existsSync(file) ? Object.entries(JSON.parse(readFileSync(file, "utf-8"))) : []);
+    }
+    _flush() {
+        if (!this._file) return;
+        mkdirSync(dirname(this._file), { recursive: true });
+        writeFileSync(`${this._file}.tmp`, JSON.stringify(Object.fromEntries(this._items), null, 2));
+        renameSync(`${this._file}.tmp`, this._file);
+    }
+
+    get length() {
+        return this._items.size;
+    }
+    key(index: number) {
+        return [...this._items.keys()][index] ?? null;
+    }
+    getItem(key: string) {
+        return this._items.get(key) ?? null;
+    }
+    setItem(key: string, value: string) {
+        this._items.set(key, `${value}`);
+        this._flush();
+    }
+    removeItem(key: string) {
+        this._items.delete(key);
+        this._flush();
+    }
+    clear() {
+        this._items.clear();
+        this._flush();
+    }
+}
+
+export const headlessLocalStorage = new FileBackedStorage();
+
+const globals = globalThis as any;
+if (typeof globals.window === "undefined") globals.window = globalThis;
+// Recent Node.js has its own `localStorage`, which is not persisted without the command-line option. Replace it.
+Object.defineProperty(globals, "localStorage", { value: headlessLocalStorage, configurable: true, writable: true });
@@ -0,0 +1,66 @@
+import {
+    contentOfHash,
+    SYNC_JOURNAL_VERSION,
+    type SyncJournalFileEvent,
+    type SyncJournalReplicated,
+    type SyncJournalTrace,
+} from "../common/SyncJournal.ts";
+import { stripAllPrefixes } from "../lib/src/string_and_binary/path.ts";
+import type { MemoryLiveSync } from "./MemoryLiveSync.ts";
+
+async function replayFileEvent(device: MemoryLiveSync, event: SyncJournalFileEvent) {
+    const vault = device.vault;
+    switch (event.type) {
+        case "INTERNAL":
+            // Hidden files are not handled by the headless runtime.
+            return;
+        case "DELETE":
+            if (vault.getStat(event.path)) await vault.userDelete(event.path);
+            return;
+        case "RENAME":
+            if (event.oldPath && vault.getStat(event.oldPath)) {
+                await vault.userRename(event.oldPath, event.path);
+                return;
+            }
+            break;
+    }
+    await vault.userWrite(event.path, contentOfHash(event.hash, event.size), event.mtime);
+}
+
+async function replayReplicated(device: MemoryLiveSync, peer: MemoryLiveSync, entry: SyncJournalReplicated) {
+    const docs = entry.docs.filter((e) => e.path !== undefined && stripAllPrefixes(e.path) == e.path);
+    // Batches of chunks only are followed by their documents.
+    if (docs.length == 0) return;
+    // The peer catches up with the changes which the device has sent before, but not the pending ones.
+    await peer.sync();
+    for (const doc of docs) {
+        const path = doc.path!;
+        if (doc.deleted) {
+            if (peer.vault.getStat(path)) await peer.vault.userDelete(path);
+        } else {
+            await peer.vault.userWrite(path, contentOfHash(doc.hash, doc.size), doc.mtime);
+        }
+    }
+    await peer.sync();
+    await device.sync();
+}
+
+/**
+ * Replay the exported sync journal on `device`, to reproduce the interleaving of the file events and the replications.
+ * `peer` stands in for the other devices; it makes the replicated documents, and they arrive at `device` at the
+ * same point of the journal. Contents are replaced with the ones made from their hashes, hence the same contents are
+ * still the same, and mtimes are kept. The decisions of the conflicts are not replayed; compare them with the ones
+ * in `device.journal`, by enabling `syncJournalMaxEntries` on the device.
+ */
+export async function replaySyncJournal(trace: SyncJournalTrace, device: MemoryLiveSync, peer: MemoryLiveSync) {
+    if (trace.version != SYNC_JOURNAL_VERSION) {
+        throw new Error(`The version of the sync journal is not supported: ${trace.version}`);
+    }
+    for (const entry of trace.entries) {
+        if (entry.kind == "file") {
+            await replayFileEvent(device, entry);
+        } else if (entry.kind == "replicated") {
+            await replayReplicated(device, peer, entry);
+        }
+    }
+}
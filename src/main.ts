@@ -13,13 +13,14 @@ import {
     LOG_LEVEL_INFO,
     type HasSettings,
     type MetaEntry,
+    type AnyEntry,
     type UXFileInfoStub,
     type MISSING_OR_ERROR,
     type AUTO_MERGED,
     type RemoteDBSettings,
     type TweakValues,
 } from "./lib/src/common/types.ts";
-import { type FileEventItem } from "./common/types.ts";
+import { type ActivityQueueSnapshot, type FileEventItem, type LiveSyncPluginSettings } from "./common/types.ts";
 import { type SimpleStore } from "./lib/src/common/utils.ts";
 import { LiveSyncLocalDB, type LiveSyncLocalDBEnv } from "./lib/src/pouchdb/LiveSyncLocalDB.ts";
 import {
@@ -45,12 +46,19 @@ import { ModuleMigration } from "./modules/essential/ModuleMigration.ts";
 import { ModuleCheckRemoteSize } from "./modules/coreFeatures/ModuleCheckRemoteSize.ts";
 import { ModuleConflictResolver } from "./modules/coreFeatures/ModuleConflictResolver.ts";
 import { ModuleInteractiveConflictResolver } from "./modules/features/ModuleInteractiveConflictResolver.ts";
+import { ModuleReplicationPreview } from "./modules/features/ModuleReplicationPreview.ts";
+import { ModuleSelectiveSync } from "./modules/features/ModuleSelectiveSync.ts";
+import { ModulePlaceholderFiles } from "./modules/features/ModulePlaceholderFiles.ts";
+import { ModuleVaultSnapshot } from "./modules/features/ModuleVaultSnapshot.ts";
+import { ModuleSyncJournal } from "./modules/features/ModuleSyncJournal.ts";
 import { ModuleLog } from "./modules/features/ModuleLog.ts";
 import { ModuleObsidianSettings } from "./modules/features/ModuleObsidianSetting.ts";
 import { ModuleRedFlag } from "./modules/coreFeatures/ModuleRedFlag.ts";
 import { ModuleObsidianMenu } from "./modules/essentialObsidian/ModuleObsidianMenu.ts";
 import { ModuleSetupObsidian } from "./modules/features/ModuleSetupObsidian.ts";
 import type { StorageAccess } from "./modules/interfaces/StorageAccess.ts";
+import type { Fault, FaultTarget } from "./common/FaultInjector.ts";
+import type { SyncJournalFileEvent } from "./common/SyncJournal.ts";
 import type { Confirm } from "./lib/src/interfaces/Confirm.ts";
 import type { Rebuilder } from "./modules/interfaces/DatabaseRebuilder.ts";
 import type { DatabaseFileAccess } from "./modules/interfaces/DatabaseFileAccess.ts";
@@ -63,6 +71,7 @@ import type { ICoreModule } from "./modules/ModuleTypes.ts";
 import { ModuleObsidianSettingDialogue } from "./modules/features/ModuleObsidianSettingTab.ts";
 import { ModuleObsidianDocumentHistory } from "./modules/features/ModuleObsidianDocumentHistory.ts";
 import { ModuleObsidianGlobalHistory } from "./modules/features/ModuleGlobalHistory.ts";
+import { ModuleSyncActivity } from "./modules/features/ModuleSyncActivity.ts";
 import { ModuleObsidianSettingsAsMarkdown } from "./modules/features/ModuleObsidianSettingAsMarkdown.ts";
 import { ModuleInitializerFile } from "./modules/essential/ModuleInitializerFile.ts";
 import { ModuleKeyValueDB } from "./modules/essential/ModuleKeyValueDB.ts";
@@ -70,13 +79,16 @@ import { ModulePouchDB } from "./modules/core/ModulePouchDB.ts";
 import { ModuleReplicator } from "./modules/core/ModuleReplicator.ts";
 import { ModuleReplicatorCouchDB } from "./modules/core/ModuleReplicatorCouchDB.ts";
 import { ModuleReplicatorMinIO } from "./modules/core/ModuleReplicatorMinIO.ts";
+import { ModuleReplicatorFileDrop } from "./modules/core/ModuleReplicatorFileDrop.ts";
 import { ModuleTargetFilter } from "./modules/core/ModuleTargetFilter.ts";
 import { ModulePeriodicProcess } from "./modules/core/ModulePeriodicProcess.ts";
 import { ModuleRemoteGovernor } from "./modules/coreFeatures/ModuleRemoteGovernor.ts";
+import { ModuleRevisionRetention, type PinnedRevision } from "./modules/coreFeatures/ModuleRevisionRetention.ts";
 import { ModuleLocalDatabaseObsidian } from "./modules/core/ModuleLocalDatabaseObsidian.ts";
 import { ModuleConflictChecker } from "./modules/coreFeatures/ModuleConflictChecker.ts";
 import { ModuleResolvingMismatchedTweaks } from "./modules/coreFeatures/ModuleResolveMismatchedTweaks.ts";
 import { ModuleIntegratedTest } from "./modules/extras/ModuleIntegratedTest.ts";
+import { ModuleFaultInjection } from "./modules/extras/ModuleFaultInjection.ts";
 import { ModuleRebuilder } from "./modules/core/ModuleRebuilder.ts";
 import { ModuleReplicateTest } from "./modules/extras/ModuleReplicateTest.ts";
 import { ModuleLiveSyncMain } from "./modules/main/ModuleLiveSyncMain.ts";
@@ -119,58 +131,76 @@ export default class ObsidianLiveSyncPlugin
     }
 
     // Keep order to display the dialogue in order.
-    addOns = [
-        new ConfigSync(this),
-        new HiddenFileSync(this),
-        new LocalDatabaseMaintenance(this),
-        new P2PReplicator(this),
-    ] as LiveSyncCommands[];
-
-    modules = [
-        new ModuleLiveSyncMain(this),
-        new ModuleExtraSyncObsidian(this, this),
-        // Only on Obsidian
-        new ModuleDatabaseFileAccess(this),
-        // Common
-        new ModulePouchDB(this),
-        new ModuleConflictChecker(this),
-        new ModuleLocalDatabaseObsidian(this),
-        new ModuleReplicatorMinIO(this),
-        new ModuleReplicatorCouchDB(this),
-        new ModuleReplicator(this),
-        new ModuleFileHandler(this),
-        new ModuleConflictResolver(this),
-        new ModuleRemoteGovernor(this),
-        new ModuleTargetFilter(this),
-        new ModulePeriodicProcess(this),
-        // Obsidian modules
-        new ModuleKeyValueDB(this),
-        new ModuleInitializerFile(this),
-        new ModuleObsidianAPI(this, this),
-        new ModuleObsidianEvents(this, this),
-        new ModuleFileAccessObsidian(this, this),
-        new ModuleObsidianSettings(this, this),
-        new ModuleResolvingMismatchedTweaks(this),
-        new ModuleObsidianSettingsAsMarkdown(this, this),
-        new ModuleObsidianSettingDialogue(this, this),
-        new ModuleLog(this, this),
-        new ModuleInputUIObsidian(this, this),
-        new ModuleObsidianMenu(this, this),
-        new ModuleRebuilder(this),
-        new ModuleSetupObsidian(this, this),
-        new ModuleObsidianDocumentHistory(this, this),
-        new ModuleMigration(this),
-        new ModuleRedFlag(this),
-        new ModuleInteractiveConflictResolver(this, this),
-        new ModuleObsidianGlobalHistory(this, this),
-        // Common modules
-        // Note: Platform-dependent functions are not entirely dependent on the core only, as they are from platform-dependent modules. Stubbing is sometimes required.
-        new ModuleCheckRemoteSize(this),
-        // Test and Dev Modules
-        new ModuleDev(this, this),
-        new ModuleReplicateTest(this, this),
-        new ModuleIntegratedTest(this, this),
-    ] as (IObsidianModule | AbstractModule)[];
+    createAddOns(): LiveSyncCommands[] {
+        return [
+            new ConfigSync(this),
+            new HiddenFileSync(this),
+            new LocalDatabaseMaintenance(this),
+            new P2PReplicator(this),
+        ];
+    }
+
+    // Hosts other than Obsidian (e.g., `HeadlessLiveSync`) override this to replace the platform-dependent modules.
+    // Note: This is called while initialising the fields; the fields of the subclass are not available yet.
+    createModules(): (IObsidianModule | AbstractModule)[] {
+        return [
+            new ModuleLiveSyncMain(this),
+            new ModuleExtraSyncObsidian(this, this),
+            // Only on Obsidian
+            new ModuleDatabaseFileAccess(this),
+            // Common
+            new ModulePouchDB(this),
+            new ModuleConflictChecker(this),
+            new ModuleLocalDatabaseObsidian(this),
+            new ModuleReplicatorMinIO(this),
+            new ModuleReplicatorFileDrop(this),
+            new ModuleReplicatorCouchDB(this),
+            new ModuleReplicator(this),
+            new ModuleFileHandler(this),
+            new ModuleConflictResolver(this),
+            new ModuleRemoteGovernor(this),
+            new ModuleRevisionRetention(this),
+            new ModuleTargetFilter(this),
+            new ModulePeriodicProcess(this),
+            // Obsidian modules
+            new ModuleKeyValueDB(this),
+            new ModuleInitializerFile(this),
+            new ModuleObsidianAPI(this, this),
+            new ModuleObsidianEvents(this, this),
+            new ModuleFileAccessObsidian(this, this),
+            new ModuleObsidianSettings(this, this),
+            new ModuleResolvingMismatchedTweaks(this),
+            new ModuleObsidianSettingsAsMarkdown(this, this),
+            new ModuleObsidianSettingDialogue(this, this),
+            new ModuleLog(this, this),
+            new ModuleInputUIObsidian(this, this),
+            new ModuleObsidianMenu(this, this),
+            new ModuleRebuilder(this),
+            new ModuleSetupObsidian(this, this),
+            new ModuleObsidianDocumentHistory(this, this),
+            new ModuleMigration(this),
+            new ModuleRedFlag(this),
+            new ModuleInteractiveConflictResolver(this, this),
+            new ModuleReplicationPreview(this, this),
+            new ModuleSelectiveSync(this, this),
+            new ModulePlaceholderFiles(this, this),
+            new ModuleVaultSnapshot(this, this),
+            new ModuleObsidianGlobalHistory(this, this),
+            new ModuleSyncActivity(this, this),
+            new ModuleSyncJournal(this, this),
+            // Common modules
+            // Note: Platform-dependent functions are not entirely dependent on the core only, as they are from platform-dependent modules. Stubbing is sometimes required.
+            new ModuleCheckRemoteSize(this),
+            // Test and Dev Modules
+            new ModuleDev(this, this),
+            new ModuleReplicateTest(this, this),
+            new ModuleIntegratedTest(this, this),
+            new ModuleFaultInjection(this, this),
+        ];
+    }
+
+    addOns = this.createAddOns();
+    modules = this.createModules();
     injected = injectModules(this, [...this.modules, ...this.addOns] as ICoreModule[]);
     // <-- Module System
 
@@ -193,6 +223,13 @@ export default class ObsidianLiveSyncPlugin
         throwShouldBeOverridden();
     }
 
+    $$getSelectiveSyncProfile(): string {
+        throwShouldBeOverridden();
+    }
+    $$setSelectiveSyncProfile(name: string): void {
+        throwShouldBeOverridden();
+    }
+
     $$addLog(message: any, level: LOG_LEVEL = LOG_LEVEL_INFO, key = ""): void {
         throwShouldBeOverridden();
     }
@@ -208,7 +245,7 @@ export default class ObsidianLiveSyncPlugin
 
     // Following are plugged by the modules.
 
-    settings!: ObsidianLiveSyncSettings;
+    settings!: LiveSyncPluginSettings;
     localDatabase!: LiveSyncLocalDB;
     simpleStore!: SimpleStore<CheckPointInfo>;
     replicator!: LiveSyncAbstractReplicator;
@@ -281,6 +318,10 @@ export default class ObsidianLiveSyncPlugin
         throwShouldBeOverridden();
     }
 
+    $$getReplicationQueues(): ActivityQueueSnapshot[] {
+        throwShouldBeOverridden();
+    }
+
     $$connectRemoteCouchDB(
         uri: string,
         auth: {
@@ -303,6 +344,11 @@ export default class ObsidianLiveSyncPlugin
         throwShouldBeOverridden();
     }
 
+    // Faults to inject into the requests to the remote and the operations of the storage; for testing only.
+    $anyInjectFault(target: FaultTarget, operation: string, path: string): Promise<Fault | undefined | false> {
+        return InterceptiveAny;
+    }
+
     $$isMobile(): boolean {
         throwShouldBeOverridden();
     }
@@ -479,6 +525,10 @@ export default class ObsidianLiveSyncPlugin
         throwShouldBeOverridden();
     }
 
+    $$saveSelectiveSyncProfile(): void {
+        throwShouldBeOverridden();
+    }
+
     $$saveSettingData(): Promise<void> {
         throwShouldBeOverridden();
     }
@@ -491,6 +541,10 @@ export default class ObsidianLiveSyncPlugin
         return InterceptiveEvery;
     }
 
+    $$getPendingFileEvents(): FileEventItem[] {
+        throwShouldBeOverridden();
+    }
+
     // ->
     $anyGetOptionalConflictCheckMethod(path: FilePathWithPrefix): Promise<boolean | undefined | "newer"> {
         return InterceptiveAny;
@@ -508,12 +562,25 @@ export default class ObsidianLiveSyncPlugin
         throwShouldBeOverridden();
     }
 
+    $$getConflictQueue(): ActivityQueueSnapshot {
+        throwShouldBeOverridden();
+    }
+
     //<-- Conflict Check
 
     $anyProcessOptionalSyncFiles(doc: LoadedEntry): Promise<boolean | undefined> {
         return InterceptiveAny;
     }
 
+    // Called when the replicated document will not be written to the storage (e.g., not a target, or too large).
+    $anyProcessSkippedReplicatedDoc(doc: AnyEntry): Promise<boolean | undefined> {
+        return InterceptiveAny;
+    }
+
+    $anyHoldReplicatedDoc(doc: MetaEntry): Promise<boolean | undefined> {
+        return InterceptiveAny;
+    }
+
     $anyProcessReplicatedDoc(doc: MetaEntry): Promise<boolean | undefined> {
         return InterceptiveAny;
     }
@@ -526,6 +593,22 @@ export default class ObsidianLiveSyncPlugin
     $anyModuleParsedReplicationResultItem(docs: PouchDB.Core.ExistingDocument<EntryDoc>): Promise<boolean | undefined> {
         return InterceptiveAny;
     }
+
+    // --> Sync Journal
+    $$recordFileEventsToJournal(events: SyncJournalFileEvent[]): void {
+        throwShouldBeOverridden();
+    }
+    $$recordReplicationResultToJournal(docs: Array<PouchDB.Core.ExistingDocument<EntryDoc>>): void {
+        throwShouldBeOverridden();
+    }
+    $$recordConflictDecisionToJournal(path: FilePathWithPrefix, decision: string, rev?: string): void {
+        throwShouldBeOverridden();
+    }
+    $$exportSyncJournal(): Promise<string | false> {
+        throwShouldBeOverridden();
+    }
+    // <-- Sync Journal
+
     $everyBeforeRealizeSetting(): Promise<boolean> {
         return InterceptiveEvery;
     }
@@ -606,8 +689,34 @@ export default class ObsidianLiveSyncPlugin
         throwShouldBeOverridden();
     }
 
+    $$fetchRevokedSetupURIs(settings: RemoteDBSettings): Promise<string[] | false> {
+        throwShouldBeOverridden();
+    }
+
+    $$revokeSetupURI(id: string): Promise<boolean> {
+        throwShouldBeOverridden();
+    }
+
     // <-- Remote Governing
 
+    // --> Revision Retention
+    $$getPinnedRevisions(): Promise<PinnedRevision[]> {
+        throwShouldBeOverridden();
+    }
+
+    $$setRevisionPinned(id: DocumentID, path: FilePathWithPrefix, rev: string, pinned: boolean): Promise<void> {
+        throwShouldBeOverridden();
+    }
+
+    $$collectRetainedChunks(): Promise<Set<string>> {
+        throwShouldBeOverridden();
+    }
+
+    $everyCollectRetainedRevisions(retained: Map<FilePathWithPrefix, Set<string>>): Promise<boolean> {
+        return InterceptiveEvery;
+    }
+    // <-- Revision Retention
+
     $$isFileSizeExceeded(size: number): boolean {
         throwShouldBeOverridden();
     }
@@ -629,6 +738,13 @@ export default class ObsidianLiveSyncPlugin
     ): Promise<typeof MISSING_OR_ERROR | typeof AUTO_MERGED> {
         throwShouldBeOverridden();
     }
+    $$resolveConflictByKeepingBoth(
+        path: FilePathWithPrefix,
+        deleteRevision: string,
+        subTitle = ""
+    ): Promise<typeof MISSING_OR_ERROR | typeof AUTO_MERGED> {
+        throwShouldBeOverridden();
+    }
     $$resolveConflict(filename: FilePathWithPrefix): Promise<void> {
         throwShouldBeOverridden();
     }
@@ -660,6 +776,14 @@ export default class ObsidianLiveSyncPlugin
         throwShouldBeOverridden();
     }
 
+    $$isExcludedBySelectiveSync(file: string | UXFileInfoStub): boolean {
+        throwShouldBeOverridden();
+    }
+
+    $$applySelectiveSyncProfile(): Promise<void> {
+        throwShouldBeOverridden();
+    }
+
     $$askReload(message?: string) {
         throwShouldBeOverridden();
     }
@@ -0,0 +1,17 @@
+import type { LiveSyncCore } from "../main";
+import type { HeadlessLiveSync } from "../headless/HeadlessLiveSync.ts";
+import { AbstractModule } from "./AbstractModule.ts";
+
+// Modules which replace the Obsidian modules on the headless runtime. They depend on Node.js instead of Obsidian.
+export abstract class AbstractHeadlessModule extends AbstractModule {
+    get options() {
+        return this.host.options;
+    }
+
+    constructor(
+        public host: HeadlessLiveSync,
+        public core: LiveSyncCore
+    ) {
+        super(core);
+    }
+}
@@ -20,6 +20,7 @@ import type { DatabaseFileAccess } from "../interfaces/DatabaseFileAccess";
 import { type IObsidianModule } from "../AbstractObsidianModule.ts";
 import { isPlainText, shouldBeIgnored, stripAllPrefixes } from "../../lib/src/string_and_binary/path";
 import {
+    createBinaryBlob,
     createBlob,
     createTextBlob,
     delay,
@@ -29,7 +30,7 @@ import {
 } from "../../lib/src/common/utils";
 import { serialized } from "octagonal-wheels/concurrency/lock";
 import { AbstractModule } from "../AbstractModule.ts";
-import { ICHeader } from "../../common/types.ts";
+import { ICHeader, type RenamedMetaEntry } from "../../common/types.ts";
 
 export class ModuleDatabaseFileAccess extends AbstractModule implements IObsidianModule, DatabaseFileAccess {
     $everyOnload(): Promise<boolean> {
@@ -86,6 +87,14 @@ export class ModuleDatabaseFileAccess extends AbstractModule implements IObsidia
         return true;
     }
 
+    // Nothing should be written into the local database on the read-only device, not to be sent to the remote.
+    checkIsWritable(file: UXFileInfoStub | FilePathWithPrefix | FilePath): boolean {
+        if (!this.settings.readOnlyDevice) return true;
+        const path = typeof file == "string" ? file : getStoragePathFromUXFileInfo(file);
+        this._log(`${path} is not stored because this device is read-only`, LOG_LEVEL_VERBOSE);
+        return false;
+    }
+
     async delete(file: UXFileInfoStub | FilePathWithPrefix, rev?: string): Promise<boolean> {
         if (!(await this.checkIsTargetFile(file))) {
             return true;
@@ -108,8 +117,8 @@ export class ModuleDatabaseFileAccess extends AbstractModule implements IObsidia
     async store(file: UXFileInfo, force: boolean = false, skipCheck?: boolean): Promise<boolean> {
         return await this._store(file, force, skipCheck, false);
     }
-    async storeContent(path: FilePathWithPrefix, content: string): Promise<boolean> {
-        const blob = createTextBlob(content);
+    async storeContent(path: FilePathWithPrefix, content: string | ArrayBuffer): Promise<boolean> {
+        const blob = typeof content == "string" ? createTextBlob(content) : createBinaryBlob(content);
         const bytes = (await blob.arrayBuffer()).byteLength;
         const isInternal = path.startsWith(".") ? true : undefined;
         const dummyUXFileInfo: UXFileInfo = {
@@ -142,6 +151,7 @@ export class ModuleDatabaseFileAccess extends AbstractModule implements IObsidia
             this._log("File seems bad", LOG_LEVEL_VERBOSE);
             return false;
         }
+        if (!this.checkIsWritable(file)) return false;
         // const path = getPathFromUXFileInfo(file);
         const isPlain = isPlainText(file.name);
         const possiblyLarge = !isPlain;
@@ -256,6 +266,61 @@ export class ModuleDatabaseFileAccess extends AbstractModule implements IObsidia
         return doc._conflicts || [];
     }
 
+    /**
+     * Store the renamed file as the document which shares the chunks of the old one, and has `renamedFrom`.
+     * Hence the content and the link are written at once, and never replicated separately.
+     * @returns false if the file cannot be stored as the renamed one (e.g., modified); it should be stored as usual.
+     */
+    async storeRenamed(file: UXFileInfo, oldPath: FilePathWithPrefix): Promise<boolean> {
+        if (!(await this.checkIsTargetFile(file))) {
+            return false;
+        }
+        if (!this.checkIsWritable(file)) return false;
+        const fullPath = getStoragePathFromUXFileInfo(file);
+        const fullPathOnDB = getDatabasePathFromUXFileInfo(file);
+        return await serialized("file-" + fullPath, async () => {
+            try {
+                const old = await this.localDatabase.getDBEntry(oldPath, undefined, false, true, false);
+                if (old === false || old._deleted || old.deleted) {
+                    this._log(`Could not link ${fullPath} to ${oldPath} (Not found on database)`, LOG_LEVEL_VERBOSE);
+                    return false;
+                }
+                if (isPlainText(file.name) != isPlainText(oldPath) || !(await isDocContentSame(old.data, file.body))) {
+                    this._log(`Could not link ${fullPath} to ${oldPath} (Modified)`, LOG_LEVEL_VERBOSE);
+                    return false;
+                }
+                // The previous document of the new path (e.g., deleted one) should be overwritten.
+                const current = await this.localDatabase.getDBEntryMeta(fullPathOnDB, undefined, true);
+                if (current !== false && !(current._deleted || current.deleted)) {
+                    this._log(`Could not link ${fullPath} to ${oldPath} (Already exists)`, LOG_LEVEL_VERBOSE);
+                    return false;
+                }
+                const saveData = {
+                    ...old,
+                    _id: await this.core.$$path2id(fullPath),
+                    path: fullPathOnDB,
+                    ctime: file.stat.ctime,
+                    mtime: file.stat.mtime,
+                    size: file.stat.size,
+                    renamedFrom: oldPath,
+                } as Omit<RenamedMetaEntry, "_rev"> & { _rev?: string; data?: unknown; _conflicts?: string[] };
+                delete saveData.data;
+                delete saveData._conflicts;
+                delete saveData._rev;
+                if (current !== false) saveData._rev = current._rev;
+                const ret = await this.localDatabase.putRaw(saveData);
+                if (!ret.ok) return false;
+                this._log(`STORAGE -> DB (renamed from ${oldPath}) ${fullPath}`);
+                eventHub.emitEvent(EVENT_FILE_SAVED);
+                return true;
+            } catch (ex) {
+                this._log(`Could not link ${fullPath} to ${oldPath}`, LOG_LEVEL_VERBOSE);
+                this._log(ex, LOG_LEVEL_VERBOSE);
+                return false;
+            }
+        });
+    }
+
     async fetch(
         file: UXFileInfoStub | FilePathWithPrefix,
         rev?: string,
@@ -346,6 +411,7 @@ export class ModuleDatabaseFileAccess extends AbstractModule implements IObsidia
             this._log(`storeFromStorage: File is not target: ${fullPath}`);
             return true;
         }
+        if (!this.checkIsWritable(fullPath)) return false;
         const opt = rev ? { rev: rev } : undefined;
         const ret = await this.localDatabase.deleteDBEntry(fullPath, opt);
         eventHub.emitEvent(EVENT_FILE_SAVED);
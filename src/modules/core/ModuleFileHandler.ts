@@ -1,6 +1,6 @@
 import { LOG_LEVEL_INFO, LOG_LEVEL_NOTICE, LOG_LEVEL_VERBOSE } from "octagonal-wheels/common/logger";
 import { serialized } from "octagonal-wheels/concurrency/lock";
-import type { FileEventItem } from "../../common/types";
+import type { FileEventItem, RenamedMetaEntry } from "../../common/types";
 import type {
     FilePath,
     FilePathWithPrefix,
@@ -19,7 +19,7 @@ import {
     markChangesAreSame,
 } from "../../common/utils";
 import { getDocDataAsArray, isDocContentSame, readContent } from "../../lib/src/common/utils";
-import { shouldBeIgnored } from "../../lib/src/string_and_binary/path";
+import { shouldBeIgnored, stripAllPrefixes } from "../../lib/src/string_and_binary/path";
 import type { ICoreModule } from "../ModuleTypes";
 import { Semaphore } from "octagonal-wheels/concurrency/semaphore";
 import { eventHub } from "../../common/events.ts";
@@ -66,6 +66,10 @@ export class ModuleFileHandler extends AbstractModule implements ICoreModule {
             );
             return false;
         }
+        if (this.settings.readOnlyDevice) {
+            this._log(`File ${file.path} is not stored because this device is read-only`, LOG_LEVEL_VERBOSE);
+            return false;
+        }
         // First, check the file on the database
         const entry = await this.db.fetchEntry(file, undefined, true, true);
 
@@ -139,6 +143,10 @@ export class ModuleFileHandler extends AbstractModule implements ICoreModule {
             );
             return false;
         }
+        if (this.settings.readOnlyDevice) {
+            this._log(`File ${file.path} is not stored because this device is read-only`, LOG_LEVEL_VERBOSE);
+            return false;
+        }
         // First, check the file on the database
         const entry = await this.db.fetchEntry(file, undefined, true, true);
         if (!entry || entry.deleted || entry._deleted) {
@@ -157,6 +165,49 @@ export class ModuleFileHandler extends AbstractModule implements ICoreModule {
         return await this.db.delete(file);
     }
 
+    async renameFileInDB(
+        info: UXFileInfoStub | UXInternalFileInfoStub,
+        oldPath: FilePath
+    ): Promise<boolean | undefined> {
+        if (info.isInternal) {
+            this._log(
+                `Internal file ${info.path} is not allowed to be processed on processFileEvent`,
+                LOG_LEVEL_VERBOSE
+            );
+            return false;
+        }
+        if (this.settings.readOnlyDevice) {
+            this._log(`File ${info.path} is not stored because this device is read-only`, LOG_LEVEL_VERBOSE);
+            return false;
+        }
+        // If the paths point to the same document (e.g., only the case has been changed on the case-insensitive database), just update it.
+        if ((await this.core.$$path2id(oldPath)) == (await this.core.$$path2id(info.path))) {
+            return await this.storeFileToDB(info, true);
+        }
+        const oldEntry = await this.db.fetchEntryMeta(oldPath, undefined, true);
+        if (!oldEntry || oldEntry.deleted || oldEntry._deleted) {
+            // We do not have the previous one, so nothing to be linked.
+            this._log(`File ${oldPath} is not exist on the database, ${info.path} will be created`, LOG_LEVEL_VERBOSE);
+            return await this.storeFileToDB(info);
+        }
+        // The new one should be stored before deleting the old one. Then, other devices can notice the rename before the deletion.
+        const readFile = await this.readFileFromStub(info);
+        if (!(await this.db.storeRenamed(readFile, oldPath))) {
+            this._log(`Could not link ${info.path} to ${oldPath}, processed as a new file`, LOG_LEVEL_VERBOSE);
+            if (!(await this.storeFileToDB(readFile))) {
+                this._log(`Failed to store the renamed file ${oldPath} -> ${info.path}`, LOG_LEVEL_INFO);
+                return false;
+            }
+        }
+        const oldFile: UXFileInfoStub = {
+            ...(info as UXFileInfoStub),
+            path: oldPath,
+            name: oldPath.split("/").pop() as string,
+            deleted: true,
+        };
+        return await this.deleteFileFromDB(oldFile);
+    }
+
     async deleteRevisionFromDB(
         info: UXFileInfoStub | FilePath | FilePathWithPrefix,
         rev: string
@@ -322,6 +373,8 @@ export class ModuleFileHandler extends AbstractModule implements ICoreModule {
                     return await this.storeFileToDB(item.args.file);
                 case "DELETE":
                     return await this.deleteFileFromDB(item.args.file);
+                case "RENAME":
+                    return await this.renameFileInDB(item.args.file, item.args.oldPath as FilePath);
                 case "INTERNAL":
                     // this should be handled on the other module.
                     return false;
@@ -356,13 +409,47 @@ export class ModuleFileHandler extends AbstractModule implements ICoreModule {
                 );
                 // Before writing (or skipped ), merging dialogue should be cancelled.
                 eventHub.emitEvent("conflict-cancelled", path);
-                const ret = await this.dbToStorage(entry, targetFile);
+                const renamedFile = targetFile ? false : await this.applyRenameToStorage(entry);
+                const ret = await this.dbToStorage(entry, renamedFile || targetFile);
                 this._log(`Processing ${path} (${entry._id.substring(0, 8)} :${entry._rev?.substring(0, 5)}) : Done`);
                 return ret;
             }
         });
     }
 
+    /**
+     * Rename the file on the storage if the entry has been renamed from the other one, instead of creating it newly.
+     * Only performed when the previous file still exists and has the same content, otherwise, the entry will be
+     * written as a new file and the deletion of the previous one will be processed as usual.
+     * @param entry the entry which has been replicated
+     * @returns the stub of the renamed file, or false if not renamed
+     */
+    async applyRenameToStorage(entry: RenamedMetaEntry): Promise<UXFileInfoStub | false> {
+        if (!entry.renamedFrom) return false;
+        if (entry.deleted || entry._deleted) return false;
+        const oldPath = stripAllPrefixes(entry.renamedFrom);
+        const newPath = getPathWithoutPrefix(entry);
+        if (!(await this.core.$$isTargetFile(oldPath))) return false;
+        const oldFile = this.storage.getFileStub(oldPath);
+        if (!oldFile) return false;
+        const docRead = await this.db.fetchEntryFromMeta(entry);
+        if (!docRead) return false;
+        const readFile = await this.readFileFromStub(oldFile);
+        if (!(await isDocContentSame(readContent(docRead), readFile.body))) {
+            this._log(
+                `${oldPath} has been modified, ${newPath} will be created instead of renaming`,
+                LOG_LEVEL_VERBOSE
+            );
+            return false;
+        }
+        if (!(await this.storage.renameVaultItem(oldFile, newPath))) {
+            return false;
+        }
+        const renamed = this.storage.getFileStub(newPath);
+        if (renamed) this.storage.touched(renamed);
+        return renamed ?? false;
+    }
+
     async createAllChunks(showingNotice?: boolean): Promise<void> {
         this._log("Collecting local files on the storage", LOG_LEVEL_VERBOSE);
         const semaphore = Semaphore(10);
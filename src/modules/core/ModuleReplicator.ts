@@ -23,6 +23,7 @@ import { isAnyNote } from "../../lib/src/common/utils";
 import { EVENT_FILE_SAVED, eventHub } from "../../common/events";
 import type { LiveSyncAbstractReplicator } from "../../lib/src/replication/LiveSyncAbstractReplicator";
 import { globalSlipBoard } from "../../lib/src/bureau/bureau";
+import type { ActivityQueueSnapshot } from "../../common/types";
 
 export class ModuleReplicator extends AbstractModule implements ICoreModule {
     $everyOnloadAfterLoadSettings(): Promise<boolean> {
@@ -72,6 +73,10 @@ export class ModuleReplicator extends AbstractModule implements ICoreModule {
             Logger("Open settings and check message, please. replication has been cancelled.", LOG_LEVEL_NOTICE);
             return;
         }
+        if (this.settings.readOnlyDevice) {
+            // The read-only device only fetches the changes; nothing is sent to the remote.
+            return await this.core.$$replicateAllFromServer(showMessage);
+        }
         if (!(await this.core.$everyCommitPendingFileEvent())) {
             Logger("Some file events are pending. Replication has been cancelled.", LOG_LEVEL_NOTICE);
             return false;
@@ -193,6 +198,7 @@ Or if you are sure know what had been happened, we can unlock the database from
     }
 
     $$parseReplicationResult(docs: Array<PouchDB.Core.ExistingDocument<EntryDoc>>): void {
+        this.core.$$recordReplicationResultToJournal(docs);
         if (this.settings.suspendParseReplicationResult && !this.replicationResultProcessor.isSuspended) {
             this.replicationResultProcessor.suspend();
         }
@@ -245,11 +251,39 @@ Or if you are sure know what had been happened, we can unlock the database from
         await this.replicationResultProcessor.waitForAllProcessed();
     }
 
+    processedCount = { replicationResult: 0, database: 0, storageApplying: 0 };
+
+    $$getReplicationQueues(): ActivityQueueSnapshot[] {
+        const toPaths = (queue: (EntryDoc | EntryBody | MetaEntry | undefined)[]) =>
+            queue.filter((e) => e && isAnyNote(e as EntryDoc)).map((e) => getPath(e as MetaEntry));
+        return [
+            {
+                name: "Replication result",
+                count: this.replicationResultProcessor._queue.length,
+                items: toPaths(this.replicationResultProcessor._queue),
+                processed: this.processedCount.replicationResult,
+            },
+            {
+                name: "Database",
+                count: this.databaseQueuedProcessor._queue.length,
+                items: toPaths(this.databaseQueuedProcessor._queue),
+                processed: this.processedCount.database,
+            },
+            {
+                name: "Storage applying",
+                count: this.storageApplyingProcessor._queue.length,
+                items: toPaths(this.storageApplyingProcessor._queue),
+                processed: this.processedCount.storageApplying,
+            },
+        ];
+    }
+
     replicationResultProcessor = new QueueProcessor(
         async (docs: PouchDB.Core.ExistingDocument<EntryDoc>[]) => {
             if (this.settings.suspendParseReplicationResult) return;
             const change = docs[0];
             if (!change) return;
+            this.processedCount.replicationResult++;
             if (isChunk(change._id)) {
                 globalSlipBoard.submit("read-chunk", change._id, change as EntryLeaf);
                 return;
@@ -281,6 +315,7 @@ Or if you are sure know what had been happened, we can unlock the database from
                 const docPath = getPath(change);
                 if (!(await this.core.$$isTargetFile(docPath))) {
                     Logger(`Skipped: ${docPath}`, LOG_LEVEL_VERBOSE);
+                    await this.core.$anyProcessSkippedReplicatedDoc(change);
                     return;
                 }
                 if (this.databaseQueuedProcessor._isSuspended) {
@@ -292,6 +327,7 @@ Or if you are sure know what had been happened, we can unlock the database from
                         `Processing ${docPath} has been skipped due to file size exceeding the limit`,
                         LOG_LEVEL_NOTICE
                     );
+                    await this.core.$anyProcessSkippedReplicatedDoc(change);
                     return;
                 }
                 this.databaseQueuedProcessor.enqueue(change);
@@ -319,6 +355,7 @@ Or if you are sure know what had been happened, we can unlock the database from
         async (docs: EntryBody[]) => {
             const dbDoc = docs[0] as LoadedEntry; // It has no `data`
             const path = getPath(dbDoc);
+            this.processedCount.database++;
 
             // If `Read chunks online` is disabled, chunks should be transferred before here.
             // However, in some cases, chunks are after that. So, if missing chunks exist, we have to wait for them.
@@ -358,6 +395,9 @@ Or if you are sure know what had been happened, we can unlock the database from
     storageApplyingProcessor = new QueueProcessor(
         async (docs: MetaEntry[]) => {
             const entry = docs[0];
+            this.processedCount.storageApplying++;
+            // e.g., Replication preview holds the document until the user accepts it.
+            if (await this.core.$anyHoldReplicatedDoc(entry)) return;
             await this.core.$anyProcessReplicatedDoc(entry);
             return;
         },
@@ -386,6 +426,10 @@ Or if you are sure know what had been happened, we can unlock the database from
         sendChunksInBulkDisabled: boolean = false
     ): Promise<boolean> {
         if (!this.core.$$isReady()) return false;
+        if (this.settings.readOnlyDevice) {
+            Logger("This device is read-only. Nothing can be sent to the remote.", LOG_LEVEL_NOTICE);
+            return false;
+        }
         if (!(await this.core.$everyBeforeReplicate(showingNotice))) {
             Logger(`Replication has been cancelled by some module failure`, LOG_LEVEL_NOTICE);
             return false;
@@ -16,6 +16,13 @@ export class ModuleReplicatorCouchDB extends AbstractModule implements ICoreModu
     }
     $everyAfterResumeProcess(): Promise<boolean> {
         if (this.settings.remoteType != REMOTE_MINIO && this.settings.remoteType != REMOTE_P2P) {
+            // The continuous replication also sends the changes; the read-only device only fetches them once.
+            if (this.settings.readOnlyDevice) {
+                if (this.settings.liveSync || this.settings.syncOnStart) {
+                    fireAndForget(() => this.core.$$replicate());
+                }
+                return Promise.resolve(true);
+            }
             // If LiveSync enabled, open replication
             if (this.settings.liveSync) {
                 fireAndForget(() => this.core.replicator.openReplication(this.settings, true, false, false));
@@ -0,0 +1,16 @@
+import { type RemoteDBSettings } from "../../lib/src/common/types";
+import type { LiveSyncAbstractReplicator } from "../../lib/src/replication/LiveSyncAbstractReplicator";
+import { isFileDropRemote } from "../../common/utils";
+import { AbstractModule } from "../AbstractModule";
+import type { ICoreModule } from "../ModuleTypes";
+import { LiveSyncFileDropReplicator } from "./fileDropLib/LiveSyncFileDropReplicator";
+
+export class ModuleReplicatorFileDrop extends AbstractModule implements ICoreModule {
+    $anyNewReplicator(settingOverride: Partial<RemoteDBSettings> = {}): Promise<LiveSyncAbstractReplicator> {
+        const settings = { ...this.settings, ...settingOverride };
+        if (isFileDropRemote(settings)) {
+            return Promise.resolve(new LiveSyncFileDropReplicator(this.core));
+        }
+        return undefined!;
+    }
+}
@@ -3,11 +3,13 @@ import { LiveSyncJournalReplicator } from "../../lib/src/replication/journal/Liv
 import type { LiveSyncAbstractReplicator } from "../../lib/src/replication/LiveSyncAbstractReplicator";
 import { AbstractModule } from "../AbstractModule";
 import type { ICoreModule } from "../ModuleTypes";
+import { isFileDropRemote } from "../../common/utils";
 
 export class ModuleReplicatorMinIO extends AbstractModule implements ICoreModule {
     $anyNewReplicator(settingOverride: Partial<RemoteDBSettings> = {}): Promise<LiveSyncAbstractReplicator> {
         const settings = { ...this.settings, ...settingOverride };
-        if (settings.remoteType == REMOTE_MINIO) {
+        // The shared folder remote is also the object storage remote; See `ModuleReplicatorFileDrop`.
+        if (settings.remoteType == REMOTE_MINIO && !isFileDropRemote(settings)) {
             return Promise.resolve(new LiveSyncJournalReplicator(this.core));
         }
         return undefined!;
@@ -1,8 +1,13 @@
 import { LRUCache } from "octagonal-wheels/memory/LRUCache";
 import {
+    getPlaceholderPath,
     getStoragePathFromUXFileInfo,
     id2path,
+    isDatabaseArchivePath,
+    isExcludedBySelectiveSyncProfile,
     isInternalMetadata,
+    isPlaceholderPath,
+    parseSelectiveSyncProfiles,
     path2id,
     stripInternalMetadataPrefix,
     useMemo,
@@ -21,6 +26,7 @@ import { AbstractModule } from "../AbstractModule";
 import type { ICoreModule } from "../ModuleTypes";
 import { EVENT_REQUEST_RELOAD_SETTING_TAB, EVENT_SETTING_SAVED, eventHub } from "../../common/events";
 import { isDirty } from "../../lib/src/common/utils";
+import type { SelectiveSyncProfile } from "../../common/types";
 export class ModuleTargetFilter extends AbstractModule implements ICoreModule {
     reloadIgnoreFiles() {
         this.ignoreFiles = this.settings.ignoreFiles.split(",").map((e) => e.trim());
@@ -108,6 +114,14 @@ export class ModuleTargetFilter extends AbstractModule implements ICoreModule {
         );
 
         const filepath = getStoragePathFromUXFileInfo(file);
+        // Placeholders are local to this device, even after placeholder files have been disabled.
+        if (isPlaceholderPath(filepath)) return false;
+        // Files which have placeholders are not on this device.
+        if (this.settings.usePlaceholderFiles && this.core.storageAccess.getFileStub(getPlaceholderPath(filepath))) {
+            return false;
+        }
+        // Archives of the local database are also local; they are copied to the other device by the user.
+        if (isDatabaseArchivePath(filepath)) return false;
         const lc = filepath.toLowerCase();
         if (this.core.$$shouldCheckCaseInsensitive()) {
             if (lc in fileCount && fileCount[lc] > 1) {
@@ -125,9 +139,32 @@ export class ModuleTargetFilter extends AbstractModule implements ICoreModule {
             }
         }
         if (!this.localDatabase?.isTargetFile(filepath)) return false;
+        // Excluded files are kept in the local database, but never be written to (and read from) the storage.
+        if (this.core.$$isExcludedBySelectiveSync(filepath)) return false;
         return true;
     }
 
+    selectiveSyncProfileCache?: { key: string; profile: SelectiveSyncProfile | undefined };
+    getSelectiveSyncProfile() {
+        const name = this.core.$$getSelectiveSyncProfile();
+        const source = this.settings.selectiveSyncProfiles;
+        const key = `${name}\n${source}`;
+        if (this.selectiveSyncProfileCache?.key != key) {
+            const profile = name ? parseSelectiveSyncProfiles(source).profiles.find((e) => e.name == name) : undefined;
+            if (name && !profile) {
+                this._log(`Selective sync profile ${name} is not defined. All files are synchronised.`);
+            }
+            this.selectiveSyncProfileCache = { key, profile };
+        }
+        return this.selectiveSyncProfileCache.profile;
+    }
+
+    $$isExcludedBySelectiveSync(file: string | UXFileInfoStub): boolean {
+        const profile = this.getSelectiveSyncProfile();
+        if (!profile) return false;
+        return isExcludedBySelectiveSyncProfile(getStoragePathFromUXFileInfo(file), profile);
+    }
+
     ignoreFileCache = new LRUCache<string, string[] | false>(300, 250000, true);
     ignoreFiles = [] as string[];
     async readIgnoreFile(path: string) {
@@ -0,0 +1,147 @@
+import { LOG_LEVEL_VERBOSE, Logger } from "octagonal-wheels/common/logger";
+import { JournalSyncMinio } from "../../../lib/src/replication/journal/objectstore/JournalSyncMinio.ts";
+import type { LiveSyncJournalReplicatorEnv } from "../../../lib/src/replication/journal/LiveSyncJournalReplicator.ts";
+import type { SimpleStore } from "../../../lib/src/common/utils.ts";
+import type { CheckPointInfo } from "../../../lib/src/replication/journal/JournalSyncTypes.ts";
+
+type NodeFS = typeof import("node:fs/promises");
+
+/**
+ * The file system of Node.js. Only available on the desktop app of Obsidian and on the headless runtime.
+ * This is imported lazily, not to break the plug-in on mobile devices.
+ */
+export async function getNodeFS(): Promise<NodeFS | undefined> {
+    try {
+        return await import("node:fs/promises");
+    } catch {
+        return undefined;
+    }
+}
+
+// Files which are being written are suffixed by this, and renamed after being written completely. Hence other devices
+// (or the sync tool which mirrors the folder) never read the pack partially.
+const PARTIAL_SUFFIX = ".partial";
+// Packs are kept in this folder inside the shared folder; hence resetting the remote never touches the other files.
+const PACK_FOLDER = "livesync-journal";
+
+/**
+ * The journal client which stores the packs, as same as the object storage does, into a plain folder.
+ * Keys are mapped to the paths under `livesync-journal` of the folder; files and folders which start with `.` are not listed, as they are
+ * usually the metadata of the other sync tools (e.g., `.stfolder` or `.DS_Store`).
+ */
+export class JournalSyncFileDrop extends JournalSyncMinio {
+    folder: string;
+
+    constructor(folder: string, store: SimpleStore<CheckPointInfo>, env: LiveSyncJournalReplicatorEnv) {
+        super("", "", "", folder, store, env, false, "");
+        this.folder = folder.replace(/[\\/]+$/, "");
+    }
+
+    async _fs() {
+        // Never fall back to the root of the file system.
+        if (!this.folder) throw new Error("The shared folder is not configured.");
+        const fs = await getNodeFS();
+        if (!fs) throw new Error("The shared folder is only available on the desktop.");
+        return fs;
+    }
+
+    get root() {
+        return `${this.folder}/${PACK_FOLDER}`;
+    }
+
+    _pathOf(key: string) {
+        return `${this.root}/${key}`;
+    }
+
+    async _listKeys(dir: string, prefix: string): Promise<string[]> {
+        const entries = await (await this._fs()).readdir(dir, { withFileTypes: true });
+        const keys = [] as string[];
+        for (const entry of entries) {
+            if (entry.name.startsWith(".") || entry.name.endsWith(PARTIAL_SUFFIX)) continue;
+            if (entry.isDirectory()) {
+                keys.push(...(await this._listKeys(`${dir}/${entry.name}`, `${prefix}${entry.name}/`)));
+            } else if (entry.isFile()) {
+                keys.push(`${prefix}${entry.name}`);
+            }
+        }
+        return keys;
+    }
+
+    async resetBucket() {
+        try {
+            await (await this._fs()).rm(this.root, { recursive: true, force: true });
+            Logger(`The journal packs in ${this.root} have been deleted`);
+            return true;
+        } catch (ex) {
+            Logger(`Could not delete the journal packs in ${this.root}`);
+            Logger(ex, LOG_LEVEL_VERBOSE);
+            return false;
+        }
+    }
+
+    async uploadJson<T>(key: string, body: T) {
+        return await this.uploadFile(key, new Blob([JSON.stringify(body)]), "application/json");
+    }
+
+    async downloadJson<T>(key: string): Promise<T | false> {
+        const ret = await this.downloadFile(key, true);
+        if (!ret) return false;
+        try {
+            return JSON.parse(new TextDecoder().decode(ret)) as T;
+        } catch (ex) {
+            Logger(`Could not parse ${key} in the shared folder`, LOG_LEVEL_VERBOSE);
+            Logger(ex, LOG_LEVEL_VERBOSE);
+            return false;
+        }
+    }
+
+    async uploadFile(key: string, blob: Blob, mime: string) {
+        const path = this._pathOf(key);
+        const partial = `${path}.${Date.now()}-${Math.random().toString(36).substring(2)}${PARTIAL_SUFFIX}`;
+        try {
+            const fs = await this._fs();
+            await fs.mkdir(path.substring(0, path.lastIndexOf("/")), { recursive: true });
+            await fs.writeFile(partial, new Uint8Array(await blob.arrayBuffer()));
+            await fs.rename(partial, path);
+            return true;
+        } catch (ex) {
+            Logger(`Could not write ${key} into the shared folder`);
+            Logger(ex, LOG_LEVEL_VERBOSE);
+            await (await getNodeFS())?.rm(partial, { force: true }).catch(() => {});
+            return false;
+        }
+    }
+
+    async downloadFile(key: string, ignoreCache = false): Promise<Uint8Array | false> {
+        try {
+            return new Uint8Array(await (await this._fs()).readFile(this._pathOf(key)));
+        } catch (ex) {
+            Logger(`Could not read ${key} from the shared folder`, LOG_LEVEL_VERBOSE);
+            Logger(ex, LOG_LEVEL_VERBOSE);
+            return false;
+        }
+    }
+
+    /**
+     * List the keys after `from`, in the order of the keys; as `StartAfter` of the object storage does.
+     */
+    async listFiles(from: string, limit?: number) {
+        const fs = await this._fs();
+        // Nothing has been sent yet.
+        if (!(await fs.stat(this.root).catch(() => undefined))) return [];
+        const keys = (await this._listKeys(this.root, "")).filter((e) => e > from).sort();
+        return limit ? keys.slice(0, limit) : keys;
+    }
+
+    async isAvailable(): Promise<boolean> {
+        try {
+            const stat = await (await this._fs()).stat(this.folder);
+            if (stat.isDirectory()) return true;
+            Logger(`${this.folder} is not a folder`);
+        } catch (ex) {
+            Logger(`The shared folder ${this.folder} is not available`);
+            Logger(ex, LOG_LEVEL_VERBOSE);
+        }
+        return false;
+    }
+}
@@ -0,0 +1,36 @@
+import { LOG_LEVEL_NOTICE, LOG_LEVEL_VERBOSE, Logger } from "octagonal-wheels/common/logger";
+import type { RemoteDBSettings } from "../../../lib/src/common/types.ts";
+import { LiveSyncJournalReplicator } from "../../../lib/src/replication/journal/LiveSyncJournalReplicator.ts";
+import type { LiveSyncPluginSettings } from "../../../common/types.ts";
+import { JournalSyncFileDrop } from "./JournalSyncFileDrop.ts";
+
+function folderOf(settings: Partial<LiveSyncPluginSettings>) {
+    return settings.fileDropFolder ?? "";
+}
+
+/**
+ * The journal replicator which exchanges the packs through the shared folder instead of the object storage.
+ * Packs, chunks, encryption and the checkpoints are handled by the journal replicator as they are.
+ */
+export class LiveSyncFileDropReplicator extends LiveSyncJournalReplicator {
+    setupJournalSyncClient() {
+        const folder = folderOf(this.env.getSettings() as LiveSyncPluginSettings);
+        this._client = new JournalSyncFileDrop(folder, this.env.simpleStore, this.env);
+        return this._client;
+    }
+
+    async tryConnectRemote(setting: RemoteDBSettings, showResult: boolean = true): Promise<boolean> {
+        const folder = folderOf(setting as Partial<LiveSyncPluginSettings>);
+        const client = new JournalSyncFileDrop(folder, this.env.simpleStore, this.env);
+        try {
+            if (await client.isAvailable()) {
+                Logger(`The shared folder ${folder} is available`, showResult ? LOG_LEVEL_NOTICE : LOG_LEVEL_VERBOSE);
+                return true;
+            }
+        } catch (ex) {
+            Logger(ex, LOG_LEVEL_VERBOSE);
+        }
+        Logger(`The shared folder ${folder} is not available`, showResult ? LOG_LEVEL_NOTICE : LOG_LEVEL_VERBOSE);
+        return false;
+    }
+}
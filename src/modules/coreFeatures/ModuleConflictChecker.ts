@@ -3,6 +3,7 @@ import { LOG_LEVEL_NOTICE, type FilePathWithPrefix } from "../../lib/src/common/
 import { QueueProcessor } from "octagonal-wheels/concurrency/processor";
 import { sendValue } from "octagonal-wheels/messagepassing/signal";
 import type { ICoreModule } from "../ModuleTypes.ts";
+import type { ActivityQueueSnapshot } from "../../common/types.ts";
 
 export class ModuleConflictChecker extends AbstractModule implements ICoreModule {
     async $$queueConflictCheckIfOpen(file: FilePathWithPrefix): Promise<void> {
@@ -34,9 +35,22 @@ export class ModuleConflictChecker extends AbstractModule implements ICoreModule
         return this.conflictResolveQueue.waitForAllProcessed();
     }
 
+    processedCount = 0;
+
+    $$getConflictQueue(): ActivityQueueSnapshot {
+        const items = [...this.conflictCheckQueue._queue, ...this.conflictResolveQueue._queue].filter((e) => e);
+        return {
+            name: "Conflict",
+            count: items.length,
+            items: [...new Set(items)],
+            processed: this.processedCount,
+        };
+    }
+
     // TODO-> Move to ModuleConflictResolver?
     conflictResolveQueue = new QueueProcessor(
         async (filenames: FilePathWithPrefix[]) => {
+            this.processedCount++;
             await this.core.$$resolveConflict(filenames[0]);
         },
         {
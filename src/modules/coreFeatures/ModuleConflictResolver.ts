@@ -10,10 +10,15 @@ import {
     NOT_CONFLICTED,
     type diff_check_result,
     type FilePathWithPrefix,
+    type DocumentID,
+    type diff_result,
 } from "../../lib/src/common/types";
 import {
     compareMTime,
     displayRev,
+    EVEN,
+    getConflictResolutionPolicy,
+    parseConflictResolutionRules,
     isCustomisationSyncMetadata,
     isPluginMetadata,
     TARGET_IS_NEW,
@@ -22,6 +27,10 @@ import diff_match_patch from "diff-match-patch";
 import { stripAllPrefixes, isPlainText } from "../../lib/src/string_and_binary/path";
 import type { ICoreModule } from "../ModuleTypes.ts";
 import { eventHub } from "../../common/events.ts";
+import { getDocData, readContent } from "../../lib/src/common/utils";
+import { threeWayMerge, type ThreeWayMergeResult } from "../../common/threeWayMerge.ts";
+import { detectJSONIndent, isJSONDocument, mergeJSON } from "../../common/jsonMerge.ts";
+import type { ConflictResolutionPolicy, PreMergedDiffResult } from "../../common/types.ts";
 
 declare global {
     interface LSEvents {
@@ -44,6 +53,7 @@ export class ModuleConflictResolver extends AbstractModule implements ICoreModul
             return MISSING_OR_ERROR;
         }
         eventHub.emitEvent("conflict-cancelled", path);
+        this.core.$$recordConflictDecisionToJournal(path, subTitle || "deleted", deleteRevision);
         this._log(`${title} Conflicted revision deleted ${displayRev(deleteRevision)} ${path}`, LOG_LEVEL_INFO);
         if ((await this.core.databaseFileAccess.getConflictedRevs(path)).length != 0) {
             this._log(`${title} some conflicts are left in ${path}`, LOG_LEVEL_INFO);
@@ -62,9 +72,66 @@ export class ModuleConflictResolver extends AbstractModule implements ICoreModul
         return AUTO_MERGED;
     }
 
+    /**
+     * Write the content of the losing revision as a sibling file, then delete the revision.
+     * e.g., `note.md` -> `note (conflict from device 2026-01-01).md`
+     */
+    async $$resolveConflictByKeepingBoth(
+        path: FilePathWithPrefix,
+        deleteRevision: string,
+        subTitle = ""
+    ): Promise<typeof MISSING_OR_ERROR | typeof AUTO_MERGED> {
+        const title = `Keeping both ${subTitle ? `[${subTitle}]` : ""}:`;
+        if (stripAllPrefixes(path) != path) {
+            this._log(`${title} ${path} is not a file in the vault, could not keep both`, LOG_LEVEL_NOTICE);
+            return MISSING_OR_ERROR;
+        }
+        const loser = await this.core.databaseFileAccess.fetchEntry(path, deleteRevision);
+        if (loser === false) {
+            this._log(`${title} Could not read ${displayRev(deleteRevision)} of ${path}`, LOG_LEVEL_NOTICE);
+            return MISSING_OR_ERROR;
+        }
+        if (!loser.deleted) {
+            const siblingPath = await this.getConflictSiblingPath(path, loser.mtime);
+            if (!(await this.core.databaseFileAccess.storeContent(siblingPath, readContent(loser)))) {
+                this._log(`${title} Could not store the content as ${siblingPath}`, LOG_LEVEL_NOTICE);
+                return MISSING_OR_ERROR;
+            }
+            if (!(await this.core.fileHandler.dbToStorage(siblingPath, stripAllPrefixes(siblingPath), true))) {
+                this._log(`${title} Could not write ${siblingPath} to the storage`, LOG_LEVEL_NOTICE);
+            }
+            this._log(
+                `${title} ${displayRev(deleteRevision)} of ${path} has been kept as ${siblingPath}`,
+                LOG_LEVEL_INFO
+            );
+        }
+        return await this.core.$$resolveConflictByDeletingRev(path, deleteRevision, `${subTitle}, kept both`);
+    }
+
+    async getConflictSiblingPath(path: FilePathWithPrefix, mtime: number): Promise<FilePathWithPrefix> {
+        const stat = await this.core.storageAccess.stat(path);
+        const isLocal = stat ? compareMTime(stat.mtime, mtime) == EVEN : false;
+        // Revisions do not record the device which has made them. Hence only the local one can be named after the device;
+        // the other one is from the remote database.
+        const deviceName = isLocal ? this.core.$$getDeviceAndVaultName() || this.core.$$getVaultName() : "remote";
+        const date = new Date(mtime).toISOString().split("T")[0];
+        const dirEnd = path.lastIndexOf("/") + 1;
+        const extStart = path.lastIndexOf(".") > dirEnd ? path.lastIndexOf(".") : path.length;
+        const base = `${path.substring(0, extStart)} (conflict from ${deviceName.replace(/[\\/:*?"<>|]/g, "_")} ${date}`;
+        const ext = path.substring(extStart);
+        for (let i = 1; ; i++) {
+            const candidate = `${base}${i == 1 ? "" : ` ${i}`})${ext}` as FilePathWithPrefix;
+            if (await this.core.storageAccess.isExists(candidate)) continue;
+            if ((await this.core.databaseFileAccess.fetchEntryMeta(candidate, undefined, true)) !== false) continue;
+            return candidate;
+        }
+    }
+
     async checkConflictAndPerformAutoMerge(path: FilePathWithPrefix): Promise<diff_check_result> {
-        //
-        const ret = await this.localDatabase.tryAutoMerge(path, !this.settings.disableMarkdownAutoMerge);
+        const policy = this.getConflictResolutionPolicy(path);
+        if (policy) this._log(`Conflict resolution policy of ${path}: ${policy}`, LOG_LEVEL_VERBOSE);
+        const isMergeEnabled = policy ? policy == "merge" : !this.settings.disableMarkdownAutoMerge;
+        const ret = await this.localDatabase.tryAutoMerge(path, isMergeEnabled);
         if ("ok" in ret) {
             return ret.ok;
         }
@@ -95,9 +162,21 @@ export class ModuleConflictResolver extends AbstractModule implements ICoreModul
         }
 
         const isSame = leftLeaf.data == rightLeaf.data && leftLeaf.deleted == rightLeaf.deleted;
+        if (!isSame && (policy == "local" || policy == "remote")) {
+            const loser = await this.getLoserByOrigin(path, leftLeaf, rightLeaf, policy);
+            if (loser) {
+                return await this.core.$$resolveConflictByDeletingRev(path, loser.rev, `keep ${policy}`);
+            }
+            this._log(`Could not determine which revision is on this device: ${path}`, LOG_LEVEL_INFO);
+        }
+        if (!isSame && policy == "keep-both") {
+            const loser = compareMTime(leftLeaf.mtime, rightLeaf.mtime) == TARGET_IS_NEW ? leftLeaf : rightLeaf;
+            return await this.core.$$resolveConflictByKeepingBoth(path, loser.rev, "keep-both");
+        }
         const isBinary = !isPlainText(path);
-        const alwaysNewer = this.settings.resolveConflictsByNewerFile;
-        if (isSame || isBinary || alwaysNewer) {
+        const alwaysNewer = policy ? policy == "newer" : this.settings.resolveConflictsByNewerFile;
+        // Binary files cannot be merged, but should be left to the user if the policy says so.
+        if (isSame || (isBinary && policy != "ask") || alwaysNewer) {
             const result = compareMTime(leftLeaf.mtime, rightLeaf.mtime);
             let loser = leftLeaf;
             // if (lMtime > rMtime) {
@@ -111,16 +190,175 @@ export class ModuleConflictResolver extends AbstractModule implements ICoreModul
             ].join(",");
             return await this.core.$$resolveConflictByDeletingRev(path, loser.rev, subTitle);
         }
-        // make diff.
+        const isJSON = isJSONDocument(path);
+        if (isJSON && isMergeEnabled && !leftLeaf.deleted && !rightLeaf.deleted) {
+            const merged = await this.tryJSONMerge(path, leftLeaf.rev, rightLeaf.rev, leftLeaf.data, rightLeaf.data);
+            if (merged !== false) {
+                if (!(await this.core.databaseFileAccess.storeContent(path, merged))) {
+                    this._log(`Merged content cannot be stored:${path}`, LOG_LEVEL_NOTICE);
+                    return MISSING_OR_ERROR;
+                }
+                return await this.core.$$resolveConflictByDeletingRev(path, rightLeaf.rev, "JSON");
+            }
+        }
+        let left = leftLeaf;
+        let right = rightLeaf;
+        let preMerged = false;
+        // Merging JSON line by line may break its structure.
+        if (!isJSON && isMergeEnabled && !leftLeaf.deleted && !rightLeaf.deleted) {
+            const merged = await this.tryThreeWayMerge(
+                path,
+                leftLeaf.rev,
+                rightLeaf.rev,
+                leftLeaf.data,
+                rightLeaf.data
+            );
+            if (merged && "merged" in merged) {
+                if (!(await this.core.databaseFileAccess.storeContent(path, merged.merged))) {
+                    this._log(`Merged content cannot be stored:${path}`, LOG_LEVEL_NOTICE);
+                    return MISSING_OR_ERROR;
+                }
+                return await this.core.$$resolveConflictByDeletingRev(path, rightLeaf.rev, "3-way");
+            }
+            if (merged) {
+                // Non-overlapping changes have been merged into both sides; only the rest should be resolved by the user.
+                this._log(`3-way merge: ${merged.conflicts} conflicted hunk(s) left in ${path}`, LOG_LEVEL_VERBOSE);
+                left = { ...leftLeaf, data: merged.left };
+                right = { ...rightLeaf, data: merged.right };
+                preMerged = true;
+            }
+        }
+        // make diff. Binary files are not compared; only their timestamps are shown.
         const dmp = new diff_match_patch();
-        const diff = dmp.diff_main(leftLeaf.data, rightLeaf.data);
+        const diff = isBinary ? [] : dmp.diff_main(left.data, right.data);
         dmp.diff_cleanupSemantic(diff);
         this._log(`conflict(s) found:${path}`);
         return {
-            left: leftLeaf,
-            right: rightLeaf,
+            left: left,
+            right: right,
             diff: diff,
+            preMerged: preMerged,
+        } as PreMergedDiffResult;
+    }
+
+    getConflictResolutionPolicy(path: FilePathWithPrefix): ConflictResolutionPolicy | undefined {
+        const { rules, errors } = parseConflictResolutionRules(this.settings.conflictResolutionRules);
+        if (errors.length > 0) {
+            this._log(`Some conflict resolution rules are invalid: ${errors.join(", ")}`, LOG_LEVEL_VERBOSE);
+        }
+        return getConflictResolutionPolicy(stripAllPrefixes(path), rules);
+    }
+
+    /**
+     * Find the revision which should be deleted to keep the local or the remote one.
+     * The local revision is the one which has the same modified time as the file on the storage.
+     * @returns false if it could not be determined.
+     */
+    async getLoserByOrigin(
+        path: FilePathWithPrefix,
+        leftLeaf: diff_result["left"],
+        rightLeaf: diff_result["right"],
+        keep: "local" | "remote"
+    ) {
+        const stat = await this.core.storageAccess.stat(stripAllPrefixes(path));
+        if (!stat) return false;
+        const isLeftLocal = compareMTime(stat.mtime, leftLeaf.mtime) == EVEN;
+        const isRightLocal = compareMTime(stat.mtime, rightLeaf.mtime) == EVEN;
+        if (isLeftLocal == isRightLocal) return false;
+        const localLeaf = isLeftLocal ? leftLeaf : rightLeaf;
+        const remoteLeaf = isLeftLocal ? rightLeaf : leftLeaf;
+        return keep == "local" ? remoteLeaf : localLeaf;
+    }
+
+    /**
+     * Find the nearest common ancestor of two revisions.
+     * @returns the revision, or false if they do not share any revision.
+     */
+    async getCommonAncestorRev(id: DocumentID, leftRev: string, rightRev: string): Promise<string | false> {
+        const getAncestors = async (rev: string) => {
+            const doc = await this.localDatabase.getRaw(id, { rev, revs: true });
+            const revisions = doc._revisions;
+            if (!revisions) return [rev];
+            return revisions.ids.map((e, i) => `${revisions.start - i}-${e}`);
         };
+        try {
+            const leftAncestors = await getAncestors(leftRev);
+            const rightAncestors = new Set(await getAncestors(rightRev));
+            return leftAncestors.find((e) => rightAncestors.has(e)) ?? false;
+        } catch (ex) {
+            this._log(`Could not read the revision history of ${id}`, LOG_LEVEL_VERBOSE);
+            this._log(ex, LOG_LEVEL_VERBOSE);
+            return false;
+        }
+    }
+
+    /**
+     * Read the content of the nearest common ancestor of two revisions.
+     * @returns false if the common ancestor is not available (e.g., it has been compacted).
+     */
+    async getCommonAncestorContent(
+        path: FilePathWithPrefix,
+        leftRev: string,
+        rightRev: string
+    ): Promise<string | false> {
+        const id = await this.core.$$path2id(path);
+        const baseRev = await this.getCommonAncestorRev(id, leftRev, rightRev);
+        if (!baseRev) {
+            this._log(`No common ancestor of ${path}`, LOG_LEVEL_VERBOSE);
+            return false;
+        }
+        const base = await this.localDatabase.getDBEntry(path, { rev: baseRev }, false, false, true);
+        if (base === false || base.deleted) {
+            this._log(`The common ancestor ${displayRev(baseRev)} of ${path} is not available`, LOG_LEVEL_VERBOSE);
+            return false;
+        }
+        return getDocData(base.data);
+    }
+
+    /**
+     * Merge two conflicted revisions by the content of their common ancestor.
+     * @returns false if the common ancestor is not available.
+     */
+    async tryThreeWayMerge(
+        path: FilePathWithPrefix,
+        leftRev: string,
+        rightRev: string,
+        leftData: string,
+        rightData: string
+    ): Promise<ThreeWayMergeResult | false> {
+        const base = await this.getCommonAncestorContent(path, leftRev, rightRev);
+        if (base === false) return false;
+        return threeWayMerge(base, leftData, rightData);
+    }
+
+    /**
+     * Merge two conflicted revisions of the JSON document, by keys and `id`s of items.
+     * @returns the merged text, or false if they could not be merged automatically.
+     */
+    async tryJSONMerge(
+        path: FilePathWithPrefix,
+        leftRev: string,
+        rightRev: string,
+        leftData: string,
+        rightData: string
+    ): Promise<string | false> {
+        try {
+            const base = await this.getCommonAncestorContent(path, leftRev, rightRev);
+            const merged = mergeJSON(
+                base === false ? undefined : JSON.parse(base),
+                JSON.parse(leftData),
+                JSON.parse(rightData)
+            );
+            if (merged === false) {
+                this._log(`JSON merge: Some values have been changed on both sides: ${path}`, LOG_LEVEL_VERBOSE);
+                return false;
+            }
+            return JSON.stringify(merged, null, detectJSONIndent(leftData)) + (leftData.endsWith("\n") ? "\n" : "");
+        } catch (ex) {
+            this._log(`JSON merge: Could not parse ${path}`, LOG_LEVEL_VERBOSE);
+            this._log(ex, LOG_LEVEL_VERBOSE);
+            return false;
+        }
     }
 
     async $$resolveConflict(filename: FilePathWithPrefix): Promise<void> {
@@ -149,6 +387,7 @@ export class ModuleConflictResolver extends AbstractModule implements ICoreModul
             if (this.settings.showMergeDialogOnlyOnActive) {
                 const af = this.core.$$getActiveFilePath();
                 if (af && af != filename) {
+                    this.core.$$recordConflictDecisionToJournal(filename, "postponed");
                     this._log(
                         `[conflict] ${filename} is conflicted. Merging process has been postponed to the file have got opened.`,
                         LOG_LEVEL_NOTICE
@@ -157,6 +396,7 @@ export class ModuleConflictResolver extends AbstractModule implements ICoreModul
                 }
             }
             this._log("[conflict] Manual merge required!");
+            this.core.$$recordConflictDecisionToJournal(filename, "manual");
             eventHub.emitEvent("conflict-cancelled", filename);
             await this.core.$anyResolveConflictByUI(filename, conflictCheckResult);
         });
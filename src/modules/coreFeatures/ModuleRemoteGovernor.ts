@@ -1,6 +1,20 @@
+import { LOG_LEVEL_NOTICE, LOG_LEVEL_VERBOSE } from "octagonal-wheels/common/logger";
+import {
+    MILSTONE_DOCID,
+    REMOTE_MINIO,
+    REMOTE_P2P,
+    type EntryMilestoneInfo,
+    type RemoteDBSettings,
+} from "../../lib/src/common/types.ts";
+import { LiveSyncCouchDBReplicator } from "../../lib/src/replication/couchdb/LiveSyncReplicator.ts";
 import { AbstractModule } from "../AbstractModule.ts";
 import type { ICoreModule } from "../ModuleTypes.ts";
 
+type RevocableMilestoneInfo = EntryMilestoneInfo & {
+    // Identifiers of the setup URIs which have been revoked.
+    revoked_setup_uris?: string[];
+};
+
 export class ModuleRemoteGovernor extends AbstractModule implements ICoreModule {
     async $$markRemoteLocked(lockByClean: boolean = false): Promise<void> {
         return await this.core.replicator.markRemoteLocked(this.settings, true, lockByClean);
@@ -13,4 +27,62 @@ export class ModuleRemoteGovernor extends AbstractModule implements ICoreModule
     async $$markRemoteResolved(): Promise<void> {
         return await this.core.replicator.markRemoteResolved(this.settings);
     }
+
+    async connectRemoteForMilestone(settings: RemoteDBSettings) {
+        // Only CouchDB has the milestone document which can be modified.
+        if (settings.remoteType == REMOTE_MINIO || settings.remoteType == REMOTE_P2P) return false;
+        const replicator = await this.core.$anyNewReplicator(settings);
+        if (!(replicator instanceof LiveSyncCouchDBReplicator)) return false;
+        const ret = await replicator.connectRemoteCouchDBWithSetting(settings, this.core.$$isMobile(), false);
+        if (typeof ret == "string") {
+            this._log(`Could not connect to the remote database: ${ret}`, LOG_LEVEL_VERBOSE);
+            return false;
+        }
+        return ret.db;
+    }
+
+    /**
+     * Fetch the identifiers of the revoked setup URIs from the milestone document of the remote.
+     * @param settings the settings to connect to the remote, which may not be the current ones (e.g., in the setup).
+     * @returns the identifiers, or false if they could not be fetched.
+     */
+    async $$fetchRevokedSetupURIs(settings: RemoteDBSettings): Promise<string[] | false> {
+        try {
+            const db = await this.connectRemoteForMilestone(settings);
+            if (!db) return false;
+            const milestone = (await db.get(MILSTONE_DOCID)) as RevocableMilestoneInfo;
+            return milestone.revoked_setup_uris ?? [];
+        } catch (ex: any) {
+            // The remote has not been initialised yet; nothing could have been revoked.
+            if (ex?.status == 404) return [];
+            this._log("Could not fetch the revoked setup URIs", LOG_LEVEL_VERBOSE);
+            this._log(ex, LOG_LEVEL_VERBOSE);
+            return false;
+        }
+    }
+
+    async $$revokeSetupURI(id: string): Promise<boolean> {
+        try {
+            const db = await this.connectRemoteForMilestone(this.settings);
+            if (!db) {
+                this._log("Could not revoke the setup URI: the remote database is not available", LOG_LEVEL_NOTICE);
+                return false;
+            }
+            const milestone = (await db.get(MILSTONE_DOCID)) as RevocableMilestoneInfo;
+            const revoked = milestone.revoked_setup_uris ?? [];
+            if (!revoked.includes(id)) {
+                await db.put({ ...milestone, revoked_setup_uris: [...revoked, id] } as EntryMilestoneInfo);
+            }
+            this._log(`Setup URI ${id} has been revoked`, LOG_LEVEL_NOTICE);
+            return true;
+        } catch (ex: any) {
+            if (ex?.status == 404) {
+                this._log("Could not revoke the setup URI: the remote database is not initialised", LOG_LEVEL_NOTICE);
+            } else {
+                this._log("Could not revoke the setup URI", LOG_LEVEL_NOTICE);
+            }
+            this._log(ex, LOG_LEVEL_VERBOSE);
+            return false;
+        }
+    }
 }
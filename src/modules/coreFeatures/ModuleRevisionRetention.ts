@@ -0,0 +1,139 @@
+import { LOG_LEVEL_NOTICE, LOG_LEVEL_VERBOSE } from "octagonal-wheels/common/logger";
+import { serialized } from "octagonal-wheels/concurrency/lock";
+import type { AnyEntry, DocumentID, EntryDoc, FilePathWithPrefix } from "../../lib/src/common/types.ts";
+import { CHeader } from "../../common/types.ts";
+import { getPath, parseRevisionRetentionPolicy, selectRetainedRevisions } from "../../common/utils.ts";
+import { AbstractModule } from "../AbstractModule.ts";
+import type { ICoreModule } from "../ModuleTypes.ts";
+
+// Pins are kept in the `_local` document, hence they are only effective on this device.
+const PINNED_REVISIONS_ID = "_local/livesync-pinned-revisions";
+
+export type PinnedRevision = {
+    id: DocumentID;
+    path: FilePathWithPrefix;
+    rev: string;
+    pinned: number;
+};
+type PinnedRevisionsDoc = {
+    _id: typeof PINNED_REVISIONS_ID;
+    _rev?: string;
+    pins: PinnedRevision[];
+};
+type RevisionWithChunks = PouchDB.Core.ExistingDocument<{ mtime?: number; children?: string[] }>;
+
+/**
+ * Decide which revisions should be kept in the history, by the retention policy and the pinned revisions.
+ * The garbage collection keeps the chunks of them; others become unused even if PouchDB still has the revisions.
+ */
+export class ModuleRevisionRetention extends AbstractModule implements ICoreModule {
+    get database() {
+        return this.localDatabase.localDatabase;
+    }
+
+    async getPinnedRevisionsDoc(): Promise<PinnedRevisionsDoc> {
+        try {
+            return (await this.database.get(PINNED_REVISIONS_ID)) as unknown as PinnedRevisionsDoc;
+        } catch (ex: any) {
+            if (ex?.status != 404) throw ex;
+            return { _id: PINNED_REVISIONS_ID, pins: [] };
+        }
+    }
+
+    async $$getPinnedRevisions(): Promise<PinnedRevision[]> {
+        return (await this.getPinnedRevisionsDoc()).pins;
+    }
+
+    async $$setRevisionPinned(id: DocumentID, path: FilePathWithPrefix, rev: string, pinned: boolean): Promise<void> {
+        await serialized("pinned-revisions", async () => {
+            const doc = await this.getPinnedRevisionsDoc();
+            doc.pins = doc.pins.filter((e) => !(e.id == id && e.rev == rev));
+            if (pinned) doc.pins.push({ id, path, rev, pinned: Date.now() });
+            await this.database.put(doc as unknown as EntryDoc);
+        });
+        this._log(`${path} (${rev}) has been ${pinned ? "pinned" : "unpinned"}`, LOG_LEVEL_NOTICE);
+    }
+
+    /**
+     * Collect the chunks which are used by the revisions to keep: leaf revisions (including conflicted ones),
+     * revisions which are kept by the retention policy, pinned revisions, and revisions which other features keep
+     * (e.g., vault snapshots) by `$everyCollectRetainedRevisions`.
+     */
+    async $$collectRetainedChunks(): Promise<Set<string>> {
+        const { rules, errors } = parseRevisionRetentionPolicy(this.settings.revisionRetentionPolicy);
+        if (errors.length > 0) {
+            this._log(`Invalid retention rules are ignored: ${errors.join(", ")}`, LOG_LEVEL_NOTICE);
+        }
+        const pins = await this.$$getPinnedRevisions();
+        const recorded = new Map<FilePathWithPrefix, Set<string>>();
+        if (!(await this.core.$everyCollectRetainedRevisions(recorded))) {
+            // Otherwise, the revisions which should be kept would become unrestorable.
+            this._log(
+                "Could not collect the revisions to keep. Garbage collection has been cancelled",
+                LOG_LEVEL_NOTICE
+            );
+            throw new Error("Could not collect the revisions to keep");
+        }
+        const chunks = new Set<string>();
+        const addChunks = (doc: RevisionWithChunks) => doc.children?.forEach((e) => chunks.add(e));
+        const docs = await this.database.allDocs({ conflicts: true, include_docs: true });
+        for (const row of docs.rows) {
+            if (!row.doc || row.id.startsWith(CHeader) || row.id.startsWith("_design/")) continue;
+            const doc = row.doc as unknown as RevisionWithChunks & { _conflicts?: string[] };
+            addChunks(doc);
+            for (const rev of doc._conflicts ?? []) {
+                addChunks((await this.database.get(row.id, { rev })) as unknown as RevisionWithChunks);
+            }
+            const pinned = [
+                ...pins.filter((e) => e.id == row.id).map((e) => e.rev),
+                ...(recorded.get(getPath(row.doc as unknown as AnyEntry)) ?? []),
+            ];
+            if (rules.length == 0 && pinned.length == 0) continue;
+            const history = [] as RevisionWithChunks[];
+            try {
+                const current = await this.database.get(row.id, { revs_info: true });
+                for (const info of current._revs_info ?? []) {
+                    if (info.status != "available" || info.rev == doc._rev) continue;
+                    history.push((await this.database.get(row.id, { rev: info.rev })) as unknown as RevisionWithChunks);
+                }
+            } catch (ex) {
+                this._log(`Could not read the history of ${row.id}`, LOG_LEVEL_VERBOSE);
+                this._log(ex, LOG_LEVEL_VERBOSE);
+                continue;
+            }
+            const retained = selectRetainedRevisions(
+                history.map((e) => ({ rev: e._rev, mtime: e.mtime ?? 0 })),
+                rules
+            );
+            for (const revision of history) {
+                if (retained.has(revision._rev) || pinned.includes(revision._rev)) addChunks(revision);
+            }
+        }
+        return chunks;
+    }
+
+    async $everyModuleTest(): Promise<boolean> {
+        if (!this.settings.enableDebugTools) return Promise.resolve(true);
+        await this._test("revisionRetentionPolicy", () => {
+            const { rules, errors } = parseRevisionRetentionPolicy("monthly forever\nall 7d\ndaily 3m\nyearly 1y");
+            if (errors.length != 1) return Promise.resolve(`Invalid rules are not detected: ${errors.join(", ")}`);
+            const now = new Date(2024, 5, 15, 12).getTime();
+            const at = (month: number, date: number, hour: number) => new Date(2024, month, date, hour).getTime();
+            const revisions = [
+                // Within 7 days: all of them are kept.
+                { rev: "10-a", mtime: at(5, 15, 10) },
+                { rev: "9-a", mtime: at(5, 15, 9) },
+                // Within 3 months: the newest one in each day.
+                { rev: "8-a", mtime: at(5, 1, 20) },
+                { rev: "7-a", mtime: at(5, 1, 10) },
+                // Older: the newest one in each month.
+                { rev: "6-a", mtime: at(0, 20, 10) },
+                { rev: "5-a", mtime: at(0, 10, 10) },
+            ];
+            const retained = [...selectRetainedRevisions(revisions, rules, now)].sort().join(",");
+            const expected = "10-a,6-a,8-a,9-a";
+            return Promise.resolve(retained == expected ? true : `Mismatched: ${retained}`);
+        });
+        return this.testDone();
+    }
+}
@@ -0,0 +1,298 @@
+import { LOG_LEVEL_INFO, LOG_LEVEL_VERBOSE } from "octagonal-wheels/common/logger";
+import type {
+    FilePath,
+    FilePathWithPrefix,
+    UXDataWriteOptions,
+    UXFileInfo,
+    UXFileInfoStub,
+    UXFolderInfo,
+    UXStat,
+} from "../../lib/src/common/types";
+import { createBlob } from "../../lib/src/common/utils";
+import type { FileEventItem } from "../../common/types.ts";
+import { AbstractHeadlessModule } from "../AbstractHeadlessModule.ts";
+import type { ICoreModule } from "../ModuleTypes.ts";
+import type { StorageAccess } from "../interfaces/StorageAccess";
+import type { HeadlessFileAccess } from "./storageLib/HeadlessFileAccess.ts";
+import { StorageEventManagerHeadless } from "./storageLib/StorageEventManagerHeadless.ts";
+import type { HeadlessLiveSync } from "../../headless/HeadlessLiveSync.ts";
+
+function toStub(path: string, stat: UXStat, deleted?: boolean): UXFileInfoStub {
+    return {
+        name: path.split("/").pop() as string,
+        path: path as FilePathWithPrefix,
+        isFolder: false,
+        stat,
+        deleted,
+    };
+}
+
+/**
+ * `StorageAccess` on the storage of the host; the plain directory, which is mirrored by the headless runtime, or the
+ * in-memory vault of the tests.
+ */
+export class ModuleFileAccessHeadless extends AbstractHeadlessModule implements ICoreModule, StorageAccess {
+    vaultAccess!: HeadlessFileAccess;
+    vaultManager!: StorageEventManagerHeadless;
+
+    constructor(host: HeadlessLiveSync) {
+        super(host, host);
+    }
+
+    async $everyOnloadStart(): Promise<boolean> {
+        this.vaultAccess = this.host.createVaultAccess();
+        this.vaultManager = new StorageEventManagerHeadless(this.core, this.vaultAccess);
+        await this.vaultAccess.scan();
+        this._log(`${this.vaultAccess.files.size} files have been found in the vault`, LOG_LEVEL_INFO);
+        return true;
+    }
+    $everyOnload(): Promise<boolean> {
+        this.core.storageAccess = this;
+        return Promise.resolve(true);
+    }
+    $everyOnFirstInitialize(): Promise<boolean> {
+        this.vaultManager.beginWatch();
+        return Promise.resolve(true);
+    }
+    $allOnUnload(): Promise<boolean> {
+        this.vaultAccess?.endWatch();
+        return Promise.resolve(true);
+    }
+
+    $$getPendingFileEvents(): FileEventItem[] {
+        return this.vaultManager.getPendingItems();
+    }
+
+    $everyCommitPendingFileEvent(): Promise<boolean> {
+        this.vaultManager.flushQueue();
+        return Promise.resolve(true);
+    }
+
+    $$isStorageInsensitive(): boolean {
+        return this.vaultAccess.isStorageInsensitive();
+    }
+
+    $$shouldCheckCaseInsensitive(): boolean {
+        if (this.$$isStorageInsensitive()) return false;
+        return !this.settings.handleFilenameCaseSensitive;
+    }
+
+    async writeFileAuto(path: string, data: string | ArrayBuffer, opt?: UXDataWriteOptions): Promise<boolean> {
+        if ((await this.vaultAccess.tryAdapterStat(path))?.type == "folder") {
+            this._log(`Could not write file (Possibly already exists as a folder): ${path}`, LOG_LEVEL_VERBOSE);
+            return false;
+        }
+        return await this.vaultAccess.adapterWrite(this.vaultAccess.resolve(path) ?? path, data, opt?.mtime);
+    }
+    readFileAuto(path: string): Promise<string | ArrayBuffer> {
+        const file = this.vaultAccess.resolve(path);
+        if (file === undefined) throw new Error(`Could not read file (Possibly does not exist): ${path}`);
+        return this.vaultAccess.adapterReadAuto(file);
+    }
+    readFileText(path: string): Promise<string> {
+        const file = this.vaultAccess.resolve(path);
+        if (file === undefined) throw new Error(`Could not read file (Possibly does not exist): ${path}`);
+        return this.vaultAccess.adapterRead(file);
+    }
+    isExists(path: string): Promise<boolean> {
+        return Promise.resolve(this.vaultAccess.resolve(path) !== undefined);
+    }
+    async writeHiddenFileAuto(path: string, data: string | ArrayBuffer, opt?: UXDataWriteOptions): Promise<boolean> {
+        try {
+            return await this.vaultAccess.adapterWrite(path, data, opt?.mtime);
+        } catch (e) {
+            this._log(`Could not write hidden file: ${path}`, LOG_LEVEL_VERBOSE);
+            this._log(e, LOG_LEVEL_VERBOSE);
+            return false;
+        }
+    }
+    async appendHiddenFile(path: string, data: string | ArrayBuffer, opt?: UXDataWriteOptions): Promise<boolean> {
+        try {
+            await this.vaultAccess.adapterAppend(path, data);
+            return true;
+        } catch (e) {
+            this._log(`Could not append hidden file: ${path}`, LOG_LEVEL_VERBOSE);
+            this._log(e, LOG_LEVEL_VERBOSE);
+            return false;
+        }
+    }
+    stat(path: string): Promise<UXStat | null> {
+        return Promise.resolve(this.vaultAccess.getStat(path));
+    }
+    statHidden(path: string): Promise<UXStat | null> {
+        return this.vaultAccess.tryAdapterStat(path);
+    }
+    async removeHidden(path: string): Promise<boolean> {
+        try {
+            await this.vaultAccess.adapterRemove(path);
+            return (await this.vaultAccess.tryAdapterStat(path)) === null;
+        } catch (e) {
+            this._log(`Could not remove hidden file: ${path}`, LOG_LEVEL_VERBOSE);
+            this._log(e, LOG_LEVEL_VERBOSE);
+            return false;
+        }
+    }
+    async readHiddenFileAuto(path: string): Promise<string | ArrayBuffer> {
+        return await this.vaultAccess.adapterReadAuto(path);
+    }
+    async readHiddenFileText(path: string): Promise<string> {
+        return await this.vaultAccess.adapterRead(path);
+    }
+    async readHiddenFileBinary(path: string): Promise<ArrayBuffer> {
+        return await this.vaultAccess.adapterReadBinary(path);
+    }
+    async isExistsIncludeHidden(path: string): Promise<boolean> {
+        return (await this.vaultAccess.tryAdapterStat(path)) !== null;
+    }
+    async ensureDir(path: string): Promise<boolean> {
+        try {
+            await this.vaultAccess.ensureDirectory(path);
+            return true;
+        } catch (e) {
+            this._log(`Could not ensure directory: ${path}`, LOG_LEVEL_VERBOSE);
+            this._log(e, LOG_LEVEL_VERBOSE);
+            return false;
+        }
+    }
+    triggerFileEvent(event: string, path: string): void {
+        // There are no other listeners on the headless runtime.
+    }
+    async triggerHiddenFile(path: string): Promise<void> {
+        // Hidden files are read from the storage directly, hence there is nothing to reconcile.
+    }
+
+    getFileStub(path: string): UXFileInfoStub | null {
+        const file = this.vaultAccess.resolve(path);
+        return file === undefined ? null : toStub(file, this.vaultAccess.getStat(file)!);
+    }
+    async readStubContent(stub: UXFileInfoStub): Promise<UXFileInfo | false> {
+        const file = this.vaultAccess.resolve(stub.path);
+        if (file === undefined) {
+            this._log(`Could not read file (Possibly does not exist or a folder): ${stub.path}`, LOG_LEVEL_VERBOSE);
+            return false;
+        }
+        const data = await this.vaultAccess.adapterReadAuto(file);
+        return {
+            ...stub,
+            body: createBlob(data),
+        };
+    }
+    getStub(path: string): UXFileInfoStub | UXFolderInfo | null {
+        const file = this.getFileStub(path);
+        if (file) return file;
+        const children = this.getFiles().filter((e) => e.path.startsWith(`${path}/`));
+        if (children.length == 0) return null;
+        return {
+            name: path.split("/").pop() as string,
+            path: path as FilePathWithPrefix,
+            parent: path.split("/").slice(0, -1).join("/") as FilePath,
+            isFolder: true,
+            children: children.filter((e) => !e.path.substring(path.length + 1).includes("/")),
+        };
+    }
+    getFiles(): UXFileInfoStub[] {
+        return this.vaultAccess.getFiles().map((e) => toStub(e.path, e.stat));
+    }
+    getFileNames(): FilePath[] {
+        return this.vaultAccess.getFiles().map((e) => e.path);
+    }
+
+    async getFilesIncludeHidden(
+        basePath: string,
+        includeFilter?: RegExp[],
+        excludeFilter?: RegExp[],
+        skipFolder: string[] = [".git", ".trash", "node_modules"]
+    ): Promise<FilePath[]> {
+        let w: { files: string[]; folders: string[] };
+        try {
+            w = await this.vaultAccess.adapterList(basePath);
+        } catch (ex) {
+            this._log(`Could not traverse(getFilesIncludeHidden):${basePath}`, LOG_LEVEL_INFO);
+            this._log(ex, LOG_LEVEL_VERBOSE);
+            return [];
+        }
+        skipFolder = skipFolder.map((e) => e.toLowerCase());
+        const isIncluded = (path: string) => !includeFilter || includeFilter.some((e) => path.match(e));
+        const isExcluded = (path: string) => !!excludeFilter && excludeFilter.some((e) => path.match(e));
+
+        let files = [] as string[];
+        for (const file of w.files) {
+            // If excludeFilter and includeFilter are both set, the file will be included in the list.
+            if (isExcluded(file) && !includeFilter) continue;
+            if (!isIncluded(file)) continue;
+            if (await this.core.$$isIgnoredByIgnoreFiles(file)) continue;
+            files.push(file);
+        }
+        for (const v of w.folders) {
+            const folderName = (v.split("/").pop() ?? "").toLowerCase();
+            if (skipFolder.some((e) => folderName === e)) continue;
+            if (!isIncluded(v)) continue;
+            files = files.concat(await this.getFilesIncludeHidden(v, includeFilter, excludeFilter, skipFolder));
+        }
+        return files as FilePath[];
+    }
+
+    touched(file: UXFileInfoStub | FilePathWithPrefix): void {
+        const path = typeof file === "string" ? file : file.path;
+        this.vaultAccess.touch(path as FilePath);
+    }
+    recentlyTouched(file: UXFileInfoStub | FilePathWithPrefix): boolean {
+        const path = typeof file === "string" ? file : file.path;
+        return this.vaultAccess.recentlyTouched(path as FilePath);
+    }
+    clearTouched(): void {
+        this.vaultAccess.clearTouched();
+    }
+
+    async delete(file: FilePathWithPrefix | UXFileInfoStub | string, force: boolean): Promise<void> {
+        const path = typeof file === "string" ? file : file.path;
+        await this.vaultAccess.delete(this.vaultAccess.resolve(path) ?? path);
+    }
+    async trash(file: FilePathWithPrefix | UXFileInfoStub | string, system: boolean): Promise<void> {
+        const path = typeof file === "string" ? file : file.path;
+        await this.vaultAccess.trash(this.vaultAccess.resolve(path) ?? path);
+    }
+
+    async deleteVaultItem(fileSrc: FilePathWithPrefix | UXFileInfoStub | UXFolderInfo): Promise<void> {
+        const path = typeof fileSrc === "string" ? fileSrc : fileSrc.path;
+        const file = this.vaultAccess.resolve(path);
+        if (file === undefined) return;
+        if (!(await this.core.$$isTargetFile(file))) return;
+        if (this.settings.trashInsteadDelete) {
+            await this.vaultAccess.trash(file);
+        } else {
+            await this.vaultAccess.delete(file);
+        }
+        this._log(`xxx <- STORAGE (deleted) ${file}`);
+        // Remove the parent directories which have become empty, as the plug-in does.
+        let dir = file.split("/").slice(0, -1);
+        while (dir.length > 0 && !this.settings.doNotDeleteFolder) {
+            if (!(await this.vaultAccess.isEmptyDirectory(dir.join("/")))) break;
+            this._log(`All files under the parent directory (${dir.join("/")}) have been deleted, so delete this one.`);
+            await this.vaultAccess.delete(dir.join("/"));
+            dir = dir.slice(0, -1);
+        }
+    }
+
+    async renameVaultItem(fileSrc: FilePathWithPrefix | UXFileInfoStub, newPath: FilePathWithPrefix): Promise<boolean> {
+        const path = typeof fileSrc === "string" ? fileSrc : fileSrc.path;
+        const file = this.vaultAccess.resolve(path);
+        if (file === undefined) {
+            this._log(`Could not rename file (Possibly does not exist or a folder): ${path}`, LOG_LEVEL_VERBOSE);
+            return false;
+        }
+        if ((await this.vaultAccess.tryAdapterStat(newPath)) !== null) {
+            this._log(`Could not rename file (Destination already exists): ${path} -> ${newPath}`, LOG_LEVEL_VERBOSE);
+            return false;
+        }
+        try {
+            await this.vaultAccess.rename(file, newPath);
+            this._log(`${path} -> STORAGE (renamed) ${newPath}`);
+            return true;
+        } catch (e) {
+            this._log(`Could not rename file: ${path} -> ${newPath}`, LOG_LEVEL_VERBOSE);
+            this._log(e, LOG_LEVEL_VERBOSE);
+            return false;
+        }
+    }
+}
@@ -0,0 +1,30 @@
+import { basename } from "node:path";
+import type { FilePathWithPrefix } from "../../lib/src/common/types.ts";
+import type { HeadlessLiveSync } from "../../headless/HeadlessLiveSync.ts";
+import { ModuleObsidianAPI } from "../essentialObsidian/ModuleObsidianAPI.ts";
+
+/**
+ * The connection to the remote is the same as the plug-in's one; `requestUrl` is performed by `fetch` of Node.js.
+ * Only the things which are asked to the app are answered by the options of the headless runtime.
+ */
+export class ModuleHeadlessAPI extends ModuleObsidianAPI {
+    constructor(public host: HeadlessLiveSync) {
+        super(host, host);
+    }
+
+    $$isMobile(): boolean {
+        return false;
+    }
+
+    $$vaultName(): string {
+        return this.host.options.vaultName || basename(this.host.options.vaultDir);
+    }
+
+    $$getActiveFilePath(): FilePathWithPrefix | undefined {
+        return undefined;
+    }
+
+    $anyGetAppId(): Promise<string | undefined> {
+        return Promise.resolve(undefined);
+    }
+}
@@ -0,0 +1,33 @@
+import { LOG_LEVEL_NOTICE, LOG_LEVEL_VERBOSE } from "octagonal-wheels/common/logger";
+import { scheduleTask } from "octagonal-wheels/concurrency/task";
+import type { HeadlessLiveSync } from "../../headless/HeadlessLiveSync.ts";
+import { AbstractHeadlessModule } from "../AbstractHeadlessModule.ts";
+import type { ICoreModule } from "../ModuleTypes.ts";
+
+/**
+ * Reloading Obsidian means restarting the runtime: all modules are unloaded and loaded again with the saved settings.
+ */
+export class ModuleHeadlessEvents extends AbstractHeadlessModule implements ICoreModule {
+    constructor(host: HeadlessLiveSync) {
+        super(host, host);
+    }
+
+    $$performRestart() {
+        void this.host.restart();
+    }
+
+    $$askReload(message?: string) {
+        // No one can answer; restart as if "restart immediately" has been chosen.
+        this._log(message || "The runtime will be restarted to apply the settings", LOG_LEVEL_NOTICE);
+        this.core.$$scheduleAppReload();
+    }
+
+    $$scheduleAppReload() {
+        scheduleTask("configReload", 250, () => this.core.$$performRestart());
+    }
+
+    $$showView(viewType: string): Promise<void> {
+        this._log(`${viewType} is not available on the headless runtime`, LOG_LEVEL_VERBOSE);
+        return Promise.resolve();
+    }
+}
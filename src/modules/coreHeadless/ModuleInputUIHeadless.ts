@@ -0,0 +1,68 @@
+import { LOG_LEVEL_NOTICE } from "octagonal-wheels/common/logger";
+import type { Confirm } from "../../lib/src/interfaces/Confirm.ts";
+import type { HeadlessLiveSync } from "../../headless/HeadlessLiveSync.ts";
+import { AbstractHeadlessModule } from "../AbstractHeadlessModule.ts";
+import type { ICoreModule } from "../ModuleTypes.ts";
+
+/**
+ * No one can answer on the headless runtime. Every question is logged, and answered by its default, or declined.
+ * Hence, the operations which need the user's decision (e.g., rebuilding) are never performed by the runtime itself.
+ */
+export class ModuleInputUIHeadless extends AbstractHeadlessModule implements ICoreModule, Confirm {
+    constructor(host: HeadlessLiveSync) {
+        super(host, host);
+    }
+
+    $everyOnload(): Promise<boolean> {
+        this.core.confirm = this;
+        return Promise.resolve(true);
+    }
+
+    _answered<T>(question: string, answer: T): Promise<T> {
+        this._log(
+            `${question}\n-> Answered automatically: ${answer === false ? "(Cancelled)" : answer}`,
+            LOG_LEVEL_NOTICE
+        );
+        return Promise.resolve(answer);
+    }
+
+    askYesNo(message: string): Promise<"yes" | "no"> {
+        return this._answered(message, "no");
+    }
+    askString(title: string, key: string, placeholder: string, isPassword: boolean = false): Promise<string | false> {
+        return this._answered(`${title}: ${key}`, false);
+    }
+
+    askYesNoDialog(
+        message: string,
+        opt: { title?: string; defaultOption?: "Yes" | "No"; timeout?: number } = { title: "Confirmation" }
+    ): Promise<"yes" | "no"> {
+        return this._answered(message, opt.defaultOption === "Yes" ? "yes" : "no");
+    }
+
+    askSelectString(message: string, items: string[]): Promise<string> {
+        return this._answered(message, "");
+    }
+
+    askSelectStringDialogue<T extends readonly string[]>(
+        message: string,
+        buttons: T,
+        opt: { title?: string; defaultAction: T[number]; timeout?: number }
+    ): Promise<T[number] | false> {
+        return this._answered(message, opt.defaultAction);
+    }
+
+    askInPopup(key: string, dialogText: string, anchorCallback: (anchor: HTMLAnchorElement) => void) {
+        this._log(dialogText.replace("{HERE}", ""), LOG_LEVEL_NOTICE);
+    }
+
+    confirmWithMessage(
+        title: string,
+        contentMd: string,
+        buttons: string[],
+        defaultAction: (typeof buttons)[number],
+        timeout?: number
+    ): Promise<(typeof buttons)[number] | false> {
+        return this._answered(`${title}\n${contentMd}`, defaultAction);
+    }
+}
@@ -0,0 +1,124 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, rmSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { LOG_LEVEL_NOTICE, LOG_LEVEL_VERBOSE } from "octagonal-wheels/common/logger";
+import type { KeyValueDatabase } from "../../common/KeyValueDB.ts";
+import type { LiveSyncLocalDB } from "../../lib/src/pouchdb/LiveSyncLocalDB.ts";
+import { ModuleKeyValueDB } from "../essential/ModuleKeyValueDB.ts";
+import type { HeadlessLiveSync } from "../../headless/HeadlessLiveSync.ts";
+
+// Writes are gathered and flushed after this delay, as the database is written on every file event.
+const FLUSH_DELAY = 1000;
+
+/**
+ * `KeyValueDatabase` on a JSON file, instead of IndexedDB. Values should be serialisable as JSON.
+ * If the file is not given, the database is kept only on memory.
+ */
+export function OpenKeyValueDatabaseOnFile(file?: string): KeyValueDatabase {
+    const items = new Map<string, unknown>(
+        file && existsSync(file) ? Object.entries(JSON.parse(readFileSync(file, "utf-8"))) : []
+    );
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const flush = () => {
+        if (timer) clearTimeout(timer);
+        timer = undefined;
+        if (!file) return;
+        mkdirSync(dirname(file), { recursive: true });
+        writeFileSync(`${file}.tmp`, JSON.stringify(Object.fromEntries(items)));
+        renameSync(`${file}.tmp`, file);
+    };
+    const scheduleFlush = () => {
+        if (file && !timer) timer = setTimeout(flush, FLUSH_DELAY);
+    };
+    return {
+        get<T>(key: IDBValidKey): Promise<T> {
+            return Promise.resolve(items.get(`${key}`) as T);
+        },
+        set<T>(key: IDBValidKey, value: T) {
+            items.set(`${key}`, value);
+            scheduleFlush();
+            return Promise.resolve(key);
+        },
+        del(key: IDBValidKey) {
+            items.delete(`${key}`);
+            scheduleFlush();
+            return Promise.resolve();
+        },
+        clear() {
+            items.clear();
+            scheduleFlush();
+            return Promise.resolve();
+        },
+        keys(query?: IDBValidKey | IDBKeyRange, count?: number) {
+            // Only the bounds are respected, as `IDBKeyRange` is not available on Node.js.
+            const range = query as { lower?: string; upper?: string } | undefined;
+            const keys = [...items.keys()]
+                .filter((e) => range?.lower === undefined || e >= range.lower)
+                .filter((e) => range?.upper === undefined || e <= range.upper)
+                .sort();
+            return Promise.resolve(count ? keys.slice(0, count) : keys);
+        },
+        close() {
+            if (timer) flush();
+        },
+        destroy() {
+            if (timer) clearTimeout(timer);
+            timer = undefined;
+            items.clear();
+            if (file) rmSync(file, { force: true });
+            return Promise.resolve();
+        },
+    };
+}
+
+export class ModuleKeyValueDBHeadless extends ModuleKeyValueDB {
+    constructor(public host: HeadlessLiveSync) {
+        super(host);
+    }
+
+    // The same as the local database, nothing is written with the `memory` adapter.
+    get kvFile() {
+        if (this.host.options.adapter == "memory") return undefined;
+        return join(this.host.options.dataDir, `${this.core.$$getVaultName()}-livesync-kv.json`);
+    }
+
+    openKeyValueDB(): Promise<boolean> {
+        try {
+            this.tryCloseKvDB();
+            this.core.kvDB = OpenKeyValueDatabaseOnFile(this.kvFile);
+        } catch (e) {
+            this.core.kvDB = undefined!;
+            this._log("Failed to open KeyValueDB", LOG_LEVEL_NOTICE);
+            this._log(e, LOG_LEVEL_VERBOSE);
+            return Promise.resolve(false);
+        }
+        return Promise.resolve(true);
+    }
+
+    $$getSimpleStore<T>(kind: string) {
+        const store = super.$$getSimpleStore<T>(kind);
+        const prefix = `${kind}-`;
+        return {
+            ...store,
+            keys: async (from: string | undefined, to: string | undefined, count?: number): Promise<string[]> => {
+                const range = { lower: `${prefix}${from || ""}`, upper: `${prefix}${to || ""}` };
+                return (await this.core.kvDB.keys(range as unknown as IDBKeyRange, count))
+                    .map((e) => e.toString())
+                    .filter((e) => e.startsWith(prefix))
+                    .map((e) => e.substring(prefix.length));
+            },
+        };
+    }
+
+    async $everyOnResetDatabase(db: LiveSyncLocalDB): Promise<boolean> {
+        try {
+            await this.core.kvDB.destroy();
+            this.core.kvDB = OpenKeyValueDatabaseOnFile(this.kvFile);
+        } catch (e) {
+            this.core.kvDB = undefined!;
+            this._log("Failed to reset KeyValueDB", LOG_LEVEL_NOTICE);
+            this._log(e, LOG_LEVEL_VERBOSE);
+            return false;
+        }
+        return true;
+    }
+}
@@ -0,0 +1,44 @@
+import { LOG_LEVEL_VERBOSE } from "octagonal-wheels/common/logger";
+import type { EntryDoc } from "../../lib/src/common/types.ts";
+import { disableEncryption, enableEncryption, replicationFilter } from "../../lib/src/pouchdb/utils_couchdb.ts";
+import type { MemoryLiveSync } from "../../headless/MemoryLiveSync.ts";
+import { AbstractHeadlessModule } from "../AbstractHeadlessModule.ts";
+import type { ICoreModule } from "../ModuleTypes.ts";
+
+/**
+ * Connect to `LocalRemoteServer` instead of CouchDB. The filters and the encryption are the same as the real one.
+ */
+export class ModuleLocalRemote extends AbstractHeadlessModule implements ICoreModule {
+    constructor(public host: MemoryLiveSync) {
+        super(host, host);
+    }
+
+    async $$connectRemoteCouchDB(
+        uri: string,
+        auth: { username: string; password: string },
+        disableRequestURI: boolean,
+        passphrase: string | false,
+        useDynamicIterationCount: boolean,
+        performSetup: boolean,
+        skipInfo: boolean,
+        compression: boolean
+    ): Promise<string | { db: PouchDB.Database<EntryDoc>; info: PouchDB.Core.DatabaseInfo }> {
+        if (this.host.offline) return "Could not connect to the remote database: the device is offline";
+        const db = this.host.remote.connect(uri);
+        replicationFilter(db, compression);
+        disableEncryption();
+        if (passphrase !== "false" && typeof passphrase === "string") {
+            enableEncryption(db, passphrase, useDynamicIterationCount, false);
+        }
+        if (skipInfo) {
+            return { db: db, info: { db_name: "", doc_count: 0, update_seq: "" } };
+        }
+        try {
+            const info = await db.info();
+            return { db: db, info: info };
+        } catch (ex: any) {
+            this._log(ex, LOG_LEVEL_VERBOSE);
+            return `${ex?.name}:${ex?.message}`;
+        }
+    }
+}
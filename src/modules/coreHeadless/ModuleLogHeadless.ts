@@ -0,0 +1,57 @@
+import { setGlobalLogFunction } from "octagonal-wheels/common/logger";
+import {
+    LOG_LEVEL_DEBUG,
+    LOG_LEVEL_INFO,
+    LOG_LEVEL_NOTICE,
+    LOG_LEVEL_VERBOSE,
+    type LOG_LEVEL,
+} from "../../lib/src/common/types.ts";
+import type { HeadlessLiveSync } from "../../headless/HeadlessLiveSync.ts";
+import { AbstractHeadlessModule } from "../AbstractHeadlessModule.ts";
+import type { ICoreModule } from "../ModuleTypes.ts";
+
+/**
+ * Write logs to the console. Notices are the same as other logs, as there is no one to see them.
+ */
+export class ModuleLogHeadless extends AbstractHeadlessModule implements ICoreModule {
+    constructor(host: HeadlessLiveSync) {
+        super(host, host);
+        // DI the log again, instead of the log store of the plug-in.
+        setGlobalLogFunction((message: any, level?: number, key?: string) => {
+            this.core.$$addLog(message, level as LOG_LEVEL, key);
+        });
+    }
+
+    $$addLog(message: any, level: LOG_LEVEL = LOG_LEVEL_INFO, key = ""): void {
+        if (level == LOG_LEVEL_DEBUG && !this.options.debug) {
+            return;
+        }
+        if (level < LOG_LEVEL_INFO && this.settings && this.settings.lessInformationInLog) {
+            return;
+        }
+        if (this.settings && !this.settings.showVerboseLog && level == LOG_LEVEL_VERBOSE) {
+            return;
+        }
+        const timestamp = new Date().toISOString();
+        const messageContent =
+            typeof message == "string"
+                ? message
+                : message instanceof Error
+                  ? `${message.name}:${message.message}`
+                  : JSON.stringify(message, null, 2);
+        const line = `${timestamp} ${level >= LOG_LEVEL_NOTICE ? "[!] " : ""}${messageContent}`;
+        if (message instanceof Error) {
+            console.error(line);
+            console.error(message.stack);
+        } else {
+            console.log(line);
+        }
+    }
+
+    $$addTestResult(name: string, key: string, result: boolean, summary?: string, message?: string): void {
+        this.$$addLog(
+            `[Test] ${result ? "OK" : "FAILED"} ${name}: ${key} ${summary ?? ""}${message ? `\n${message}` : ""}`,
+            result ? LOG_LEVEL_INFO : LOG_LEVEL_NOTICE
+        );
+    }
+}
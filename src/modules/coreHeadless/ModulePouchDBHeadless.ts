@@ -0,0 +1,49 @@
+import { mkdirSync } from "node:fs";
+import { join } from "node:path";
+import { PouchDB } from "../../lib/src/pouchdb/pouchdb-browser";
+import { AbstractHeadlessModule } from "../AbstractHeadlessModule.ts";
+import type { ICoreModule } from "../ModuleTypes";
+
+const loadedAdapters = new Set<string>();
+
+/**
+ * The adapter is not bundled, but loaded from `pouchdb-adapter-<adapter>`, which should be installed next to the
+ * runtime (e.g., `npm install pouchdb-adapter-leveldb`).
+ */
+export function loadPouchDBAdapter(adapter: string) {
+    if (loadedAdapters.has(adapter)) return;
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    PouchDB.plugin(require(`pouchdb-adapter-${adapter}`));
+    loadedAdapters.add(adapter);
+}
+
+/**
+ * Register the adapter which has been bundled (or imported by the tests), instead of loading it at runtime.
+ */
+export function registerPouchDBAdapter(adapter: string, plugin: PouchDB.Plugin) {
+    if (loadedAdapters.has(adapter)) return;
+    PouchDB.plugin(plugin);
+    loadedAdapters.add(adapter);
+}
+
+/**
+ * The local database on Node.js. With the `memory` adapter, nothing is written into the data directory.
+ */
+export class ModulePouchDBHeadless extends AbstractHeadlessModule implements ICoreModule {
+    get adapter() {
+        return this.options.adapter || "leveldb";
+    }
+
+    $$createPouchDBInstance<T extends object>(
+        name?: string,
+        options?: PouchDB.Configuration.DatabaseConfiguration
+    ): PouchDB.Database<T> {
+        loadPouchDBAdapter(this.adapter);
+        if (this.adapter == "memory") {
+            return new PouchDB(`${name}`, { ...(options ?? {}), adapter: this.adapter });
+        }
+        const dir = join(this.options.dataDir, "db");
+        mkdirSync(dir, { recursive: true });
+        return new PouchDB(join(dir, `${name}`), { ...(options ?? {}), adapter: this.adapter });
+    }
+}
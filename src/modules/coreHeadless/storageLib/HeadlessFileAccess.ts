@@ -0,0 +1,47 @@
+import type { FileEventType } from "../../../common/types.ts";
+import type { FilePath, UXStat } from "../../../lib/src/common/types.ts";
+
+export type HeadlessFileEvent = {
+    type: Extract<FileEventType, "CREATE" | "CHANGED" | "DELETE">;
+    path: FilePath;
+    stat: UXStat;
+};
+
+/**
+ * The storage of the headless runtime. `NodeFileAccess` for the directory, and `MemoryFileAccess` for the tests.
+ * As the vault of Obsidian, the files and folders which start with `.` are not the vault items, but can be accessed
+ * as hidden files.
+ */
+export interface HeadlessFileAccess {
+    // The index of the vault items, to answer synchronously.
+    readonly files: Map<FilePath, UXStat>;
+
+    isStorageInsensitive(): boolean;
+    resolve(path: string): FilePath | undefined;
+    getStat(path: string): UXStat | null;
+    getFiles(): { path: FilePath; stat: UXStat }[];
+    scan(): Promise<void>;
+
+    tryAdapterStat(path: string): Promise<UXStat | null>;
+    adapterList(path: string): Promise<{ files: string[]; folders: string[] }>;
+    adapterRead(path: string): Promise<string>;
+    adapterReadBinary(path: string): Promise<ArrayBuffer>;
+    adapterReadAuto(path: string): Promise<string | ArrayBuffer>;
+    adapterAppend(path: string, data: string | ArrayBuffer): Promise<void>;
+    adapterRemove(path: string): Promise<void>;
+    adapterWrite(path: string, data: string | ArrayBuffer, mtime?: number): Promise<boolean>;
+
+    rename(path: string, newPath: string): Promise<void>;
+    delete(path: string): Promise<void>;
+    trash(path: string): Promise<void>;
+    ensureDirectory(path: string): Promise<void>;
+    isEmptyDirectory(path: string): Promise<boolean>;
+
+    // Changes which have been made by the runtime itself are not notified.
+    beginWatch(callback: (events: HeadlessFileEvent[]) => void): void;
+    endWatch(): void;
+
+    touch(path: FilePath): void;
+    recentlyTouched(path: FilePath): boolean;
+    clearTouched(): void;
+}
@@ -0,0 +1,294 @@
+import type { FilePath, HasSettings, UXStat } from "../../../lib/src/common/types.ts";
+import { createBinaryBlob, isDocContentSame } from "../../../lib/src/common/utils.ts";
+import { isPlainText } from "../../../lib/src/string_and_binary/path.ts";
+import { markChangesAreSame } from "../../../common/utils.ts";
+import type { HeadlessFileAccess, HeadlessFileEvent } from "./HeadlessFileAccess.ts";
+
+type MemoryEntry = { data: string | ArrayBuffer; stat: UXStat };
+
+export type MemoryFileAccessOptions = {
+    // Behave as the case-insensitive storage (e.g., of macOS or Windows).
+    caseInsensitive?: boolean;
+    // The clock of the modified time. A logical clock makes the tests deterministic.
+    clock?: () => number;
+};
+
+function sizeOf(data: string | ArrayBuffer) {
+    return typeof data == "string" ? new TextEncoder().encode(data).byteLength : data.byteLength;
+}
+function parentOf(path: string) {
+    return path.split("/").slice(0, -1).join("/");
+}
+
+/**
+ * The vault on memory, for the automated tests. Nothing is shared between the instances; each instance is a device.
+ * The operations by the user (or other applications) are simulated by `userWrite`, `userDelete` and `userRename`,
+ * and notified as the watcher of `NodeFileAccess` does.
+ */
+export class MemoryFileAccess implements HeadlessFileAccess {
+    plugin: HasSettings<{ handleFilenameCaseSensitive: boolean }>;
+    caseInsensitive: boolean;
+    clock: () => number;
+    entries = new Map<string, MemoryEntry>();
+    folders = new Set<string>();
+    callback?: (events: HeadlessFileEvent[]) => void;
+
+    constructor(plugin: (typeof this)["plugin"], options: MemoryFileAccessOptions = {}) {
+        this.plugin = plugin;
+        this.caseInsensitive = options.caseInsensitive ?? false;
+        this.clock = options.clock ?? (() => Date.now());
+    }
+
+    isStorageInsensitive(): boolean {
+        return this.caseInsensitive;
+    }
+    isVaultItem(path: string) {
+        return path != "" && !path.split("/").some((e) => e.startsWith("."));
+    }
+    _isSamePath(a: string, b: string) {
+        return this.caseInsensitive ? a.toLowerCase() == b.toLowerCase() : a == b;
+    }
+    _isUnder(path: string, folder: string) {
+        return folder == "" || this._isSamePath(path.substring(0, folder.length + 1), `${folder}/`);
+    }
+    /**
+     * The key of the entry on the storage. On the case-insensitive storage, the first name is kept.
+     */
+    _key(path: string): string | undefined {
+        if (this.entries.has(path)) return path;
+        return [...this.entries.keys()].find((e) => this._isSamePath(e, path));
+    }
+    _isFolder(path: string) {
+        if (path == "") return true;
+        if ([...this.folders].some((e) => this._isSamePath(e, path))) return true;
+        return [...this.entries.keys()].some((e) => this._isUnder(e, path));
+    }
+    _put(key: string, data: string | ArrayBuffer, mtime?: number) {
+        const now = this.clock();
+        const old = this.entries.get(key);
+        this.entries.set(key, {
+            data: typeof data == "string" ? data : data.slice(0),
+            stat: { ctime: old?.stat.ctime ?? now, mtime: mtime ?? now, size: sizeOf(data), type: "file" },
+        });
+    }
+    _get(path: string) {
+        const key = this._key(path);
+        if (key === undefined) throw new Error(`ENOENT: no such file, ${path}`);
+        return this.entries.get(key)!;
+    }
+    _notify(events: HeadlessFileEvent[]) {
+        const vaultEvents = events.filter((e) => this.isVaultItem(e.path));
+        if (vaultEvents.length > 0) this.callback?.(vaultEvents);
+    }
+
+    get files() {
+        return new Map(
+            [...this.entries.entries()]
+                .filter(([path]) => this.isVaultItem(path))
+                .map(([path, entry]) => [path as FilePath, entry.stat])
+        );
+    }
+    resolve(path: string): FilePath | undefined {
+        const files = this.files;
+        if (files.has(path as FilePath)) return path as FilePath;
+        if (!this.plugin.settings.handleFilenameCaseSensitive || this.isStorageInsensitive()) {
+            const lower = path.toLowerCase();
+            return [...files.keys()].find((e) => e.toLowerCase() == lower);
+        }
+        return undefined;
+    }
+    getStat(path: string) {
+        const resolved = this.resolve(path);
+        return resolved ? this.entries.get(resolved)!.stat : null;
+    }
+    getFiles() {
+        return [...this.files.entries()].map(([path, stat]) => ({ path, stat }));
+    }
+    scan() {
+        // The index is always up to date.
+        return Promise.resolve();
+    }
+
+    tryAdapterStat(path: string): Promise<UXStat | null> {
+        const key = this._key(path);
+        if (key !== undefined) return Promise.resolve({ ...this.entries.get(key)!.stat });
+        if (this._isFolder(path)) return Promise.resolve({ ctime: 0, mtime: 0, size: 0, type: "folder" });
+        return Promise.resolve(null);
+    }
+    adapterList(path: string) {
+        if (!this._isFolder(path)) return Promise.reject(new Error(`ENOENT: no such directory, ${path}`));
+        const children = [...this.entries.keys(), ...this.folders].filter((e) => this._isUnder(e, path));
+        const depth = path == "" ? 0 : path.split("/").length;
+        const files = children.filter((e) => this.entries.has(e) && e.split("/").length == depth + 1);
+        const folders = new Set(
+            children
+                .filter((e) => !files.includes(e))
+                .map((e) => e.split("/").slice(0, depth + 1))
+                .map((e) => e.join("/"))
+        );
+        return Promise.resolve({ files, folders: [...folders] });
+    }
+    adapterRead(path: string) {
+        try {
+            const data = this._get(path).data;
+            return Promise.resolve(typeof data == "string" ? data : new TextDecoder().decode(data));
+        } catch (ex) {
+            return Promise.reject(ex);
+        }
+    }
+    adapterReadBinary(path: string) {
+        try {
+            const data = this._get(path).data;
+            return Promise.resolve(
+                typeof data == "string" ? (new TextEncoder().encode(data).buffer as ArrayBuffer) : data.slice(0)
+            );
+        } catch (ex) {
+            return Promise.reject(ex);
+        }
+    }
+    async adapterReadAuto(path: string) {
+        if (isPlainText(path)) return await this.adapterRead(path);
+        return await this.adapterReadBinary(path);
+    }
+    async adapterAppend(path: string, data: string | ArrayBuffer) {
+        const key = this._key(path) ?? path;
+        if (typeof data == "string") {
+            const current = this.entries.has(key) ? await this.adapterRead(key) : "";
+            this._put(key, current + data);
+            return;
+        }
+        const current = this.entries.has(key) ? await this.adapterReadBinary(key) : new ArrayBuffer(0);
+        const joined = new Uint8Array(current.byteLength + data.byteLength);
+        joined.set(new Uint8Array(current));
+        joined.set(new Uint8Array(data), current.byteLength);
+        this._put(key, joined.buffer);
+    }
+    adapterRemove(path: string) {
+        const key = this._key(path);
+        if (key !== undefined) this.entries.delete(key);
+        return Promise.resolve();
+    }
+
+    /**
+     * Write the file, and set the modified time.
+     * If the content is the same, the file is left as it is, and the changes are marked as the same.
+     */
+    async adapterWrite(path: string, data: string | ArrayBuffer, mtime?: number) {
+        const key = this._key(path) ?? path;
+        const old = this.entries.get(key);
+        if (old) {
+            const isSame =
+                typeof data == "string" && typeof old.data == "string"
+                    ? old.data === data
+                    : await isDocContentSame(
+                          createBinaryBlob(await this.adapterReadBinary(key)),
+                          createBinaryBlob(data)
+                      );
+            if (isSame) {
+                if (mtime) markChangesAreSame(key, old.stat.mtime, mtime);
+                return true;
+            }
+        }
+        this._put(key, data, mtime);
+        return true;
+    }
+
+    rename(path: string, newPath: string) {
+        const moved = [...this.entries.entries()].filter(([e]) => this._isSamePath(e, path) || this._isUnder(e, path));
+        if (moved.length == 0) return Promise.reject(new Error(`ENOENT: no such file or directory, ${path}`));
+        for (const [key, entry] of moved) {
+            this.entries.delete(key);
+            this.entries.set(`${newPath}${key.substring(path.length)}`, entry);
+        }
+        return Promise.resolve();
+    }
+    delete(path: string) {
+        for (const key of [...this.entries.keys(), ...this.folders]) {
+            if (!this._isSamePath(key, path) && !this._isUnder(key, path)) continue;
+            this.entries.delete(key);
+            this.folders.delete(key);
+        }
+        return Promise.resolve();
+    }
+    /**
+     * Move the file into `.trash`, as the local trash of Obsidian.
+     */
+    async trash(path: string) {
+        await this.rename(path, `.trash/${path}`);
+    }
+    ensureDirectory(path: string) {
+        const dir = parentOf(path);
+        if (dir == "") return Promise.resolve();
+        const segments = dir.split("/");
+        for (let i = 1; i <= segments.length; i++) {
+            this.folders.add(segments.slice(0, i).join("/"));
+        }
+        return Promise.resolve();
+    }
+    isEmptyDirectory(path: string) {
+        if (!this._isFolder(path)) return Promise.resolve(false);
+        return Promise.resolve(![...this.entries.keys(), ...this.folders].some((e) => this._isUnder(e, path)));
+    }
+
+    beginWatch(callback: (events: HeadlessFileEvent[]) => void) {
+        this.callback = callback;
+    }
+    endWatch() {
+        this.callback = undefined;
+    }
+
+    /**
+     * Write the file as the user does; the change is notified to the runtime.
+     */
+    async userWrite(path: string, data: string | ArrayBuffer, mtime?: number) {
+        const key = this._key(path);
+        await this.ensureDirectory(path);
+        this._put(key ?? path, data, mtime);
+        const stat = this.entries.get(key ?? path)!.stat;
+        this._notify([{ type: key === undefined ? "CREATE" : "CHANGED", path: (key ?? path) as FilePath, stat }]);
+    }
+    /**
+     * Delete the file or the folder as the user does; the deletions are notified to the runtime.
+     */
+    async userDelete(path: string) {
+        const removed = [...this.entries.entries()].filter(
+            ([e]) => this._isSamePath(e, path) || this._isUnder(e, path)
+        );
+        await this.delete(path);
+        this._notify(removed.map(([e, entry]) => ({ type: "DELETE", path: e as FilePath, stat: entry.stat })));
+    }
+    /**
+     * Rename the file or the folder as the user does. As the watcher of `NodeFileAccess`, this is notified as the pair
+     * of `DELETE` and `CREATE`. Case-only renames are also possible on the case-insensitive storage.
+     */
+    async userRename(path: string, newPath: string) {
+        const moved = [...this.entries.entries()].filter(([e]) => this._isSamePath(e, path) || this._isUnder(e, path));
+        await this.rename(path, newPath);
+        await this.ensureDirectory(newPath);
+        this._notify([
+            ...moved.map(([e, entry]) => ({ type: "DELETE" as const, path: e as FilePath, stat: entry.stat })),
+            ...moved.map(([e, entry]) => ({
+                type: "CREATE" as const,
+                path: `${newPath}${e.substring(path.length)}` as FilePath,
+                stat: entry.stat,
+            })),
+        ]);
+    }
+
+    touchedFiles: string[] = [];
+
+    touch(path: FilePath) {
+        const stat = this.getStat(path);
+        if (!stat) return;
+        this.touchedFiles.unshift(`${path}-${stat.mtime}-${stat.size}`);
+        this.touchedFiles = this.touchedFiles.slice(0, 100);
+    }
+    recentlyTouched(path: FilePath) {
+        const stat = this.getStat(path);
+        if (!stat) return false;
+        return this.touchedFiles.indexOf(`${path}-${stat.mtime}-${stat.size}`) != -1;
+    }
+    clearTouched() {
+        this.touchedFiles = [];
+    }
+}
@@ -0,0 +1,267 @@
+import { watch, type FSWatcher } from "node:fs";
+import { appendFile, mkdir, readdir, readFile, rename, rm, stat, utimes, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { serialized } from "../../../lib/src/concurrency/lock.ts";
+import { Logger } from "../../../lib/src/common/logger.ts";
+import { LOG_LEVEL_VERBOSE, type FilePath, type HasSettings, type UXStat } from "../../../lib/src/common/types.ts";
+import { createBinaryBlob, isDocContentSame } from "../../../lib/src/common/utils.ts";
+import { isPlainText } from "../../../lib/src/string_and_binary/path.ts";
+import { markChangesAreSame } from "../../../common/utils.ts";
+import type { HeadlessFileAccess, HeadlessFileEvent } from "./HeadlessFileAccess.ts";
+
+function toArrayBuffer(data: Buffer): ArrayBuffer {
+    return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+}
+function toUXStat(st: { birthtimeMs: number; ctimeMs: number; mtimeMs: number; size: number }): UXStat {
+    return {
+        ctime: Math.floor(st.birthtimeMs || st.ctimeMs),
+        mtime: Math.floor(st.mtimeMs),
+        size: st.size,
+        type: "file",
+    };
+}
+
+/**
+ * Serialised access to the directory which is mirrored, as `SerializedFileAccess` does to the vault.
+ * The index of the vault items is kept in memory to answer synchronously, and updated by the watcher.
+ */
+export class NodeFileAccess implements HeadlessFileAccess {
+    root: string;
+    plugin: HasSettings<{ handleFilenameCaseSensitive: boolean }>;
+    files = new Map<FilePath, UXStat>();
+    watcher?: FSWatcher;
+
+    constructor(root: string, plugin: (typeof this)["plugin"]) {
+        this.root = root;
+        this.plugin = plugin;
+    }
+
+    isStorageInsensitive(): boolean {
+        return process.platform == "darwin" || process.platform == "win32";
+    }
+    isVaultItem(path: string) {
+        return path != "" && !path.split("/").some((e) => e.startsWith("."));
+    }
+    toFullPath(path: string) {
+        return join(this.root, ...path.split("/"));
+    }
+
+    /**
+     * Resolve the path to the one in the index, as `getAbstractFileByPath` does.
+     */
+    resolve(path: string): FilePath | undefined {
+        if (this.files.has(path as FilePath)) return path as FilePath;
+        if (!this.plugin.settings.handleFilenameCaseSensitive || this.isStorageInsensitive()) {
+            const lower = path.toLowerCase();
+            return [...this.files.keys()].find((e) => e.toLowerCase() == lower);
+        }
+        return undefined;
+    }
+    getStat(path: string) {
+        const resolved = this.resolve(path);
+        return resolved ? this.files.get(resolved)! : null;
+    }
+    getFiles() {
+        return [...this.files.entries()].map(([path, stat]) => ({ path, stat }));
+    }
+
+    async scan(path = "") {
+        let entries;
+        try {
+            entries = await readdir(this.toFullPath(path), { withFileTypes: true });
+        } catch (ex) {
+            Logger(`Could not traverse: ${path}`, LOG_LEVEL_VERBOSE);
+            Logger(ex, LOG_LEVEL_VERBOSE);
+            return;
+        }
+        for (const entry of entries) {
+            const entryPath = (path ? `${path}/${entry.name}` : entry.name) as FilePath;
+            if (!this.isVaultItem(entryPath)) continue;
+            if (entry.isDirectory()) {
+                await this.scan(entryPath);
+            } else if (entry.isFile()) {
+                this.files.set(entryPath, toUXStat(await stat(this.toFullPath(entryPath))));
+            }
+        }
+    }
+
+    async tryAdapterStat(path: string): Promise<UXStat | null> {
+        return await serialized(`fl:${path}`, async () => {
+            try {
+                const st = await stat(this.toFullPath(path));
+                return { ...toUXStat(st), type: st.isDirectory() ? "folder" : "file" };
+            } catch {
+                return null;
+            }
+        });
+    }
+    async adapterList(path: string) {
+        const entries = await readdir(this.toFullPath(path), { withFileTypes: true });
+        const toPath = (name: string) => (path ? `${path}/${name}` : name);
+        return {
+            files: entries.filter((e) => e.isFile()).map((e) => toPath(e.name)),
+            folders: entries.filter((e) => e.isDirectory()).map((e) => toPath(e.name)),
+        };
+    }
+    async adapterRead(path: string) {
+        return await serialized(`fl:${path}`, () => readFile(this.toFullPath(path), "utf-8"));
+    }
+    async adapterReadBinary(path: string) {
+        return await serialized(`fl:${path}`, async () => toArrayBuffer(await readFile(this.toFullPath(path))));
+    }
+    async adapterReadAuto(path: string) {
+        if (isPlainText(path)) return await this.adapterRead(path);
+        return await this.adapterReadBinary(path);
+    }
+    async adapterAppend(path: string, data: string | ArrayBuffer) {
+        await serialized(`fl:${path}`, async () => {
+            await mkdir(dirname(this.toFullPath(path)), { recursive: true });
+            await appendFile(this.toFullPath(path), typeof data == "string" ? data : new Uint8Array(data));
+        });
+        await this.updateIndex(path);
+    }
+    async adapterRemove(path: string) {
+        await serialized(`fl:${path}`, () => rm(this.toFullPath(path), { force: true }));
+        await this.updateIndex(path);
+    }
+
+    /**
+     * Write the file, and set the modified time.
+     * If the content is the same, the file is left as it is, and the changes are marked as the same.
+     */
+    async adapterWrite(path: string, data: string | ArrayBuffer, mtime?: number) {
+        const fullPath = this.toFullPath(path);
+        await serialized(`fl:${path}`, async () => {
+            const current = await this.tryReadForCompare(fullPath, typeof data == "string");
+            if (current !== false) {
+                const isSame =
+                    typeof data == "string"
+                        ? current === data
+                        : await isDocContentSame(createBinaryBlob(current as ArrayBuffer), createBinaryBlob(data));
+                if (isSame) {
+                    const old = this.files.get(path as FilePath);
+                    if (old && mtime) markChangesAreSame(path, old.mtime, mtime);
+                    return;
+                }
+            }
+            await mkdir(dirname(fullPath), { recursive: true });
+            await writeFile(fullPath, typeof data == "string" ? data : new Uint8Array(data));
+            if (mtime) await utimes(fullPath, new Date(), new Date(mtime));
+        });
+        await this.updateIndex(path);
+        return true;
+    }
+    async tryReadForCompare(fullPath: string, asText: boolean) {
+        try {
+            return asText ? await readFile(fullPath, "utf-8") : toArrayBuffer(await readFile(fullPath));
+        } catch {
+            return false;
+        }
+    }
+
+    async rename(path: string, newPath: string) {
+        await serialized(`fl:${path}`, async () => {
+            await mkdir(dirname(this.toFullPath(newPath)), { recursive: true });
+            await rename(this.toFullPath(path), this.toFullPath(newPath));
+        });
+        await this.updateIndex(path);
+        await this.updateIndex(newPath);
+    }
+    async delete(path: string) {
+        await serialized(`fl:${path}`, () => rm(this.toFullPath(path), { recursive: true, force: true }));
+        this.removeFromIndex(path);
+    }
+    /**
+     * Move the file into `.trash` of the directory, as the local trash of Obsidian.
+     */
+    async trash(path: string) {
+        await this.rename(path, `.trash/${path}`);
+    }
+    async ensureDirectory(path: string) {
+        const dir = path.split("/").slice(0, -1).join("/");
+        if (dir) await mkdir(this.toFullPath(dir), { recursive: true });
+    }
+    async isEmptyDirectory(path: string) {
+        try {
+            return (await readdir(this.toFullPath(path))).length == 0;
+        } catch {
+            return false;
+        }
+    }
+
+    removeFromIndex(path: string) {
+        for (const key of [...this.files.keys()]) {
+            if (key == path || key.startsWith(`${path}/`)) this.files.delete(key);
+        }
+    }
+    /**
+     * Reflect the file (or the folder) on the storage to the index.
+     * @returns the events of the vault items which have been changed since the last time.
+     */
+    async updateIndex(path: string): Promise<HeadlessFileEvent[]> {
+        if (!this.isVaultItem(path)) return [];
+        const current = await this.tryAdapterStat(path);
+        const events = [] as HeadlessFileEvent[];
+        if (current?.type == "folder") {
+            // A folder has been created or moved into the vault.
+            const before = new Map(this.files);
+            await this.scan(path);
+            for (const [file, stat] of this.files) {
+                if (!file.startsWith(`${path}/`)) continue;
+                const old = before.get(file);
+                if (!old) {
+                    events.push({ type: "CREATE", path: file, stat });
+                } else if (old.mtime != stat.mtime || old.size != stat.size) {
+                    events.push({ type: "CHANGED", path: file, stat });
+                }
+            }
+            return events;
+        }
+        const removed = [...this.files.entries()].filter(([e]) => e == path || e.startsWith(`${path}/`));
+        if (current === null) {
+            this.removeFromIndex(path);
+            return removed.map(([file, stat]) => ({ type: "DELETE", path: file, stat }));
+        }
+        const old = this.files.get(path as FilePath);
+        this.files.set(path as FilePath, current);
+        if (!old) return [{ type: "CREATE", path: path as FilePath, stat: current }];
+        if (old.mtime != current.mtime || old.size != current.size) {
+            return [{ type: "CHANGED", path: path as FilePath, stat: current }];
+        }
+        return [];
+    }
+
+    /**
+     * Watch the directory recursively. Changes which have been made by this runtime are not notified, because the
+     * index has been already updated.
+     */
+    beginWatch(callback: (events: HeadlessFileEvent[]) => void) {
+        this.watcher?.close();
+        this.watcher = watch(this.root, { recursive: true }, (_, filename) => {
+            if (!filename) return;
+            const path = filename.toString().split(/[\\/]/).join("/");
+            void this.updateIndex(path).then((events) => events.length > 0 && callback(events));
+        });
+    }
+    endWatch() {
+        this.watcher?.close();
+        this.watcher = undefined;
+    }
+
+    touchedFiles: string[] = [];
+
+    touch(path: FilePath) {
+        const stat = this.getStat(path);
+        if (!stat) return;
+        this.touchedFiles.unshift(`${path}-${stat.mtime}-${stat.size}`);
+        this.touchedFiles = this.touchedFiles.slice(0, 100);
+    }
+    recentlyTouched(path: FilePath) {
+        const stat = this.getStat(path);
+        if (!stat) return false;
+        return this.touchedFiles.indexOf(`${path}-${stat.mtime}-${stat.size}`) != -1;
+    }
+    clearTouched() {
+        this.touchedFiles = [];
+    }
+}
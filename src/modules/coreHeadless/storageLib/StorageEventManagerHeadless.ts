@@ -0,0 +1,34 @@
+import type { FilePathWithPrefix } from "../../../lib/src/common/types.ts";
+import type { LiveSyncCore } from "../../../main.ts";
+import { StorageEventManagerObsidian } from "../../coreObsidian/storageLib/StorageEventManager.ts";
+import type { HeadlessFileAccess, HeadlessFileEvent } from "./HeadlessFileAccess.ts";
+
+/**
+ * The queue of the storage events is the same as Obsidian's one; only the source of the events differs.
+ * Renames are notified as the pair of `DELETE` and `CREATE`, as the watcher of Node.js cannot track them.
+ */
+export class StorageEventManagerHeadless extends StorageEventManagerObsidian {
+    vaultAccess: HeadlessFileAccess;
+
+    constructor(core: LiveSyncCore, vaultAccess: HeadlessFileAccess) {
+        super(core, core);
+        this.vaultAccess = vaultAccess;
+    }
+
+    beginWatch() {
+        this.vaultAccess.beginWatch((events) => void this.appendQueue(events.map((e) => this.toFileEvent(e))));
+    }
+
+    toFileEvent(event: HeadlessFileEvent) {
+        return {
+            type: event.type,
+            file: {
+                name: event.path.split("/").pop() as string,
+                path: event.path as FilePathWithPrefix,
+                isFolder: false,
+                stat: event.stat,
+                deleted: event.type == "DELETE",
+            },
+        };
+    }
+}
@@ -12,6 +12,7 @@ import type {
     UXStat,
 } from "../../lib/src/common/types";
 import { TFileToUXFileInfoStub, TFolderToUXFileInfoStub } from "./storageLib/utilObsidian.ts";
+import type { FileEventItem } from "../../common/types.ts";
 import { StorageEventManagerObsidian, type StorageEventManager } from "./storageLib/StorageEventManager";
 import type { StorageAccess } from "../interfaces/StorageAccess";
 import { createBlob } from "../../lib/src/common/utils";
@@ -36,6 +37,10 @@ export class ModuleFileAccessObsidian extends AbstractObsidianModule implements
     //     this.vaultManager.flushQueue();
     // }
 
+    $$getPendingFileEvents(): FileEventItem[] {
+        return this.vaultManager.getPendingItems();
+    }
+
     $everyCommitPendingFileEvent(): Promise<boolean> {
         this.vaultManager.flushQueue();
         return Promise.resolve(true);
@@ -95,7 +100,7 @@ export class ModuleFileAccessObsidian extends AbstractObsidianModule implements
             return false;
         }
     }
-    async appendHiddenFile(path: string, data: string, opt?: UXDataWriteOptions): Promise<boolean> {
+    async appendHiddenFile(path: string, data: string | ArrayBuffer, opt?: UXDataWriteOptions): Promise<boolean> {
         try {
             await this.vaultAccess.adapterAppend(path, data, opt);
             return true;
@@ -338,4 +343,27 @@ export class ModuleFileAccessObsidian extends AbstractObsidianModule implements
             return await this._deleteVaultItem(file);
         }
     }
+
+    async renameVaultItem(fileSrc: FilePathWithPrefix | UXFileInfoStub, newPath: FilePathWithPrefix): Promise<boolean> {
+        const path = typeof fileSrc === "string" ? fileSrc : fileSrc.path;
+        const file = this.vaultAccess.getAbstractFileByPath(path);
+        if (!(file instanceof TFile)) {
+            this._log(`Could not rename file (Possibly does not exist or a folder): ${path}`, LOG_LEVEL_VERBOSE);
+            return false;
+        }
+        if (this.vaultAccess.getAbstractFileByPath(newPath) !== null) {
+            this._log(`Could not rename file (Destination already exists): ${path} -> ${newPath}`, LOG_LEVEL_VERBOSE);
+            return false;
+        }
+        try {
+            await this.ensureDir(newPath);
+            await this.vaultAccess.vaultRename(file, newPath);
+            this._log(`${path} -> STORAGE (renamed) ${newPath}`);
+            return true;
+        } catch (e) {
+            this._log(`Could not rename file: ${path} -> ${newPath}`, LOG_LEVEL_VERBOSE);
+            this._log(e, LOG_LEVEL_VERBOSE);
+            return false;
+        }
+    }
 }
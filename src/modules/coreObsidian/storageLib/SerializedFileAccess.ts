@@ -141,12 +141,28 @@ export class SerializedFileAccess {
         }
     }
 
+    async vaultRename(file: TFile, newPath: string) {
+        return await processWriteFile(file, () => this.app.vault.rename(file, newPath));
+    }
+
     trigger(name: string, ...data: any[]) {
         return this.app.vault.trigger(name, ...data);
     }
 
-    async adapterAppend(normalizedPath: string, data: string, options?: DataWriteOptions) {
-        return await this.app.vault.adapter.append(normalizedPath, data, options);
+    async adapterAppend(normalizedPath: string, data: string | ArrayBuffer, options?: DataWriteOptions) {
+        const adapter = this.app.vault.adapter;
+        if (typeof data === "string") return await adapter.append(normalizedPath, data, options);
+        // `appendBinary` is only available on Obsidian 1.12.3 or later. Otherwise, rewrite the whole file.
+        if (typeof adapter.appendBinary === "function") {
+            return await adapter.appendBinary(normalizedPath, data, options);
+        }
+        const current = (await adapter.exists(normalizedPath))
+            ? await adapter.readBinary(normalizedPath)
+            : new ArrayBuffer(0);
+        const joined = new Uint8Array(current.byteLength + data.byteLength);
+        joined.set(new Uint8Array(current));
+        joined.set(new Uint8Array(data), current.byteLength);
+        return await adapter.writeBinary(normalizedPath, joined.buffer, options);
     }
 
     async delete(file: TFile | TFolder, force = false) {
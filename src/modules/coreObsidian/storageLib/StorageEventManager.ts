@@ -41,6 +41,7 @@ export abstract class StorageEventManager {
     abstract appendQueue(items: FileEvent[], ctx?: any): Promise<void>;
     abstract cancelQueue(key: string): void;
     abstract isWaiting(filename: FilePath): boolean;
+    abstract getPendingItems(): FileEventItem[];
 }
 
 export class StorageEventManagerObsidian extends StorageEventManager {
@@ -120,29 +121,39 @@ export class StorageEventManagerObsidian extends StorageEventManager {
     watchVaultRename(file: TAbstractFile, oldFile: string, ctx?: any) {
         if (file instanceof TFile) {
             const fileInfo = TFileToUXFileInfoStub(file);
-            void this.appendQueue(
-                [
-                    {
-                        type: "DELETE",
-                        file: {
-                            path: oldFile as FilePath,
-                            name: file.name,
-                            stat: {
-                                mtime: file.stat.mtime,
-                                ctime: file.stat.ctime,
-                                size: file.stat.size,
-                                type: "file",
-                            },
-                            deleted: true,
-                        },
-                        skipBatchWait: true,
-                    },
-                    { type: "CREATE", file: fileInfo, skipBatchWait: true },
-                ],
-                ctx
-            );
+            void this.appendQueue([{ type: "RENAME", file: fileInfo, oldPath: oldFile, skipBatchWait: true }], ctx);
         }
     }
+    // If the rename cannot be tracked (e.g., one of the paths is not the target), it is processed as the pair of `DELETE` and `CREATE` as before.
+    async isRenameTrackable(param: FileEvent) {
+        if (!param.oldPath) return false;
+        if (shouldBeIgnored(param.oldPath)) return false;
+        if (this.core.$$isFileSizeExceeded((param.file as UXFileInfoStub).stat.size)) return false;
+        if (!(await this.core.$$isTargetFile(param.oldPath))) return false;
+        if (!(await this.core.$$isTargetFile(param.file.path))) return false;
+        return true;
+    }
+    splitRenameEvent(param: FileEvent): FileEvent[] {
+        const file = param.file as UXFileInfoStub;
+        return [
+            {
+                type: "DELETE",
+                file: {
+                    path: param.oldPath as FilePath,
+                    name: file.name,
+                    stat: {
+                        mtime: file.stat.mtime,
+                        ctime: file.stat.ctime,
+                        size: file.stat.size,
+                        type: "file",
+                    },
+                    deleted: true,
+                },
+                skipBatchWait: true,
+            },
+            { type: "CREATE", file: file, skipBatchWait: true },
+        ];
+    }
     // Watch raw events (Internal API)
     watchVaultRawEvents(path: FilePath) {
         // Only for internal files.
@@ -188,9 +199,27 @@ export class StorageEventManagerObsidian extends StorageEventManager {
         if (!this.core.settings.isConfigured) return;
         if (this.core.settings.suspendFileWatching) return;
         this.core.$$markFileListPossiblyChanged();
+        this.core.$$recordFileEventsToJournal(
+            params.map((e) => ({
+                kind: "file",
+                type: e.type,
+                path: e.file.path,
+                oldPath: e.oldPath,
+                mtime: (e.file as UXFileInfoStub).stat?.mtime,
+                size: (e.file as UXFileInfoStub).stat?.size,
+            }))
+        );
         // Flag up to be reload
         const processFiles = new Set<FilePath>();
+        const events = [] as FileEvent[];
         for (const param of params) {
+            if (param.type == "RENAME" && !(await this.isRenameTrackable(param))) {
+                events.push(...this.splitRenameEvent(param));
+            } else {
+                events.push(param);
+            }
+        }
+        for (const param of events) {
             if (shouldBeIgnored(param.file.path)) {
                 continue;
             }
@@ -216,7 +245,7 @@ export class StorageEventManagerObsidian extends StorageEventManager {
             // new file or something changed, cache the changes.
             // if (file instanceof TFile && (type == "CREATE" || type == "CHANGED")) {
             if (file instanceof TFile || !file.isFolder) {
-                if (type == "CREATE" || type == "CHANGED") {
+                if (type == "CREATE" || type == "CHANGED" || type == "RENAME") {
                     // Wait for a bit while to let the writer has marked `touched` at the file.
                     await delay(10);
                     if (this.core.storageAccess.recentlyTouched(file.path)) {
@@ -251,6 +280,10 @@ export class StorageEventManagerObsidian extends StorageEventManager {
     }
     bufferedQueuedItems = [] as FileEventItem[];
 
+    getPendingItems(): FileEventItem[] {
+        return this.bufferedQueuedItems.filter((e) => !e.cancelled);
+    }
+
     enqueue(newItem: FileEventItem) {
         const filename = newItem.args.file.path;
         if (this.shouldBatchSave) {
@@ -259,7 +292,7 @@ export class StorageEventManagerObsidian extends StorageEventManager {
         }
         this.bufferedQueuedItems.push(newItem);
         // When deleting or renaming, the queue must be flushed once before processing subsequent processes to prevent unexpected race condition.
-        if (newItem.type == "DELETE") {
+        if (newItem.type == "DELETE" || newItem.type == "RENAME") {
             return this.flushQueue();
         }
     }
@@ -390,7 +423,7 @@ export class StorageEventManagerObsidian extends StorageEventManager {
             } else {
                 const key = `file-last-proc-${queue.type}-${file.path}`;
                 const last = Number((await this.core.kvDB.get(key)) || 0);
-                if (queue.type == "DELETE") {
+                if (queue.type == "DELETE" || queue.type == "RENAME") {
                     await this.core.$anyHandlerProcessesFileEvent(queue);
                 } else {
                     if (file.stat.mtime == last) {
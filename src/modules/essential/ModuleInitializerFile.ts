@@ -197,6 +197,8 @@ export class ModuleInitializerFile extends AbstractModule implements ICoreModule
                 const w = databaseFileNameMap[databaseFileNameCI2CS[e]];
                 const path = getPath(w) ?? e;
                 if (w && !(w.deleted || w._deleted)) {
+                    // As same as the replicated documents (e.g., discarded by the replication preview).
+                    if (await this.core.$anyHoldReplicatedDoc(w)) return;
                     if (!this.core.$$isFileSizeExceeded(w.size)) {
                         // await this.pullFile(path, undefined, false, undefined, false);
                         // Memo: No need to force
@@ -212,6 +214,7 @@ export class ModuleInitializerFile extends AbstractModule implements ICoreModule
                             `UPDATE STORAGE: ${path} has been skipped due to file size exceeding the limit`,
                             logLevel
                         );
+                        await this.core.$anyProcessSkippedReplicatedDoc(w);
                     }
                 } else if (w) {
                     this._log(`Deletion history skipped: ${path}`, LOG_LEVEL_VERBOSE);
@@ -279,6 +282,11 @@ export class ModuleInitializerFile extends AbstractModule implements ICoreModule
                 }
                 break;
             case TARGET_IS_NEW:
+                // As same as the replicated documents (e.g., discarded by the replication preview).
+                if (await this.core.$anyHoldReplicatedDoc(doc)) {
+                    this._log("STORAGE <- DB : " + file.path + " has been held", LOG_LEVEL_VERBOSE);
+                    break;
+                }
                 if (!this.core.$$isFileSizeExceeded(doc.size)) {
                     this._log("STORAGE <- DB :" + file.path);
                     if (await this.core.fileHandler.dbToStorage(doc, stripAllPrefixes(file.path), true)) {
@@ -312,6 +320,8 @@ export class ModuleInitializerFile extends AbstractModule implements ICoreModule
         if (limitDays <= 0) return;
         this._log(`Checking expired file history`);
         const limit = Date.now() - 86400 * 1000 * limitDays;
+        // The history of the documents which have pinned revisions is kept.
+        const pinned = new Set((await this.core.$$getPinnedRevisions()).map((e) => e.id as string));
         const notes: {
             path: string;
             mtime: number;
@@ -320,7 +330,7 @@ export class ModuleInitializerFile extends AbstractModule implements ICoreModule
         }[] = [];
         for await (const doc of this.localDatabase.findAllDocs({ conflicts: true })) {
             if (isAnyNote(doc)) {
-                if (doc.deleted && doc.mtime - limit < 0) {
+                if (doc.deleted && doc.mtime - limit < 0 && !pinned.has(doc._id)) {
                     notes.push({
                         path: getPath(doc),
                         mtime: doc.mtime,
@@ -12,14 +12,8 @@ import type { ICoreModule } from "../ModuleTypes.ts";
 import { $msg } from "src/lib/src/common/i18n.ts";
 
 export class ModuleMigration extends AbstractModule implements ICoreModule {
-    async migrateDisableBulkSend() {
-        if (this.settings.sendChunksBulk) {
-            this._log($msg("moduleMigration.logBulkSendCorrupted"), LOG_LEVEL_NOTICE);
-            this.settings.sendChunksBulk = false;
-            this.settings.sendChunksBulkMaxSize = 1;
-            await this.saveSettings();
-        }
-    }
+    // Migrations which do not need the remote nor the user's decision are in `SETTINGS_MIGRATION_STEPS`, and applied
+    // on loading the settings.
     async migrationCheck() {
         const old = this.settings.settingVersion;
         const current = SETTING_VERSION_SUPPORT_CASE_INSENSITIVE;
@@ -227,7 +221,6 @@ export class ModuleMigration extends AbstractModule implements ICoreModule {
         }
         if (this.settings.isConfigured) {
             await this.migrationCheck();
-            await this.migrateDisableBulkSend();
         }
         if (!this.settings.isConfigured) {
             // Case sensitivity
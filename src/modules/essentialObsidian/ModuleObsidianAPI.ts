@@ -14,6 +14,7 @@ import { setNoticeClass } from "../../lib/src/mock_and_interop/wrapper.ts";
 import { ObsHttpHandler } from "./APILib/ObsHttpHandler.ts";
 import { PouchDB } from "../../lib/src/pouchdb/pouchdb-browser.ts";
 import { reactive, reactiveSource } from "octagonal-wheels/dataobject/reactive";
+import { fetchWithFault, requestWithFault } from "../../common/FaultInjector.ts";
 
 setNoticeClass(Notice);
 
@@ -87,6 +88,8 @@ export class ModuleObsidianAPI extends AbstractObsidianModule implements IObsidi
                     }
                     size = ` (${opts_length})`;
                 }
+                const fault = await this.core.$anyInjectFault("remote", method, localURL);
+                if (fault) this._log(`HTTP:${method}${size} to:${localURL} -> Injected fault: ${fault.type}`);
                 if (!disableRequestURI && typeof url == "string" && typeof (opts?.body ?? "") == "string") {
                     const body = opts?.body as string;
 
@@ -107,7 +110,7 @@ export class ModuleObsidianAPI extends AbstractObsidianModule implements IObsidi
 
                     try {
                         this.plugin.requestCount.value = this.plugin.requestCount.value + 1;
-                        const r = await fetchByAPI(requestParam);
+                        const r = await requestWithFault(fault, () => fetchByAPI(requestParam));
                         if (method == "POST" || method == "PUT") {
                             this.last_successful_post = r.status - (r.status % 100) == 200;
                         } else {
@@ -139,7 +142,7 @@ export class ModuleObsidianAPI extends AbstractObsidianModule implements IObsidi
                         (opts!.headers as Headers).append("ngrok-skip-browser-warning", "123");
                     }
                     this.plugin.requestCount.value = this.plugin.requestCount.value + 1;
-                    const response: Response = await fetch(url, opts);
+                    const response: Response = await fetchWithFault(fault, () => fetch(url, opts));
                     if (method == "POST" || method == "PUT") {
                         this.last_successful_post = response.ok;
                     } else {
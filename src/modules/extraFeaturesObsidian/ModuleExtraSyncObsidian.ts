@@ -9,4 +9,13 @@ export class ModuleExtraSyncObsidian extends AbstractObsidianModule implements I
     $$setDeviceAndVaultName(name: string): void {
         this.deviceAndVaultName = name;
     }
+
+    selectiveSyncProfile: string = "";
+
+    $$getSelectiveSyncProfile(): string {
+        return this.selectiveSyncProfile;
+    }
+    $$setSelectiveSyncProfile(name: string): void {
+        this.selectiveSyncProfile = name;
+    }
 }
@@ -0,0 +1,108 @@
+import { delay } from "octagonal-wheels/promises";
+import { LOG_LEVEL_NOTICE, LOG_LEVEL_VERBOSE } from "octagonal-wheels/common/logger";
+import { FaultInjector, type Fault, type FaultRule, type FaultTarget } from "../../common/FaultInjector.ts";
+import type { StorageAccess } from "../interfaces/StorageAccess.ts";
+import { AbstractObsidianModule, type IObsidianModule } from "../AbstractObsidianModule.ts";
+
+// The operations of `StorageAccess` which faults can be injected into. Operations which return a boolean fail by
+// returning false, as the implementations do; others fail by throwing.
+const STORAGE_OPERATIONS: { [key in keyof StorageAccess]?: { operation: string; failBy: "false" | "throw" } } = {
+    writeFileAuto: { operation: "write", failBy: "false" },
+    writeHiddenFileAuto: { operation: "write", failBy: "false" },
+    appendHiddenFile: { operation: "write", failBy: "false" },
+    readFileAuto: { operation: "read", failBy: "throw" },
+    readFileText: { operation: "read", failBy: "throw" },
+    readHiddenFileAuto: { operation: "read", failBy: "throw" },
+    readHiddenFileText: { operation: "read", failBy: "throw" },
+    readHiddenFileBinary: { operation: "read", failBy: "throw" },
+    readStubContent: { operation: "read", failBy: "false" },
+    deleteVaultItem: { operation: "delete", failBy: "throw" },
+    delete: { operation: "delete", failBy: "throw" },
+    trash: { operation: "delete", failBy: "throw" },
+    removeHidden: { operation: "delete", failBy: "false" },
+    renameVaultItem: { operation: "rename", failBy: "false" },
+};
+
+/**
+ * Inject faults into the requests to the remote and the operations of the storage by rules, to exercise the recovery
+ * paths (e.g., the dialogues of the locked remote, or the failed posts by size) on purpose.
+ * Only on the debug tools enabled. Rules can be added by `injector` from the tests, or loaded from
+ * `ls-debug/fault-rules.json` in the configuration directory by the command.
+ */
+export class ModuleFaultInjection extends AbstractObsidianModule implements IObsidianModule {
+    injector = new FaultInjector();
+
+    $anyInjectFault(target: FaultTarget, operation: string, path: string): Promise<Fault | undefined | false> {
+        if (!this.settings?.enableDebugTools) return Promise.resolve(undefined);
+        return Promise.resolve(this.injector.find(target, operation, path));
+    }
+
+    $everyOnloadAfterLoadSettings(): Promise<boolean> {
+        if (!this.settings.enableDebugTools) return Promise.resolve(true);
+        this.addCommand({
+            id: "livesync-load-fault-rules",
+            name: "Load fault injection rules (Debug)",
+            callback: () => void this.loadRules(),
+        });
+        this.addCommand({
+            id: "livesync-clear-fault-rules",
+            name: "Clear fault injection rules (Debug)",
+            callback: () => {
+                this.injector.clear();
+                this._log("Fault injection rules have been cleared", LOG_LEVEL_NOTICE);
+            },
+        });
+        return Promise.resolve(true);
+    }
+
+    $everyOnload(): Promise<boolean> {
+        if (!this.settings.enableDebugTools) return Promise.resolve(true);
+        this.core.storageAccess = this.wrapStorageAccess(this.core.storageAccess);
+        return Promise.resolve(true);
+    }
+
+    async loadRules() {
+        const file = this.app.vault.configDir + "/ls-debug/fault-rules.json";
+        try {
+            const rules = JSON.parse(await this.core.storageAccess.readHiddenFileText(file)) as FaultRule[];
+            this.injector.clear();
+            this.injector.add(...rules);
+            this._log(`${rules.length} fault injection rules have been loaded`, LOG_LEVEL_NOTICE);
+        } catch (ex) {
+            this._log(`Could not load fault injection rules from ${file}`, LOG_LEVEL_NOTICE);
+            this._log(ex, LOG_LEVEL_VERBOSE);
+        }
+    }
+
+    wrapStorageAccess(storageAccess: StorageAccess): StorageAccess {
+        return new Proxy(storageAccess, {
+            get: (target, prop, receiver) => {
+                const value = Reflect.get(target, prop, receiver);
+                const entry = STORAGE_OPERATIONS[prop as keyof StorageAccess];
+                if (!entry || typeof value !== "function") return value;
+                return async (...args: any[]) => {
+                    const path = typeof args[0] == "string" ? args[0] : args[0]?.path;
+                    const fault = await this.core.$anyInjectFault("storage", entry.operation, `${path}`);
+                    if (!fault) return await value.apply(target, args);
+                    this._log(`STORAGE:${entry.operation} ${path} -> Injected fault: ${fault.type}`);
+                    if (fault.type == "delay") {
+                        await delay(fault.ms);
+                        return await value.apply(target, args);
+                    }
+                    if (fault.type == "truncate") {
+                        const ret = await value.apply(target, args);
+                        if (typeof ret == "string") {
+                            return ret.substring(0, fault.length ?? Math.floor(ret.length / 2));
+                        }
+                        if (ret instanceof ArrayBuffer) {
+                            return ret.slice(0, fault.length ?? Math.floor(ret.byteLength / 2));
+                        }
+                        return ret;
+                    }
+                    if (entry.failBy == "false") return false;
+                    throw new Error(`Injected fault: ${entry.operation} ${path}`);
+                };
+            },
+        });
+    }
+}
@@ -1,5 +1,6 @@
 import { TFile, Modal, App, DIFF_DELETE, DIFF_EQUAL, DIFF_INSERT, diff_match_patch } from "../../../deps.ts";
 import { getPathFromTFile, isValidPath } from "../../../common/utils.ts";
+import type { RenamedMetaEntry } from "../../../common/types.ts";
 import { decodeBinary, escapeStringToHTML, readString } from "../../../lib/src/string_and_binary/convert.ts";
 import ObsidianLiveSyncPlugin from "../../../main.ts";
 import {
@@ -59,6 +60,9 @@ export class DocumentHistoryModal extends Modal {
     currentDoc?: LoadedEntry;
     currentText = "";
     currentDeleted = false;
+    currentRev = "";
+    pinnedRevs = new Set<string>();
+    pinButton?: HTMLButtonElement;
     initialRev?: string;
 
     constructor(
@@ -89,6 +93,8 @@ export class DocumentHistoryModal extends Modal {
         try {
             const w = await db.getRaw(this.id, { revs_info: true });
             this.revs_info = w._revs_info?.filter((e) => e?.status == "available") ?? [];
+            const pins = await this.plugin.$$getPinnedRevisions();
+            this.pinnedRevs = new Set(pins.filter((e) => e.id == this.id).map((e) => e.rev));
             this.range.max = `${Math.max(this.revs_info.length - 1, 0)}`;
             this.range.value = this.range.max;
             this.fileInfo.setText(`${this.file} / ${this.revs_info.length} revisions`);
@@ -138,6 +144,8 @@ export class DocumentHistoryModal extends Modal {
         const w = await db.getDBEntry(this.file, { rev: rev }, false, false, true);
         this.currentText = "";
         this.currentDeleted = false;
+        this.currentRev = rev;
+        this.updatePinButton();
         if (w === false) {
             this.currentDeleted = true;
             this.info.innerHTML = "";
@@ -145,6 +153,16 @@ export class DocumentHistoryModal extends Modal {
         } else {
             this.currentDoc = w;
             this.info.innerHTML = `Modified:${new Date(w.mtime).toLocaleString()}`;
+            if (this.pinnedRevs.has(rev)) this.info.appendText(" (Pinned)");
+            const renamedFrom = (w as LoadedEntry & RenamedMetaEntry).renamedFrom;
+            if (renamedFrom) {
+                // Older history is on the document of the previous path.
+                this.info.createEl("a", { text: ` (Renamed from ${stripPrefix(renamedFrom)})` }, (a) => {
+                    a.addEventListener("click", () => {
+                        new DocumentHistoryModal(this.app, this.plugin, renamedFrom).open();
+                    });
+                });
+            }
             let result = undefined;
             const w1data = readDocument(w);
             this.currentDeleted = !!w.deleted;
@@ -208,6 +226,22 @@ export class DocumentHistoryModal extends Modal {
         }
     }
 
+    updatePinButton() {
+        this.pinButton?.setText(this.pinnedRevs.has(this.currentRev) ? "Unpin this revision" : "Pin this revision");
+    }
+
+    async togglePin() {
+        if (!this.id || !this.currentRev) return;
+        const pinned = !this.pinnedRevs.has(this.currentRev);
+        await this.plugin.$$setRevisionPinned(this.id, this.file, this.currentRev, pinned);
+        if (pinned) {
+            this.pinnedRevs.add(this.currentRev);
+        } else {
+            this.pinnedRevs.delete(this.currentRev);
+        }
+        await this.showExactRev(this.currentRev);
+    }
+
     onOpen() {
         const { contentEl } = this;
         this.titleEl.setText("Document History");
@@ -262,6 +296,11 @@ export class DocumentHistoryModal extends Modal {
                 });
             });
         });
+        // Pinned revisions are kept by the garbage collection, regardless of the retention policy.
+        buttons.createEl("button", { text: "Pin this revision" }, (e) => {
+            this.pinButton = e;
+            e.addEventListener("click", () => fireAndForget(() => this.togglePin()));
+        });
         const focusFile = async (path: string) => {
             const targetFile = this.plugin.app.vault.getFileByPath(path);
             if (targetFile) {
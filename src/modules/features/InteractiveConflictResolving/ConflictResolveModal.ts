@@ -2,11 +2,14 @@ import { App, Modal } from "../../../deps.ts";
 import { DIFF_DELETE, DIFF_EQUAL, DIFF_INSERT } from "diff-match-patch";
 import { CANCELLED, LEAVE_TO_SUBSEQUENT, type diff_result } from "../../../lib/src/common/types.ts";
 import { escapeStringToHTML } from "../../../lib/src/string_and_binary/convert.ts";
+import { isPlainText } from "../../../lib/src/string_and_binary/path.ts";
 import { delay } from "../../../lib/src/common/utils.ts";
 import { eventHub } from "../../../common/events.ts";
 import { globalSlipBoard } from "../../../lib/src/bureau/bureau.ts";
 
-export type MergeDialogResult = typeof CANCELLED | typeof LEAVE_TO_SUBSEQUENT | string;
+// Keep A, and write B as a sibling file.
+export const KEEP_BOTH = Symbol("keep both");
+export type MergeDialogResult = typeof CANCELLED | typeof LEAVE_TO_SUBSEQUENT | typeof KEEP_BOTH | string;
 
 declare global {
     interface Slips extends LSSlips {
@@ -102,8 +105,14 @@ export class ConflictResolveModal extends Modal {
             e.addEventListener("click", () => this.sendResponse(this.result.left.rev))
         ).style.marginRight = "4px";
         if (!this.pluginPickMode) {
-            contentEl.createEl("button", { text: "Concat both" }, (e) =>
-                e.addEventListener("click", () => this.sendResponse(LEAVE_TO_SUBSEQUENT))
+            // Binary files cannot be concatenated.
+            if (isPlainText(this.filename)) {
+                contentEl.createEl("button", { text: "Concat both" }, (e) =>
+                    e.addEventListener("click", () => this.sendResponse(LEAVE_TO_SUBSEQUENT))
+                ).style.marginRight = "4px";
+            }
+            contentEl.createEl("button", { text: "Keep both (B as a new file)" }, (e) =>
+                e.addEventListener("click", () => this.sendResponse(KEEP_BOTH))
             ).style.marginRight = "4px";
         }
         contentEl.createEl("button", { text: !this.pluginPickMode ? "Not now" : "Cancel" }, (e) =>
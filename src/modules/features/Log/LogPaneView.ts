@@ -4,6 +4,7 @@ import type ObsidianLiveSyncPlugin from "../../../main.ts";
 import { SvelteItemView } from "../../../common/SvelteItemView.ts";
 import { $msg } from "src/lib/src/common/i18n.ts";
 import { mount } from "svelte";
+import type { ModuleLog } from "../ModuleLog.ts";
 export const VIEW_TYPE_LOG = "log-log";
 //Log view
 export class LogPaneView extends SvelteItemView {
@@ -14,11 +15,14 @@ export class LogPaneView extends SvelteItemView {
                 close: () => {
                     this.leaf.detach();
                 },
+                getStoredLogs: () => this.module.persistentLog.getAll(),
+                exportLogs: (entries) => this.module.exportStoredLogs(entries),
             },
         });
     }
 
     plugin: ObsidianLiveSyncPlugin;
+    module: ModuleLog;
     icon = "view-log";
     title: string = "";
     navigation = false;
@@ -27,9 +31,10 @@ export class LogPaneView extends SvelteItemView {
         return "view-log";
     }
 
-    constructor(leaf: WorkspaceLeaf, plugin: ObsidianLiveSyncPlugin) {
+    constructor(leaf: WorkspaceLeaf, plugin: ObsidianLiveSyncPlugin, module: ModuleLog) {
         super(leaf);
         this.plugin = plugin;
+        this.module = module;
     }
 
     getViewType() {
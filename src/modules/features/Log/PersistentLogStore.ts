@@ -0,0 +1,162 @@
+import { serialized } from "octagonal-wheels/concurrency/lock";
+import { OpenKeyValueDatabase, type KeyValueDatabase } from "../../../common/KeyValueDB.ts";
+import type { LOG_LEVEL } from "../../../lib/src/common/types.ts";
+import { fireAndForget } from "../../../lib/src/common/utils.ts";
+
+export type PersistentLogEntry = {
+    time: number;
+    level: LOG_LEVEL;
+    // The name of the module which has logged the message (e.g., `ModuleReplicator`), or empty.
+    module: string;
+    // The path which is mentioned in the message, or empty.
+    path: string;
+    message: string;
+};
+
+const SEGMENT_KEY_PREFIX = "segment-";
+// Rotation is done by segments; the oldest segment is deleted when the store exceeds the limit.
+// Each segment consists of the batches of entries, which are appended on each flush and never rewritten.
+const SEGMENT_SIZE = 256 * 1024;
+const FLUSH_INTERVAL = 2000;
+
+const MODULE_TAG_PATTERN = /^\[([^\]]+)\]\u{200A} /u;
+// Most messages do not have the path as a field; pick the first token which looks like a path.
+const PATH_PATTERN = /(?:^|[\s:`'"(])((?:[^\s:`'"()]+\/)*[^\s:`'"()/]+\.[A-Za-z][A-Za-z0-9]{0,9})(?=$|[\s:`'"),])/;
+
+function batchKey(segment: number, batch: number) {
+    return `${SEGMENT_KEY_PREFIX}${`${segment}`.padStart(10, "0")}-${`${batch}`.padStart(10, "0")}`;
+}
+function segmentOf(key: IDBValidKey) {
+    return Number.parseInt(`${key}`.substring(SEGMENT_KEY_PREFIX.length, SEGMENT_KEY_PREFIX.length + 10));
+}
+
+export function createPersistentLogEntry(time: number, level: LOG_LEVEL, message: string): PersistentLogEntry {
+    const tag = message.match(MODULE_TAG_PATTERN);
+    const body = tag ? message.substring(tag[0].length) : message;
+    const path = body.match(PATH_PATTERN);
+    return {
+        time,
+        level,
+        module: tag ? tag[1] : "",
+        path: path ? path[1] : "",
+        message: body,
+    };
+}
+
+/**
+ * Log store which is persisted in the dedicated IndexedDB.
+ * Entries are buffered and appended in batches; entries logged before opening are written after opening.
+ */
+export class PersistentLogStore {
+    db?: KeyValueDatabase;
+    // The segment which is being written, the number of its batches, and its size.
+    segment = 0;
+    batch = 0;
+    size = 0;
+    // Entries which have not been written yet.
+    pending = [] as PersistentLogEntry[];
+    flushTimer?: ReturnType<typeof setTimeout>;
+    getMaxSize: () => number;
+
+    constructor(getMaxSize: () => number) {
+        this.getMaxSize = getMaxSize;
+    }
+
+    async open(dbKey: string) {
+        this.db = await OpenKeyValueDatabase(dbKey);
+        const keys = await this.getBatchKeys();
+        if (keys.length > 0) {
+            // Continue to write the last segment.
+            this.segment = segmentOf(keys[keys.length - 1]);
+            const batches = keys.filter((e) => segmentOf(e) == this.segment);
+            this.batch = batches.length;
+            for (const key of batches) {
+                this.size += JSON.stringify((await this.db.get<PersistentLogEntry[]>(key)) ?? []).length;
+            }
+        }
+        this.requestFlush();
+    }
+
+    add(entry: PersistentLogEntry) {
+        this.pending.push(entry);
+        this.requestFlush();
+    }
+
+    requestFlush() {
+        if (this.flushTimer) return;
+        this.flushTimer = setTimeout(() => {
+            this.flushTimer = undefined;
+            fireAndForget(() => this.flush());
+        }, FLUSH_INTERVAL);
+    }
+
+    flush() {
+        return serialized("persistent-log", async () => {
+            if (!this.db || this.pending.length == 0) return;
+            // Entries which are logged while writing should be in the next batch.
+            const entries = this.pending;
+            this.pending = [];
+            await this.db.set(batchKey(this.segment, this.batch), entries);
+            this.batch++;
+            this.size += JSON.stringify(entries).length;
+            if (this.size > SEGMENT_SIZE) {
+                this.segment++;
+                this.batch = 0;
+                this.size = 0;
+                await this.rotate();
+            }
+        });
+    }
+
+    async rotate() {
+        if (!this.db) return;
+        const keys = await this.getBatchKeys();
+        const segments = [...new Set(keys.map((e) => segmentOf(e)))];
+        const maxSegments = Math.max(1, Math.floor(this.getMaxSize() / SEGMENT_SIZE));
+        const expired = new Set(segments.slice(0, Math.max(0, segments.length - maxSegments)));
+        for (const key of keys.filter((e) => expired.has(segmentOf(e)))) {
+            await this.db.del(key);
+        }
+    }
+
+    async getBatchKeys() {
+        if (!this.db) return [];
+        const keys = await this.db.keys(IDBKeyRange.bound(SEGMENT_KEY_PREFIX, `${SEGMENT_KEY_PREFIX}\u{ffff}`));
+        return keys.sort();
+    }
+
+    /**
+     * Get all stored entries, including the entries which have not been written yet. Oldest first.
+     */
+    getAll() {
+        return serialized("persistent-log", async () => {
+            const result = [] as PersistentLogEntry[];
+            if (this.db) {
+                for (const key of await this.getBatchKeys()) {
+                    result.push(...((await this.db.get<PersistentLogEntry[]>(key)) ?? []));
+                }
+            }
+            result.push(...this.pending);
+            return result;
+        });
+    }
+
+    clear() {
+        return serialized("persistent-log", async () => {
+            this.pending = [];
+            this.batch = 0;
+            this.size = 0;
+            await this.db?.clear();
+        });
+    }
+
+    async close() {
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = undefined;
+        }
+        await this.flush();
+        this.db?.close();
+        this.db = undefined;
+    }
+}
@@ -9,10 +9,14 @@ import {
     type FilePathWithPrefix,
     type diff_result,
 } from "../../lib/src/common/types.ts";
-import { ConflictResolveModal } from "./InteractiveConflictResolving/ConflictResolveModal.ts";
+import { ConflictResolveModal, KEEP_BOTH } from "./InteractiveConflictResolving/ConflictResolveModal.ts";
+import { JsonResolveModal } from "../../features/HiddenFileCommon/JsonResolveModal.ts";
 import { AbstractObsidianModule, type IObsidianModule } from "../AbstractObsidianModule.ts";
 import { displayRev, getPath, getPathWithoutPrefix } from "../../common/utils.ts";
 import { fireAndForget } from "octagonal-wheels/promises";
+import type { PreMergedDiffResult } from "../../common/types.ts";
+import { isJSONDocument } from "../../common/jsonMerge.ts";
+import { stripAllPrefixes } from "../../lib/src/string_and_binary/path.ts";
 
 export class ModuleInteractiveConflictResolver extends AbstractObsidianModule implements IObsidianModule {
     $everyOnloadStart(): Promise<boolean> {
@@ -34,6 +38,13 @@ export class ModuleInteractiveConflictResolver extends AbstractObsidianModule im
     }
 
     async $anyResolveConflictByUI(filename: FilePathWithPrefix, conflictCheckResult: diff_result): Promise<boolean> {
+        if (isJSONDocument(filename)) {
+            const resolved = await this.resolveJSONConflictByUI(filename, conflictCheckResult);
+            if (resolved !== undefined) {
+                if (resolved) await this.checkAgainAfterMerge(filename);
+                return false;
+            }
+        }
         this._log("Merge:open conflict dialog", LOG_LEVEL_VERBOSE);
         const dialog = new ConflictResolveModal(this.app, filename, conflictCheckResult);
         dialog.open();
@@ -54,26 +65,40 @@ export class ModuleInteractiveConflictResolver extends AbstractObsidianModule im
         }
         const toDelete = selected;
         // const toKeep = conflictCheckResult.left.rev != toDelete ? conflictCheckResult.left.rev : conflictCheckResult.right.rev;
-        if (toDelete === LEAVE_TO_SUBSEQUENT) {
+        const isPreMerged = (conflictCheckResult as PreMergedDiffResult).preMerged ?? false;
+        if (toDelete === LEAVE_TO_SUBSEQUENT || (isPreMerged && typeof toDelete === "string")) {
             // Concatenate both conflicted revisions.
             // Create a new file by concatenating both conflicted revisions.
-            const p = conflictCheckResult.diff.map((e) => e[1]).join("");
+            // If the three-way merge has been partially done, the chosen side has the merged content and it also should be stored.
+            const p =
+                toDelete === LEAVE_TO_SUBSEQUENT
+                    ? conflictCheckResult.diff.map((e) => e[1]).join("")
+                    : toDelete == conflictCheckResult.left.rev
+                      ? conflictCheckResult.right.data
+                      : conflictCheckResult.left.data;
+            const subTitle = toDelete === LEAVE_TO_SUBSEQUENT ? "UI Concatenated" : "UI Selected (3-way)";
             const delRev = testDoc._conflicts[0];
             if (!(await this.core.databaseFileAccess.storeContent(filename, p))) {
-                this._log(`Concatenated content cannot be stored:${filename}`, LOG_LEVEL_NOTICE);
+                this._log(`Merged content cannot be stored:${filename}`, LOG_LEVEL_NOTICE);
                 return false;
             }
             // 2. As usual, delete the conflicted revision and if there are no conflicts, write the resolved content to the storage.
-            if (
-                (await this.core.$$resolveConflictByDeletingRev(filename, delRev, "UI Concatenated")) ==
-                MISSING_OR_ERROR
-            ) {
+            if ((await this.core.$$resolveConflictByDeletingRev(filename, delRev, subTitle)) == MISSING_OR_ERROR) {
                 this._log(
-                    `Concatenated saved, but cannot delete conflicted revisions: ${filename}, (${displayRev(delRev)})`,
+                    `Merged content saved, but cannot delete conflicted revisions: ${filename}, (${displayRev(delRev)})`,
                     LOG_LEVEL_NOTICE
                 );
                 return false;
             }
+        } else if (toDelete === KEEP_BOTH) {
+            // Keep A as it is, and write B as a sibling file.
+            if (
+                (await this.core.$$resolveConflictByKeepingBoth(filename, conflictCheckResult.right.rev, "UI")) ==
+                MISSING_OR_ERROR
+            ) {
+                this._log(`Merge: Could not keep both: ${filename}`, LOG_LEVEL_NOTICE);
+                return false;
+            }
         } else if (typeof toDelete === "string") {
             // Select one of the conflicted revision to delete.
             if (
@@ -86,6 +111,11 @@ export class ModuleInteractiveConflictResolver extends AbstractObsidianModule im
             this._log(`Merge: Something went wrong: ${filename}, (${toDelete})`, LOG_LEVEL_NOTICE);
             return false;
         }
+        await this.checkAgainAfterMerge(filename);
+        return false;
+    }
+
+    async checkAgainAfterMerge(filename: FilePathWithPrefix) {
         // In here, some merge has been processed.
         // So we have to run replication if configured.
         // TODO: Make this is as a event request
@@ -94,7 +124,78 @@ export class ModuleInteractiveConflictResolver extends AbstractObsidianModule im
         }
         // And, check it again.
         await this.core.$$queueConflictCheck(filename);
-        return false;
+    }
+
+    /**
+     * Show the JSON merging dialog for the JSON document in the vault.
+     * @returns undefined if the revisions are not JSON, then the text diff dialog should be used.
+     */
+    async resolveJSONConflictByUI(
+        filename: FilePathWithPrefix,
+        conflictCheckResult: diff_result
+    ): Promise<boolean | undefined> {
+        const docA = await this.localDatabase.getDBEntry(
+            filename,
+            { rev: conflictCheckResult.left.rev },
+            false,
+            false,
+            true
+        );
+        const docB = await this.localDatabase.getDBEntry(
+            filename,
+            { rev: conflictCheckResult.right.rev },
+            false,
+            false,
+            true
+        );
+        if (docA === false || docB === false || docA.deleted || docB.deleted) return undefined;
+        try {
+            JSON.parse(conflictCheckResult.left.data);
+            JSON.parse(conflictCheckResult.right.data);
+        } catch {
+            this._log(`Merge: ${filename} is not a valid JSON, falling back to the text diff`, LOG_LEVEL_VERBOSE);
+            return undefined;
+        }
+        this._log("Merge:open JSON conflict dialog", LOG_LEVEL_VERBOSE);
+        return await new Promise<boolean>((res) => {
+            const modal = new JsonResolveModal(
+                this.app,
+                stripAllPrefixes(filename),
+                [docA, docB],
+                async (keep, result) => {
+                    if (!keep && !result) {
+                        this._log(`Merge: Cancelled ${filename}`, LOG_LEVEL_INFO);
+                        res(false);
+                        return;
+                    }
+                    if (keep) {
+                        const delRev = keep == docA._rev ? docB._rev! : docA._rev!;
+                        res(
+                            (await this.core.$$resolveConflictByDeletingRev(filename, delRev, "UI Selected")) !=
+                                MISSING_OR_ERROR
+                        );
+                        return;
+                    }
+                    if (!(await this.core.databaseFileAccess.storeContent(filename, result!))) {
+                        this._log(`Merged content cannot be stored:${filename}`, LOG_LEVEL_NOTICE);
+                        res(false);
+                        return;
+                    }
+                    res(
+                        (await this.core.$$resolveConflictByDeletingRev(filename, docB._rev!, "UI JSON Merged")) !=
+                            MISSING_OR_ERROR
+                    );
+                },
+                "A",
+                "B",
+                undefined,
+                true,
+                false,
+                "Conflicted JSON",
+                true
+            );
+            modal.open();
+        });
     }
     async allConflictCheck() {
         while (await this.pickFileForResolve());
@@ -25,6 +25,8 @@ import { addIcon, normalizePath, Notice } from "../../deps.ts";
 import { LOG_LEVEL_NOTICE, setGlobalLogFunction } from "octagonal-wheels/common/logger";
 import { QueueProcessor } from "octagonal-wheels/concurrency/processor";
 import { LogPaneView, VIEW_TYPE_LOG } from "./Log/LogPaneView.ts";
+import { createPersistentLogEntry, PersistentLogStore, type PersistentLogEntry } from "./Log/PersistentLogStore.ts";
+import { VIEW_TYPE_SYNC_ACTIVITY } from "./SyncActivity/SyncActivityView.ts";
 import { serialized } from "octagonal-wheels/concurrency/lock";
 import { $msg } from "src/lib/src/common/i18n.ts";
 import { P2PLogCollector } from "../../lib/src/replication/trystero/P2PReplicatorCore.ts";
@@ -65,6 +67,7 @@ export class ModuleLog extends AbstractObsidianModule implements IObsidianModule
     statusLog = reactiveSource("");
     notifies: { [key: string]: { notice: Notice; count: number } } = {};
     p2pLogCollector = new P2PLogCollector();
+    persistentLog = new PersistentLogStore(() => (this.settings?.persistentLogMaxSizeInMB ?? 0) * 1024 * 1024);
 
     observeForLogs() {
         const padSpaces = `\u{2007}`.repeat(10);
@@ -288,6 +291,7 @@ export class ModuleLog extends AbstractObsidianModule implements IObsidianModule
             this.statusDiv.remove();
         }
         document.querySelectorAll(`.livesync-status`)?.forEach((e) => e.remove());
+        fireAndForget(() => this.persistentLog.close());
         return Promise.resolve(true);
     }
     $everyOnloadStart(): Promise<boolean> {
@@ -309,10 +313,17 @@ export class ModuleLog extends AbstractObsidianModule implements IObsidianModule
                 void this.core.$$showView(VIEW_TYPE_LOG);
             },
         });
-        this.registerView(VIEW_TYPE_LOG, (leaf) => new LogPaneView(leaf, this.plugin));
+        this.registerView(VIEW_TYPE_LOG, (leaf) => new LogPaneView(leaf, this.plugin, this));
         return Promise.resolve(true);
     }
-    $everyOnloadAfterLoadSettings(): Promise<boolean> {
+    async $everyOnloadAfterLoadSettings(): Promise<boolean> {
+        try {
+            // Not in the key-value database of the core; logs should be kept even if the local database is reset.
+            await this.persistentLog.open(this.core.$$getVaultName() + "-livesync-log");
+        } catch (ex) {
+            this._log("Could not open the log store", LOG_LEVEL_NOTICE);
+            this._log(ex, LOG_LEVEL_VERBOSE);
+        }
         logStore
             .pipeTo(
                 new QueueProcessor((logs) => logs.forEach((e) => this.core.$$addLog(e.message, e.level, e.key)), {
@@ -341,9 +352,12 @@ export class ModuleLog extends AbstractObsidianModule implements IObsidianModule
         if (this.settings?.showStatusOnStatusbar) {
             this.statusBar = this.core.addStatusBarItem();
             this.statusBar.addClass("syncstatusbar");
+            // The details of each queue are shown in the dashboard.
+            this.statusBar.setAttribute("aria-label", "Show sync activity");
+            this.statusBar.addEventListener("click", () => void this.core.$$showView(VIEW_TYPE_SYNC_ACTIVITY));
         }
         this.adjustStatusDivPosition();
-        return Promise.resolve(true);
+        return true;
     }
 
     writeLogToTheFile(now: Date, vaultName: string, newMessage: string) {
@@ -362,6 +376,15 @@ export class ModuleLog extends AbstractObsidianModule implements IObsidianModule
             })
         );
     }
+    async exportStoredLogs(entries: PersistentLogEntry[]) {
+        const time = new Date().toISOString().replace(/[:.]/g, "-");
+        const path = normalizePath(`${PREFIXMD_LOGFILE}${time}.jsonl`);
+        await this.core.storageAccess.writeHiddenFileAuto(
+            path,
+            entries.map((e) => JSON.stringify(e)).join("\n") + "\n"
+        );
+        this._log(`${entries.length} log(s) have been exported to ${path}`, LOG_LEVEL_NOTICE);
+    }
     $$addLog(message: any, level: LOG_LEVEL = LOG_LEVEL_INFO, key = ""): void {
         if (level == LOG_LEVEL_DEBUG && !showDebugLog) {
             return;
@@ -394,6 +417,10 @@ export class ModuleLog extends AbstractObsidianModule implements IObsidianModule
         if (this.settings?.writeLogToTheFile) {
             this.writeLogToTheFile(now, vaultName, newMessage);
         }
+        // Verbose messages have been already skipped unless verbose logging is enabled.
+        if (this.settings?.persistentLogMaxSizeInMB) {
+            this.persistentLog.add(createPersistentLogEntry(now.getTime(), level, messageContent));
+        }
         recentLogProcessor.enqueue(newMessage);
         this.logLines.push({ ttl: now.getTime() + 3000, message: newMessage });
 
@@ -12,7 +12,9 @@ import {
 import { LOG_LEVEL_NOTICE, LOG_LEVEL_URGENT } from "octagonal-wheels/common/logger";
 import { encrypt, tryDecrypt } from "octagonal-wheels/encryption";
 import { setLang } from "../../lib/src/common/i18n";
+import { DEFAULT_PLUGIN_SETTINGS_EXTENSION, type LiveSyncPluginSettings } from "../../common/types";
 import { isCloudantURI } from "../../lib/src/pouchdb/utils_couchdb";
+import { migrateSettings, SETTINGS_SCHEMA_VERSION, validateSettings } from "../../common/settingsSchema";
 export class ModuleObsidianSettings extends AbstractObsidianModule implements IObsidianModule {
     getPassphrase(settings: ObsidianLiveSyncSettings) {
         const methods: Record<ConfigPassphraseStore, () => Promise<string | false>> = {
@@ -30,6 +32,11 @@ export class ModuleObsidianSettings extends AbstractObsidianModule implements IO
         localStorage.setItem(lsKey, this.core.$$getDeviceAndVaultName() || "");
     }
 
+    $$saveSelectiveSyncProfile(): void {
+        const lsKey = "obsidian-live-sync-selectivesyncprofile-" + this.core.$$getVaultName();
+        localStorage.setItem(lsKey, this.core.$$getSelectiveSyncProfile() || "");
+    }
+
     usedPassphrase = "";
     $$clearUsedPassphrase(): void {
         this.usedPassphrase = "";
@@ -128,11 +135,31 @@ export class ModuleObsidianSettings extends AbstractObsidianModule implements IO
     }
 
     async $$loadSettings(): Promise<void> {
-        const settings = Object.assign({}, DEFAULT_SETTINGS, await this.core.loadData()) as ObsidianLiveSyncSettings;
+        const data = await this.core.loadData();
+        const settings = Object.assign(
+            {},
+            DEFAULT_SETTINGS,
+            DEFAULT_PLUGIN_SETTINGS_EXTENSION,
+            data
+        ) as LiveSyncPluginSettings;
+        // Nothing to migrate on the new installation.
+        const migrated = data ? migrateSettings(settings) : [];
+        const isSchemaUpdated = data && data.settingsSchemaVersion !== settings.settingsSchemaVersion;
+        if (!data) settings.settingsSchemaVersion = SETTINGS_SCHEMA_VERSION;
+        for (const step of migrated) {
+            this._log(step.notice?.() ?? `Settings have been migrated: ${step.description}`, LOG_LEVEL_NOTICE);
+        }
 
         if (typeof settings.isConfigured == "undefined") {
-            // If migrated, mark true
-            if (JSON.stringify(settings) !== JSON.stringify(DEFAULT_SETTINGS)) {
+            // If migrated, mark true. The schema version is not a configuration.
+            if (
+                JSON.stringify(settings) !==
+                JSON.stringify({
+                    ...DEFAULT_SETTINGS,
+                    ...DEFAULT_PLUGIN_SETTINGS_EXTENSION,
+                    settingsSchemaVersion: settings.settingsSchemaVersion,
+                })
+            ) {
                 settings.isConfigured = true;
             } else {
                 settings.additionalSuffixOfDatabaseName = this.appId;
@@ -193,9 +220,6 @@ export class ModuleObsidianSettings extends AbstractObsidianModule implements IO
         this.settings = settings;
         setLang(this.settings.displayLanguage);
 
-        if ("workingEncrypt" in this.settings) delete this.settings.workingEncrypt;
-        if ("workingPassphrase" in this.settings) delete this.settings.workingPassphrase;
-
         // Delete this feature to avoid problems on mobile.
         this.settings.disableRequestURI = true;
 
@@ -226,7 +250,29 @@ export class ModuleObsidianSettings extends AbstractObsidianModule implements IO
                 this.settings.usePluginSync = false;
             }
         }
+        // The profile is selected for each device, so it is not stored in data.json.
+        this.core.$$setSelectiveSyncProfile(
+            localStorage.getItem("obsidian-live-sync-selectivesyncprofile-" + this.core.$$getVaultName()) || ""
+        );
         // this.core.ignoreFiles = this.settings.ignoreFiles.split(",").map(e => e.trim());
+        if (migrated.length > 0 || isSchemaUpdated) {
+            if (passphrase !== false) {
+                await this.core.$$saveSettingData();
+            } else {
+                // Without the passphrase, data.json cannot be saved with the encrypted items. Hence, migrate the
+                // loaded data as it is, not to migrate (and notify) again on every start.
+                const loaded = { ...data } as LiveSyncPluginSettings;
+                migrateSettings(loaded);
+                await this.core.saveData(loaded);
+            }
+        }
+        const issues = validateSettings(this.settings);
+        if (issues.some((e) => e.level == "error")) {
+            this._log(
+                `${issues.length} issue(s) have been found in the settings. Please check them in the Setup pane of the settings dialogue.`,
+                LOG_LEVEL_NOTICE
+            );
+        }
         eventHub.emitEvent(EVENT_REQUEST_RELOAD_SETTING_TAB);
     }
 }
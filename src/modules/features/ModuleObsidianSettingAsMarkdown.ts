@@ -1,13 +1,44 @@
 import { type IObsidianModule, AbstractObsidianModule } from "../AbstractObsidianModule.ts";
 // import { PouchDB } from "../../lib/src/pouchdb/pouchdb-browser";
-import { isObjectDifferent } from "octagonal-wheels/object";
 import { EVENT_SETTING_SAVED, eventHub } from "../../common/events";
 import { fireAndForget } from "octagonal-wheels/promises";
 import { DEFAULT_SETTINGS, type FilePathWithPrefix, type ObsidianLiveSyncSettings } from "../../lib/src/common/types";
+import { DEFAULT_PLUGIN_SETTINGS_EXTENSION, type LiveSyncPluginSettings } from "../../common/types";
 import { parseYaml, stringifyYaml } from "../../deps";
 import { LOG_LEVEL_DEBUG, LOG_LEVEL_INFO, LOG_LEVEL_NOTICE, LOG_LEVEL_VERBOSE } from "octagonal-wheels/common/logger";
 const SETTING_HEADER = "````yaml:livesync-setting\n";
 const SETTING_FOOTER = "\n````";
+// The base block is shared by all devices; blocks which have the device name (e.g., ````yaml:livesync-setting:laptop)
+// override the base on that device.
+const SETTING_BLOCK_PATTERN = /````yaml:livesync-setting(?::([^\n]*))?\n([\s\S]*?)\n````/g;
+// They are never written to the file, nor applied from the file.
+const SECRET_KEYS = [
+    "couchDB_PASSWORD",
+    "passphrase",
+    "accessKey",
+    "secretKey",
+    "P2P_passphrase",
+    "encryptedPassphrase",
+    "encryptedCouchDBConnection",
+] as const satisfies (keyof ObsidianLiveSyncSettings)[];
+const MAX_DIFF_LINES = 30;
+
+type SettingBlocks = {
+    base?: Partial<ObsidianLiveSyncSettings>;
+    // Keyed by the device name.
+    overrides: Record<string, Partial<ObsidianLiveSyncSettings>>;
+};
+
+function renderSettingBlock(device: string, data: Partial<ObsidianLiveSyncSettings>) {
+    const header = device ? SETTING_HEADER.replace("\n", `:${device}\n`) : SETTING_HEADER;
+    return header + stringifyYaml(data) + SETTING_FOOTER;
+}
+function removeSecrets(settings: Partial<ObsidianLiveSyncSettings>) {
+    for (const key of SECRET_KEYS) {
+        delete settings[key];
+    }
+    return settings;
+}
 export class ModuleObsidianSettingsAsMarkdown extends AbstractObsidianModule implements IObsidianModule {
     $everyOnloadStart(): Promise<boolean> {
         this.addCommand({
@@ -28,8 +59,7 @@ export class ModuleObsidianSettingsAsMarkdown extends AbstractObsidianModule imp
             editorCheckCallback: (checking, editor, ctx) => {
                 if (checking) {
                     const doc = editor.getValue();
-                    const ret = this.extractSettingFromWholeText(doc);
-                    return ret.body != "";
+                    return doc.indexOf(SETTING_HEADER.replace("\n", "")) !== -1;
                 }
                 if (ctx.file) {
                     const file = ctx.file;
@@ -48,44 +78,62 @@ export class ModuleObsidianSettingsAsMarkdown extends AbstractObsidianModule imp
         return Promise.resolve(true);
     }
 
-    extractSettingFromWholeText(data: string): {
-        preamble: string;
-        body: string;
-        postscript: string;
-    } {
-        if (data.indexOf(SETTING_HEADER) === -1) {
-            return {
-                preamble: data,
-                body: "",
-                postscript: "",
-            };
+    /**
+     * Parse all setting blocks in the file.
+     * @returns blocks, or false if any of them could not be parsed.
+     */
+    parseSettingBlocks(data: string): SettingBlocks | false {
+        const result: SettingBlocks = { overrides: {} };
+        const pattern = new RegExp(SETTING_BLOCK_PATTERN);
+        let match;
+        while ((match = pattern.exec(data)) !== null) {
+            const [, device, body] = match;
+            let parsed = {} as Partial<ObsidianLiveSyncSettings>;
+            try {
+                parsed = parseYaml(body) ?? {};
+            } catch (ex) {
+                this._log("Could not parse YAML", LOG_LEVEL_NOTICE);
+                this._log(ex, LOG_LEVEL_VERBOSE);
+                return false;
+            }
+            if (device) {
+                result.overrides[device.trim()] = parsed;
+            } else {
+                result.base = parsed;
+            }
         }
-        const startMarkerPos = data.indexOf(SETTING_HEADER);
-        const dataStartPos = startMarkerPos == -1 ? data.length : startMarkerPos;
-        const endMarkerPos = startMarkerPos == -1 ? data.length : data.indexOf(SETTING_FOOTER, dataStartPos);
-        const dataEndPos = endMarkerPos == -1 ? data.length : endMarkerPos;
-        const body = data.substring(dataStartPos + SETTING_HEADER.length, dataEndPos);
-        const ret = {
-            preamble: data.substring(0, dataStartPos),
-            body,
-            postscript: data.substring(dataEndPos + SETTING_FOOTER.length + 1),
-        };
-        return ret;
+        return result;
     }
 
-    async parseSettingFromMarkdown(filename: string, data?: string) {
+    async parseSettingFromMarkdown(filename: string, data?: string): Promise<SettingBlocks | false> {
         const file = await this.core.storageAccess.isExists(filename);
-        if (!file)
-            return {
-                preamble: "",
-                body: "",
-                postscript: "",
-            };
-        if (data) {
-            return this.extractSettingFromWholeText(data);
-        }
+        if (!file) return { overrides: {} };
         const parseData = data ?? (await this.core.storageAccess.readFileText(filename));
-        return this.extractSettingFromWholeText(parseData);
+        return this.parseSettingBlocks(parseData);
+    }
+
+    /**
+     * Compute the settings of this device from the base block and the override block of this device.
+     */
+    getEffectiveSetting(blocks: SettingBlocks) {
+        const device = this.core.$$getDeviceAndVaultName();
+        const override = device ? blocks.overrides[device] : undefined;
+        return removeSecrets({ ...(blocks.base ?? {}), ...(override ?? {}) });
+    }
+
+    describeSettingDiff(oldSetting: Partial<ObsidianLiveSyncSettings>, newSetting: Partial<ObsidianLiveSyncSettings>) {
+        const oldValues = oldSetting as Record<string, unknown>;
+        const newValues = newSetting as Record<string, unknown>;
+        const keys = [...new Set([...Object.keys(oldValues), ...Object.keys(newValues)])].sort();
+        const lines = keys
+            .filter((key) => JSON.stringify(oldValues[key]) != JSON.stringify(newValues[key]))
+            .map(
+                (key) => `- \`${key}\`: \`${JSON.stringify(oldValues[key])}\` → \`${JSON.stringify(newValues[key])}\``
+            );
+        if (lines.length > MAX_DIFF_LINES) {
+            return [...lines.slice(0, MAX_DIFF_LINES), `- and ${lines.length - MAX_DIFF_LINES} more...`].join("\n");
+        }
+        return lines.join("\n");
     }
 
     async checkAndApplySettingFromMarkdown(filename: string, automated?: boolean) {
@@ -98,15 +146,9 @@ export class ModuleObsidianSettingsAsMarkdown extends AbstractObsidianModule imp
                 return;
             }
         }
-        const { body } = await this.parseSettingFromMarkdown(filename);
-        let newSetting = {} as Partial<ObsidianLiveSyncSettings>;
-        try {
-            newSetting = parseYaml(body);
-        } catch (ex) {
-            this._log("Could not parse YAML", LOG_LEVEL_NOTICE);
-            this._log(ex, LOG_LEVEL_VERBOSE);
-            return;
-        }
+        const blocks = await this.parseSettingFromMarkdown(filename);
+        if (blocks === false) return;
+        const newSetting = this.getEffectiveSetting(blocks);
 
         if ("settingSyncFile" in newSetting && newSetting.settingSyncFile != filename) {
             this._log(
@@ -116,19 +158,22 @@ export class ModuleObsidianSettingsAsMarkdown extends AbstractObsidianModule imp
             return;
         }
 
-        let settingToApply = { ...DEFAULT_SETTINGS } as ObsidianLiveSyncSettings;
+        let settingToApply = { ...DEFAULT_SETTINGS, ...DEFAULT_PLUGIN_SETTINGS_EXTENSION } as LiveSyncPluginSettings;
         settingToApply = { ...settingToApply, ...newSetting };
+        // Secrets are never in the file; keep those of this device.
+        for (const key of SECRET_KEYS) {
+            (settingToApply as Record<string, unknown>)[key] = this.settings[key];
+        }
         if (!settingToApply?.writeCredentialsForSettingSync) {
             //New setting does not contains credentials.
             settingToApply.couchDB_USER = this.settings.couchDB_USER;
-            settingToApply.couchDB_PASSWORD = this.settings.couchDB_PASSWORD;
-            settingToApply.passphrase = this.settings.passphrase;
         }
         const oldSetting = this.generateSettingForMarkdown(
             this.settings,
             settingToApply.writeCredentialsForSettingSync
         );
-        if (!isObjectDifferent(oldSetting, this.generateSettingForMarkdown(settingToApply))) {
+        const diff = this.describeSettingDiff(oldSetting, this.generateSettingForMarkdown(settingToApply));
+        if (diff == "") {
             this._log(
                 "Setting markdown has been detected, but not changed.",
                 automated ? LOG_LEVEL_INFO : LOG_LEVEL_NOTICE
@@ -149,7 +194,7 @@ export class ModuleObsidianSettingsAsMarkdown extends AbstractObsidianModule imp
                         const APPLY_AND_FETCH = "Apply settings and restart obsidian with red_flag_fetch.md";
                         const CANCEL = "Cancel";
                         const result = await this.core.confirm.askSelectStringDialogue(
-                            "Ready for apply the setting.",
+                            `Ready for apply the setting. The following settings will be changed on this device:\n\n${diff}`,
                             [APPLY_AND_RESTART, APPLY_ONLY, APPLY_AND_FETCH, APPLY_AND_REBUILD, CANCEL],
                             { defaultAction: APPLY_AND_RESTART }
                         );
@@ -184,13 +229,10 @@ export class ModuleObsidianSettingsAsMarkdown extends AbstractObsidianModule imp
         keepCredential?: boolean
     ): Partial<ObsidianLiveSyncSettings> {
         const saveData = { ...(settings ? settings : this.settings) } as Partial<ObsidianLiveSyncSettings>;
-        delete saveData.encryptedCouchDBConnection;
-        delete saveData.encryptedPassphrase;
+        removeSecrets(saveData);
         delete saveData.additionalSuffixOfDatabaseName;
         if (!saveData.writeCredentialsForSettingSync && !keepCredential) {
             delete saveData.couchDB_USER;
-            delete saveData.couchDB_PASSWORD;
-            delete saveData.passphrase;
         }
         return saveData;
     }
@@ -202,14 +244,16 @@ export class ModuleObsidianSettingsAsMarkdown extends AbstractObsidianModule imp
         if (!file) {
             await this.core.storageAccess.ensureDir(filename);
             const initialContent = `This file contains Self-Hosted LiveSync settings as YAML.
-Except for the \`livesync-setting\` code block, we can add a note for free.
+Except for the \`livesync-setting\` code blocks, we can add a note for free.
 
 If the name of this file matches the value of the "settingSyncFile" setting inside the \`livesync-setting\` block, LiveSync will tell us whenever the settings change. We can decide to accept or decline the remote setting. (In other words, we can back up this file by renaming it to another name).
 
+The \`livesync-setting\` block is shared by all devices. To use different values on one device, add a block named \`livesync-setting:<device name>\` with only those values; they are kept on that device from then on.
+
 We can perform a command in this file.
 - \`Parse setting file\` : load the setting from the file.
 
-**Note** Please handle it with all of your care if you have configured to write credentials in.
+**Note** Passwords and passphrases are never written to this file. Please handle it with care if you have configured to write the username in.
 
 
 `;
@@ -218,22 +262,38 @@ We can perform a command in this file.
                 initialContent + SETTING_HEADER + "\n" + SETTING_FOOTER
             );
         }
-        // if (!(file instanceof TFile)) {
-        //     this._log(`Markdown Setting: ${filename} already exists as a folder`, LOG_LEVEL_NOTICE);
-        //     return;
-        // }
 
         const data = await this.core.storageAccess.readFileText(filename);
-        const { preamble, body, postscript } = this.extractSettingFromWholeText(data);
-        const newBody = stringifyYaml(saveData);
+        const blocks = this.parseSettingBlocks(data);
+        if (blocks === false) {
+            this._log(`Markdown setting: ${filename} could not be updated, as it has a broken block`, LOG_LEVEL_NOTICE);
+            return;
+        }
+        const device = this.core.$$getDeviceAndVaultName();
+        const override = device ? blocks.overrides[device] : undefined;
+        // The values which are overridden on this device are written into the override block, and the base keeps its own.
+        const baseData = { ...saveData } as Record<string, unknown>;
+        const overrideData = {} as Record<string, unknown>;
+        for (const key of Object.keys(override ?? {})) {
+            if (!(key in saveData)) continue;
+            overrideData[key] = baseData[key];
+            if (blocks.base && key in blocks.base) {
+                baseData[key] = (blocks.base as Record<string, unknown>)[key];
+            } else {
+                delete baseData[key];
+            }
+        }
+        const replaced = data.replace(SETTING_BLOCK_PATTERN, (block: string, blockDevice: string | undefined) => {
+            if (!blockDevice) return renderSettingBlock("", baseData);
+            if (blockDevice.trim() == device) return renderSettingBlock(device, overrideData);
+            return block;
+        });
+        const newData = blocks.base ? replaced : `${replaced}\n${renderSettingBlock("", baseData)}`;
 
-        if (newBody == body) {
+        if (newData == data) {
             this._log("Markdown setting: Nothing had been changed", LOG_LEVEL_VERBOSE);
         } else {
-            await this.core.storageAccess.writeFileAuto(
-                filename,
-                preamble + SETTING_HEADER + newBody + SETTING_FOOTER + postscript
-            );
+            await this.core.storageAccess.writeFileAuto(filename, newData);
             this._log(`Markdown setting: ${filename} has been updated!`, LOG_LEVEL_VERBOSE);
         }
     }
@@ -0,0 +1,175 @@
+import { AbstractObsidianModule, type IObsidianModule } from "../AbstractObsidianModule.ts";
+import {
+    LOG_LEVEL_NOTICE,
+    LOG_LEVEL_VERBOSE,
+    type AnyEntry,
+    type FilePath,
+    type FilePathWithPrefix,
+    type UXFileInfoStub,
+} from "../../lib/src/common/types.ts";
+import { readContent } from "../../lib/src/common/utils.ts";
+import { isPlainText } from "../../lib/src/string_and_binary/path.ts";
+import { sizeToHumanReadable } from "octagonal-wheels/number";
+import {
+    BASE_IS_NEW,
+    compareFileFreshness,
+    getPath,
+    getPathOfPlaceholder,
+    getPathWithoutPrefix,
+    getPlaceholderPath,
+    isPlaceholderPath,
+} from "../../common/utils.ts";
+
+/**
+ * Placeholders are small Markdown files which are written instead of large (or excluded) binary files.
+ * The file which has a placeholder is not a target file on this device, so neither the placeholder nor the
+ * eviction of the file is synchronised. The content can be fetched from the local database on demand.
+ */
+export class ModulePlaceholderFiles extends AbstractObsidianModule implements IObsidianModule {
+    $everyOnloadStart(): Promise<boolean> {
+        this.addCommand({
+            id: "livesync-placeholder-fetch",
+            name: "Fetch the file of this placeholder",
+            checkCallback: (checking) => {
+                const path = this.core.$$getActiveFilePath();
+                if (!this.settings.usePlaceholderFiles || !path || !isPlaceholderPath(path)) return false;
+                if (checking) return true;
+                void this.fetchPlaceholder(path);
+            },
+        });
+        this.addCommand({
+            id: "livesync-placeholder-evict",
+            name: "Evict this file and leave a placeholder",
+            checkCallback: (checking) => {
+                const path = this.core.$$getActiveFilePath();
+                if (!this.settings.usePlaceholderFiles || !path) return false;
+                if (isPlaceholderPath(path) || isPlainText(path)) return false;
+                if (checking) return true;
+                void this.evictFile(path);
+            },
+        });
+        this.addCommand({
+            id: "livesync-placeholder-create-all",
+            name: "Write placeholders for the files which are not on this device",
+            callback: async () => {
+                await this.createAllPlaceholders();
+            },
+        });
+        return Promise.resolve(true);
+    }
+
+    async $anyProcessSkippedReplicatedDoc(doc: AnyEntry): Promise<boolean | undefined> {
+        if (!this.settings.usePlaceholderFiles) return undefined;
+        if (!this.isPlaceholderTarget(doc)) return undefined;
+        await this.writePlaceholder(doc);
+        return true;
+    }
+
+    isPlaceholderTarget(doc: AnyEntry) {
+        const path = getPathWithoutPrefix(doc);
+        // Hidden files and customisations are handled by other modules.
+        if (path != getPath(doc)) return false;
+        if (isPlaceholderPath(path) || isPlainText(path)) return false;
+        if (this.core.storageAccess.getFileStub(getPlaceholderPath(path))) return true;
+        return this.core.$$isExcludedBySelectiveSync(path) || this.core.$$isFileSizeExceeded(doc.size);
+    }
+
+    createPlaceholderContent(doc: AnyEntry) {
+        const path = getPathWithoutPrefix(doc);
+        return `---
+livesync-placeholder: ${JSON.stringify(path)}
+size: ${doc.size}
+mtime: ${new Date(doc.mtime).toISOString()}
+---
+\`${path}\` (${sizeToHumanReadable(doc.size)}) has not been downloaded to this device.
+
+Run the command \`Fetch the file of this placeholder\` while this note is open to download it.
+`;
+    }
+
+    async writePlaceholder(doc: AnyEntry) {
+        const path = getPathWithoutPrefix(doc);
+        const placeholderPath = getPlaceholderPath(path);
+        if (doc.deleted || doc._deleted) {
+            if (this.core.storageAccess.getFileStub(placeholderPath)) {
+                await this.core.storageAccess.delete(placeholderPath, true);
+                this._log(`Placeholder of ${path} has been deleted`, LOG_LEVEL_VERBOSE);
+            }
+            return;
+        }
+        // The file is on the storage (e.g., not synchronised yet); we should not hide it.
+        if (this.core.storageAccess.getFileStub(path)) return;
+        await this.core.storageAccess.ensureDir(placeholderPath);
+        await this.core.storageAccess.writeFileAuto(placeholderPath, this.createPlaceholderContent(doc), {
+            ctime: doc.ctime,
+            mtime: doc.mtime,
+        });
+        this._log(`Placeholder of ${path} has been written`, LOG_LEVEL_VERBOSE);
+    }
+
+    async fetchPlaceholder(placeholderPath: FilePathWithPrefix) {
+        const path = getPathOfPlaceholder(placeholderPath);
+        const doc = await this.localDatabase.getDBEntry(path as FilePathWithPrefix, undefined, false, true, true);
+        if (!doc) {
+            this._log(
+                `Could not fetch ${path} from the database. Please try again after replication`,
+                LOG_LEVEL_NOTICE
+            );
+            return;
+        }
+        if (doc.deleted || doc._deleted) {
+            this._log(`${path} has been deleted`, LOG_LEVEL_NOTICE);
+            await this.writePlaceholder(doc);
+            return;
+        }
+        // Write the file before removing the placeholder, so that the creation is not synchronised.
+        await this.core.storageAccess.ensureDir(path);
+        await this.core.storageAccess.writeFileAuto(path, readContent(doc), { ctime: doc.ctime, mtime: doc.mtime });
+        this.core.storageAccess.touched(path as FilePathWithPrefix);
+        await this.core.storageAccess.delete(placeholderPath, true);
+        this._log(`${path} has been fetched`, LOG_LEVEL_NOTICE);
+    }
+
+    async evictFile(path: FilePathWithPrefix | FilePath) {
+        const file = this.core.storageAccess.getFileStub(path);
+        if (!file) return;
+        const doc = await this.core.databaseFileAccess.fetchEntryMeta(file, undefined, false);
+        if (!doc || doc.deleted || doc._deleted || compareFileFreshness(file, doc) == BASE_IS_NEW) {
+            this._log(`${path} has not been synchronised yet. Could not evict it`, LOG_LEVEL_NOTICE);
+            return;
+        }
+        await this.evict(file, doc);
+        this._log(`${path} has been evicted`, LOG_LEVEL_NOTICE);
+    }
+
+    /**
+     * Replace the file with the placeholder. The placeholder should be written before the deletion, so that the
+     * deletion is not synchronised.
+     */
+    async evict(file: UXFileInfoStub, doc: AnyEntry) {
+        const placeholderPath = getPlaceholderPath(file.path);
+        await this.core.storageAccess.writeFileAuto(placeholderPath, this.createPlaceholderContent(doc), {
+            ctime: doc.ctime,
+            mtime: doc.mtime,
+        });
+        await this.core.storageAccess.delete(file, true);
+    }
+
+    async createAllPlaceholders() {
+        if (!this.settings.usePlaceholderFiles) {
+            this._log("Placeholders are not enabled", LOG_LEVEL_NOTICE);
+            return;
+        }
+        let count = 0;
+        for await (const doc of this.localDatabase.findAllNormalDocs()) {
+            if (!this.isPlaceholderTarget(doc)) continue;
+            const path = getPathWithoutPrefix(doc);
+            if (doc.deleted || doc._deleted) continue;
+            if (this.core.storageAccess.getFileStub(path)) continue;
+            if (this.core.storageAccess.getFileStub(getPlaceholderPath(path))) continue;
+            await this.writePlaceholder(doc);
+            count++;
+        }
+        this._log(`${count} placeholder(s) have been written`, LOG_LEVEL_NOTICE);
+    }
+}
@@ -0,0 +1,210 @@
+import { AbstractObsidianModule, type IObsidianModule } from "../AbstractObsidianModule.ts";
+import {
+    LOG_LEVEL_INFO,
+    LOG_LEVEL_NOTICE,
+    LOG_LEVEL_VERBOSE,
+    type FilePathWithPrefix,
+    type MetaEntry,
+} from "../../lib/src/common/types.ts";
+import { delay } from "../../lib/src/common/utils.ts";
+import { getPath, getPathWithoutPrefix } from "../../common/utils.ts";
+import { stripAllPrefixes } from "../../lib/src/string_and_binary/path.ts";
+import type { RenamedMetaEntry } from "../../common/types.ts";
+import { ReplicationPreviewModal, type PreviewItem } from "./ReplicationPreview/ReplicationPreviewModal.ts";
+
+// Give up waiting for the replication result processing after this, and show what we have got.
+const PREVIEW_WAIT_LIMIT = 60 * 1000;
+const KV_KEY_DISCARDED_REVISIONS = "replication-preview-discarded";
+
+/**
+ * Note: The first synchronisation (i.e., fetching everything from the remote) is not previewed. It is applied to the
+ * storage by the full scan of `$$performFullScan`, which only honours the discarded revisions.
+ */
+export class ModuleReplicationPreview extends AbstractObsidianModule implements IObsidianModule {
+    // While previewing, replicated documents are kept in the staging area instead of being applied to the storage.
+    // Note that the staging area is not persisted. Documents which have been staged before restarting will be
+    // applied by the full scan on the next start-up.
+    isPreviewing = false;
+    staged = new Map<FilePathWithPrefix, MetaEntry>();
+    // Revisions which have been discarded on this device, keyed by the path. They are kept in the local database as
+    // they are, but never applied to the storage. Newer revisions are applied (or previewed) as usual.
+    discarded = {} as Record<FilePathWithPrefix, string>;
+
+    $everyOnloadStart(): Promise<boolean> {
+        this.addCommand({
+            id: "livesync-preview-replication",
+            name: "Preview replication",
+            callback: async () => {
+                await this.previewReplication();
+            },
+        });
+        this.addCommand({
+            id: "livesync-review-staged",
+            name: "Review staged changes of the replication preview",
+            checkCallback: (checking) => {
+                if (checking) return this.isPreviewing;
+                void this.reviewStagedChanges();
+            },
+        });
+        return Promise.resolve(true);
+    }
+
+    async $everyOnloadAfterLoadSettings(): Promise<boolean> {
+        this.discarded =
+            (await this.core.kvDB.get<Record<FilePathWithPrefix, string>>(KV_KEY_DISCARDED_REVISIONS)) ?? {};
+        return true;
+    }
+
+    async $anyHoldReplicatedDoc(entry: MetaEntry): Promise<boolean | undefined> {
+        const path = getPath(entry);
+        if (path in this.discarded) {
+            if (this.discarded[path] == entry._rev) {
+                this._log(`Replication preview: ${path} has been discarded on this device`, LOG_LEVEL_VERBOSE);
+                return true;
+            }
+            delete this.discarded[path];
+            await this.core.kvDB.set(KV_KEY_DISCARDED_REVISIONS, this.discarded);
+        }
+        if (!this.isPreviewing) return undefined;
+        // The content will be read again from the local database when it is applied.
+        const meta = { ...entry } as MetaEntry & { data?: unknown };
+        delete meta.data;
+        this.staged.set(path, meta);
+        this._log(`Replication preview: Staged ${path}`, LOG_LEVEL_VERBOSE);
+        return true;
+    }
+
+    async previewReplication() {
+        if (this.isPreviewing) {
+            await this.reviewStagedChanges();
+            return;
+        }
+        this.isPreviewing = true;
+        this._log("Replication preview: Fetching changes from the remote...", LOG_LEVEL_NOTICE);
+        let isFetched = false;
+        try {
+            // Only pull; the changes of this device are sent by the next replication as usual.
+            isFetched = await this.core.$$replicateAllFromServer(true);
+            await this.waitForReplicationResultProcessed();
+        } catch (ex) {
+            this._log(ex, LOG_LEVEL_VERBOSE);
+        }
+        if (!isFetched) {
+            this._log("Replication preview: Could not fetch changes from the remote", LOG_LEVEL_NOTICE);
+            // Otherwise, documents replicated later would be staged silently for the rest of the session.
+            if (this.staged.size == 0) {
+                this.isPreviewing = false;
+                return;
+            }
+        }
+        await this.reviewStagedChanges();
+    }
+
+    async waitForReplicationResultProcessed() {
+        const isRemaining = () =>
+            this.core.replicationResultCount.value +
+                this.core.databaseQueueCount.value +
+                this.core.storageApplyingCount.value >
+            0;
+        const startedAt = Date.now();
+        while (isRemaining()) {
+            if (Date.now() - startedAt > PREVIEW_WAIT_LIMIT) {
+                this._log("Replication preview: Some changes are still being processed", LOG_LEVEL_INFO);
+                return;
+            }
+            await delay(100);
+        }
+    }
+
+    async classify(entry: RenamedMetaEntry): Promise<PreviewItem | false> {
+        const path = getPath(entry);
+        const isExists = await this.core.storageAccess.isExists(getPathWithoutPrefix(entry));
+        const isDeleted = entry.deleted || entry._deleted || false;
+        const item = { path, mtime: entry.mtime };
+        if ((await this.core.databaseFileAccess.getConflictedRevs(path)).length > 0) {
+            return { ...item, action: "conflict" };
+        }
+        if (isDeleted) {
+            // Nothing would be happened.
+            if (!isExists) return false;
+            return { ...item, action: "delete" };
+        }
+        if (isExists) return { ...item, action: "modify" };
+        if (entry.renamedFrom && (await this.core.storageAccess.isExists(stripAllPrefixes(entry.renamedFrom)))) {
+            return { ...item, action: "rename" };
+        }
+        return { ...item, action: "create" };
+    }
+
+    async reviewStagedChanges() {
+        const items = [] as PreviewItem[];
+        for (const entry of [...this.staged.values()]) {
+            const item = await this.classify(entry);
+            if (item) {
+                items.push(item);
+            } else {
+                await this.acceptStaged(getPath(entry));
+            }
+        }
+        if (items.length == 0) {
+            this._log("Replication preview: There are no changes to apply", LOG_LEVEL_NOTICE);
+            this.finishPreviewIfEmpty();
+            return;
+        }
+        const decision = await new ReplicationPreviewModal(this.app, items).waitForDecision();
+        if (decision === false) {
+            this._log(
+                `Replication preview: ${this.staged.size} change(s) are kept in the staging area. You can review them by "Review staged changes of the replication preview"`,
+                LOG_LEVEL_NOTICE
+            );
+            return;
+        }
+        for (const path of decision.accepted) {
+            await this.acceptStaged(path);
+        }
+        for (const path of decision.discarded) {
+            await this.discardStaged(path);
+        }
+        this._log(
+            `Replication preview: ${decision.accepted.length} change(s) accepted, ${decision.discarded.length} change(s) discarded`,
+            LOG_LEVEL_NOTICE
+        );
+        this.finishPreviewIfEmpty();
+    }
+
+    finishPreviewIfEmpty() {
+        // Changes which have been arrived while reviewing are still staged.
+        if (this.staged.size != 0) {
+            this._log(
+                `Replication preview: ${this.staged.size} change(s) have been arrived while reviewing. Please review them again.`,
+                LOG_LEVEL_NOTICE
+            );
+            return;
+        }
+        this.isPreviewing = false;
+    }
+
+    async acceptStaged(path: FilePathWithPrefix) {
+        const entry = this.staged.get(path);
+        if (!entry) return;
+        this.staged.delete(path);
+        await this.core.$anyProcessReplicatedDoc(entry);
+    }
+
+    /**
+     * Keep the file on the storage as it is. The revision is not applied to the storage, and nothing is written to
+     * the local database; hence the other devices are not affected. Editing the file later supersedes the revision.
+     */
+    async discardStaged(path: FilePathWithPrefix) {
+        const entry = this.staged.get(path);
+        if (!entry) return;
+        this.staged.delete(path);
+        if ((await this.core.databaseFileAccess.getConflictedRevs(path)).length > 0) {
+            // Conflicts should be resolved as usual.
+            await this.core.$$queueConflictCheckIfOpen(path);
+            return;
+        }
+        this.discarded[path] = entry._rev;
+        await this.core.kvDB.set(KV_KEY_DISCARDED_REVISIONS, this.discarded);
+    }
+}
@@ -0,0 +1,71 @@
+import { AbstractObsidianModule, type IObsidianModule } from "../AbstractObsidianModule.ts";
+import {
+    LOG_LEVEL_NOTICE,
+    LOG_LEVEL_VERBOSE,
+    type MetaEntry,
+    type UXFileInfoStub,
+} from "../../lib/src/common/types.ts";
+import { BASE_IS_NEW, compareFileFreshness } from "../../common/utils.ts";
+
+export class ModuleSelectiveSync extends AbstractObsidianModule implements IObsidianModule {
+    $everyOnloadStart(): Promise<boolean> {
+        this.addCommand({
+            id: "livesync-apply-selective-sync-profile",
+            name: "Apply selective sync profile to the storage",
+            callback: async () => {
+                await this.core.$$applySelectiveSyncProfile();
+            },
+        });
+        return Promise.resolve(true);
+    }
+
+    /**
+     * Remove files which have been excluded by the selective sync profile from the storage, and write files which
+     * have been included newly.
+     * Removed files are kept in the local database (and the remote), as they are no longer target files; deletions
+     * are not propagated.
+     */
+    async $$applySelectiveSyncProfile(): Promise<void> {
+        const profile = this.core.$$getSelectiveSyncProfile();
+        const removable = [] as { file: UXFileInfoStub; doc: MetaEntry }[];
+        const kept = [] as string[];
+        for (const file of this.core.storageAccess.getFiles()) {
+            if (!this.core.$$isExcludedBySelectiveSync(file)) continue;
+            const doc = await this.core.databaseFileAccess.fetchEntryMeta(file, undefined, false);
+            // Files which have not been synchronised yet should not be removed; we will lose them.
+            if (!doc || doc.deleted || doc._deleted || compareFileFreshness(file, doc) == BASE_IS_NEW) {
+                kept.push(file.path);
+                continue;
+            }
+            removable.push({ file, doc });
+        }
+        if (kept.length > 0) {
+            this._log(
+                `Selective sync: ${kept.length} excluded file(s) have been kept on the storage, because they have not been synchronised yet.`,
+                LOG_LEVEL_NOTICE
+            );
+            this._log(kept.join("\n"), LOG_LEVEL_VERBOSE);
+        }
+        if (removable.length > 0) {
+            const ret = await this.core.confirm.askYesNoDialog(
+                `${removable.length} file(s) have been excluded by the selective sync profile \`${profile}\`. Do you want to remove them from this device? They will not be deleted from the remote database and other devices.`,
+                { defaultOption: "No" }
+            );
+            if (ret == "yes") {
+                for (const { file, doc } of removable) {
+                    if (this.settings.trashInsteadDelete) {
+                        await this.core.storageAccess.trash(file, false);
+                    } else {
+                        await this.core.storageAccess.delete(file, true);
+                    }
+                    this._log(`Selective sync: ${file.path} has been removed from the storage`, LOG_LEVEL_VERBOSE);
+                    // e.g., Leave a placeholder.
+                    await this.core.$anyProcessSkippedReplicatedDoc(doc);
+                }
+                this._log(`Selective sync: ${removable.length} file(s) have been removed`, LOG_LEVEL_NOTICE);
+            }
+        }
+        // Files which have been included newly exist only in the database. Write them to the storage.
+        await this.core.$$performFullScan(true);
+    }
+}
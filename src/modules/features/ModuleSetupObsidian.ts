@@ -1,22 +1,73 @@
 import {
     type ObsidianLiveSyncSettings,
+    type RemoteDBSettings,
     DEFAULT_SETTINGS,
     LOG_LEVEL_NOTICE,
     LOG_LEVEL_VERBOSE,
+    REMOTE_MINIO,
+    REMOTE_P2P,
 } from "../../lib/src/common/types.ts";
-import { configURIBase } from "../../common/types.ts";
+import {
+    configURIBase,
+    configURIChunkBase,
+    DEFAULT_PLUGIN_SETTINGS_EXTENSION,
+    SETUP_URI_VERSION,
+    type IssuedSetupURI,
+    type LiveSyncPluginSettings,
+    type SetupURIChunk,
+    type SetupURIPayload,
+    type SetupURIScope,
+} from "../../common/types.ts";
 // import { PouchDB } from "../../lib/src/pouchdb/pouchdb-browser.js";
 import { decrypt, encrypt } from "../../lib/src/encryption/e2ee_v2.ts";
 import { fireAndForget } from "../../lib/src/common/utils.ts";
 import { EVENT_REQUEST_COPY_SETUP_URI, EVENT_REQUEST_OPEN_SETUP_URI, eventHub } from "../../common/events.ts";
 import { AbstractObsidianModule, type IObsidianModule } from "../AbstractObsidianModule.ts";
+import {
+    isFileDropRemote,
+    joinSetupURIChunks,
+    parseSetupURIChunk,
+    parseSetupURIChunkParams,
+    splitSetupURI,
+} from "../../common/utils.ts";
+import { SetupURIQRCodeModal } from "./SetupURI/SetupURIQRCodeModal.ts";
+
+const KV_KEY_ISSUED_SETUP_URIS = "issued-setup-uris";
+// Longer QR codes are hard to scan with the camera of the phones.
+const MAX_QR_CODE_LENGTH = 800;
+
+const EXPIRY_CHOICES = {
+    "1 hour": 60 * 60 * 1000,
+    "1 day": 24 * 60 * 60 * 1000,
+    "7 days": 7 * 24 * 60 * 60 * 1000,
+    "30 days": 30 * 24 * 60 * 60 * 1000,
+    Never: 0,
+} as const;
+const SCOPE_FULL = "Full access";
+const SCOPE_READ_ONLY = "Read-only";
+const SCOPE_THIS_VAULT = "This vault only";
+const SCOPE_READ_ONLY_THIS_VAULT = "Read-only, this vault only";
+
+function describeScope(scope: SetupURIScope) {
+    const access = scope.readOnly ? "read-only" : "full access";
+    return scope.vaultName ? `${access}, vault \`${scope.vaultName}\` only` : access;
+}
+function describeExpiry(expires: number) {
+    return expires == 0 ? "never" : new Date(expires).toLocaleString();
+}
 
 export class ModuleSetupObsidian extends AbstractObsidianModule implements IObsidianModule {
+    receivedSetupURIChunks = [] as SetupURIChunk[];
+
     $everyOnload(): Promise<boolean> {
-        this.registerObsidianProtocolHandler(
-            "setuplivesync",
-            async (conf: any) => await this.setupWizard(conf.settings)
-        );
+        this.registerObsidianProtocolHandler("setuplivesync", async (conf: any) => {
+            if (conf.set) {
+                const chunk = parseSetupURIChunkParams(conf);
+                if (chunk) await this.receiveSetupURIChunk(chunk);
+                return;
+            }
+            await this.setupWizard(conf.settings);
+        });
 
         this.addCommand({
             id: "livesync-copysetupuri",
@@ -35,17 +86,34 @@ export class ModuleSetupObsidian extends AbstractObsidianModule implements IObsi
             callback: () => fireAndForget(this.command_copySetupURIFull()),
         });
 
+        this.addCommand({
+            id: "livesync-showsetupuriqrcode",
+            name: "Show settings as setup QR codes",
+            callback: () => fireAndForget(this.command_copySetupURI(true, true)),
+        });
+
+        this.addCommand({
+            id: "livesync-revokesetupuri",
+            name: "Revoke an issued setup URI",
+            callback: () => fireAndForget(this.command_revokeSetupURI()),
+        });
+
         this.addCommand({
             id: "livesync-opensetupuri",
             name: "Use the copied setup URI (Formerly Open setup URI)",
             callback: () => fireAndForget(this.command_openSetupURI()),
         });
+        this.addCommand({
+            id: "livesync-opensetupurichunks",
+            name: "Use the setup URI split into numbered chunks",
+            callback: () => fireAndForget(this.command_openSetupURIChunks()),
+        });
         eventHub.onEvent(EVENT_REQUEST_OPEN_SETUP_URI, () => fireAndForget(() => this.command_openSetupURI()));
         eventHub.onEvent(EVENT_REQUEST_COPY_SETUP_URI, () => fireAndForget(() => this.command_copySetupURI()));
         return Promise.resolve(true);
     }
 
-    async command_copySetupURI(stripExtra = true) {
+    async command_copySetupURI(stripExtra = true, asQRCode = false) {
         const encryptingPassphrase = await this.core.confirm.askString(
             "Encrypt your settings",
             "The passphrase to encrypt the setup URI",
@@ -71,12 +139,7 @@ export class ModuleSetupObsidian extends AbstractObsidianModule implements IObsi
                 delete setting[k];
             }
         }
-        const encryptedSetting = encodeURIComponent(
-            await encrypt(JSON.stringify(setting), encryptingPassphrase, false)
-        );
-        const uri = `${configURIBase}${encryptedSetting}`;
-        await navigator.clipboard.writeText(uri);
-        this._log("Setup URI copied to clipboard", LOG_LEVEL_NOTICE);
+        await this.issueSetupURI(setting, encryptingPassphrase, asQRCode);
     }
     async command_copySetupURIFull() {
         const encryptingPassphrase = await this.core.confirm.askString(
@@ -92,13 +155,104 @@ export class ModuleSetupObsidian extends AbstractObsidianModule implements IObsi
             encryptedCouchDBConnection: "",
             encryptedPassphrase: "",
         };
+        await this.issueSetupURI(setting, encryptingPassphrase);
+    }
+    async askSetupURIConditions(): Promise<Pick<IssuedSetupURI, "expires" | "scope"> | false> {
+        const expiry = await this.core.confirm.askSelectStringDialogue(
+            "How long should the setup URI be valid?",
+            Object.keys(EXPIRY_CHOICES) as (keyof typeof EXPIRY_CHOICES)[],
+            { title: "Setup URI", defaultAction: "1 day" }
+        );
+        if (expiry === false) return false;
+        const scopeChoice = await this.core.confirm.askSelectStringDialogue(
+            "What should the device which uses the setup URI be allowed to do?",
+            [SCOPE_FULL, SCOPE_READ_ONLY, SCOPE_THIS_VAULT, SCOPE_READ_ONLY_THIS_VAULT],
+            { title: "Setup URI", defaultAction: SCOPE_FULL }
+        );
+        if (scopeChoice === false) return false;
+        const duration = EXPIRY_CHOICES[expiry];
+        return {
+            expires: duration == 0 ? 0 : Date.now() + duration,
+            scope: {
+                readOnly: scopeChoice == SCOPE_READ_ONLY || scopeChoice == SCOPE_READ_ONLY_THIS_VAULT,
+                vaultName:
+                    scopeChoice == SCOPE_THIS_VAULT || scopeChoice == SCOPE_READ_ONLY_THIS_VAULT
+                        ? this.core.$$vaultName()
+                        : "",
+            },
+        };
+    }
+
+    /**
+     * Encrypt the settings into the setup URI with the expiry and the scope, and copy it to the clipboard or show it
+     * as QR codes. Issued URIs are kept on this device, to be revoked later.
+     */
+    async issueSetupURI(setting: Partial<LiveSyncPluginSettings>, encryptingPassphrase: string, asQRCode = false) {
+        const conditions = await this.askSetupURIConditions();
+        if (conditions === false) return;
+        const issued: IssuedSetupURI = {
+            id: crypto.randomUUID(),
+            issued: Date.now(),
+            ...conditions,
+        };
+        const settings = { ...setting } as Partial<LiveSyncPluginSettings>;
+        // The scope of the URI is applied on the importing device, not inherited from this device.
+        delete settings.readOnlyDevice;
+        const payload: SetupURIPayload = {
+            setupURIVersion: SETUP_URI_VERSION,
+            ...issued,
+            settings,
+        };
         const encryptedSetting = encodeURIComponent(
-            await encrypt(JSON.stringify(setting), encryptingPassphrase, false)
+            await encrypt(JSON.stringify(payload), encryptingPassphrase, false)
         );
         const uri = `${configURIBase}${encryptedSetting}`;
-        await navigator.clipboard.writeText(uri);
-        this._log("Setup URI copied to clipboard", LOG_LEVEL_NOTICE);
+        if (asQRCode) {
+            new SetupURIQRCodeModal(this.app, splitSetupURI(uri, MAX_QR_CODE_LENGTH)).open();
+        } else {
+            await navigator.clipboard.writeText(uri);
+        }
+        await this.saveIssuedSetupURIs([...(await this.getIssuedSetupURIs()), issued]);
+        this._log(
+            `Setup URI ${asQRCode ? "shown as QR codes" : "copied to clipboard"} (ID: ${issued.id}, ${describeScope(issued.scope)}, expires: ${describeExpiry(issued.expires)})`,
+            LOG_LEVEL_NOTICE
+        );
     }
+
+    async getIssuedSetupURIs() {
+        const issued = (await this.core.kvDB.get<IssuedSetupURI[]>(KV_KEY_ISSUED_SETUP_URIS)) ?? [];
+        // Expired URIs do not have to be revoked.
+        return issued.filter((e) => e.expires == 0 || e.expires > Date.now());
+    }
+    async saveIssuedSetupURIs(issued: IssuedSetupURI[]) {
+        await this.core.kvDB.set(KV_KEY_ISSUED_SETUP_URIS, issued);
+    }
+
+    async command_revokeSetupURI() {
+        const issued = await this.getIssuedSetupURIs();
+        const ENTER_MANUALLY = "Enter the ID manually";
+        const items = Object.fromEntries(
+            issued.map((e) => [
+                `${e.id} (issued: ${new Date(e.issued).toLocaleString()}, ${describeScope(e.scope)}, expires: ${describeExpiry(e.expires)})`,
+                e.id,
+            ])
+        );
+        const selected = await this.core.confirm.askSelectString("Select the setup URI to revoke", [
+            ...Object.keys(items),
+            ENTER_MANUALLY,
+        ]);
+        if (!selected) return;
+        let id: string | false = items[selected];
+        if (selected == ENTER_MANUALLY) {
+            id = await this.core.confirm.askString("Revoke setup URI", "ID", "");
+        }
+        if (!id || id.trim() == "") return;
+        id = id.trim();
+        if (await this.core.$$revokeSetupURI(id)) {
+            await this.saveIssuedSetupURIs(issued.filter((e) => e.id != id));
+        }
+    }
+
     async command_copySetupURIWithSync() {
         await this.command_copySetupURI(false);
     }
@@ -113,6 +267,119 @@ export class ModuleSetupObsidian extends AbstractObsidianModule implements IObsi
         console.dir(config);
         await this.setupWizard(config);
     }
+    /**
+     * Collect the chunk of the setup URI, and start the setup wizard when all chunks have been received.
+     * @returns true if all chunks have been received.
+     */
+    async receiveSetupURIChunk(chunk: SetupURIChunk) {
+        const received = this.receivedSetupURIChunks.filter((e) => e.set == chunk.set && e.index != chunk.index);
+        this.receivedSetupURIChunks = [...received, chunk];
+        const joined = joinSetupURIChunks(this.receivedSetupURIChunks);
+        if (joined === false) {
+            this._log(
+                `Received ${this.receivedSetupURIChunks.length} of ${chunk.total} chunks of the setup URI`,
+                LOG_LEVEL_NOTICE
+            );
+            return false;
+        }
+        this.receivedSetupURIChunks = [];
+        await this.setupWizard(joined);
+        return true;
+    }
+
+    async command_openSetupURIChunks() {
+        this.receivedSetupURIChunks = [];
+        while (true) {
+            const received = this.receivedSetupURIChunks;
+            const key =
+                received.length == 0
+                    ? "A chunk (in any order)"
+                    : `The next chunk (${received.length} of ${received[0].total} received)`;
+            const text = await this.core.confirm.askString("Setup URI in chunks", key, `${configURIChunkBase}...`);
+            if (text === false) return;
+            const chunk = parseSetupURIChunk(text.trim());
+            if (chunk === false) {
+                this._log("This does not look like a chunk of the setup URI", LOG_LEVEL_NOTICE);
+                continue;
+            }
+            if (await this.receiveSetupURIChunk(chunk)) return;
+        }
+    }
+
+    /**
+     * Refuse the setup URI if it has expired, is not for this vault, or has been revoked.
+     * If the revocation could not be checked, the URI is refused unless the user explicitly accepts it.
+     * @returns whether the revocation has been checked, or false if the URI should be refused.
+     */
+    async verifySetupURI(payload: SetupURIPayload): Promise<"checked" | "unchecked" | false> {
+        if (payload.expires != 0 && payload.expires < Date.now()) {
+            this._log(`This setup URI has expired at ${describeExpiry(payload.expires)}`, LOG_LEVEL_NOTICE);
+            return false;
+        }
+        if (payload.scope.vaultName && payload.scope.vaultName != this.core.$$vaultName()) {
+            this._log(`This setup URI can only be used in the vault ${payload.scope.vaultName}`, LOG_LEVEL_NOTICE);
+            return false;
+        }
+        const revoked = await this.core.$$fetchRevokedSetupURIs({
+            ...DEFAULT_SETTINGS,
+            ...payload.settings,
+        } as RemoteDBSettings);
+        if (revoked === false) {
+            const CHOICE_CANCEL = "Cancel";
+            const CHOICE_IMPORT = "Import anyway";
+            const ret = await this.core.confirm.askSelectStringDialogue(
+                "Could not confirm that this setup URI has not been revoked, as the remote was not reachable. Do you want to import it anyway?",
+                [CHOICE_CANCEL, CHOICE_IMPORT],
+                { title: "Setup URI", defaultAction: CHOICE_CANCEL }
+            );
+            if (ret != CHOICE_IMPORT) return false;
+            return "unchecked";
+        }
+        if (revoked.includes(payload.id)) {
+            this._log("This setup URI has been revoked", LOG_LEVEL_NOTICE);
+            return false;
+        }
+        return "checked";
+    }
+
+    describeGrantedAccess(
+        conf: Partial<LiveSyncPluginSettings>,
+        payload: SetupURIPayload | undefined,
+        revocation: "checked" | "unchecked" | "legacy"
+    ) {
+        const remote = isFileDropRemote(conf)
+            ? `Shared folder \`${conf.fileDropFolder}\``
+            : conf.remoteType == REMOTE_MINIO
+              ? `Object storage \`${conf.endpoint}\` / \`${conf.bucket}\``
+              : conf.remoteType == REMOTE_P2P
+                ? "Peer-to-Peer"
+                : `CouchDB \`${conf.couchDB_URI}\` / \`${conf.couchDB_DBNAME}\` as \`${conf.couchDB_USER}\``;
+        const lines = [
+            `- Remote: ${remote}`,
+            `- End-to-end encryption: ${conf.encrypt ? "enabled" : "disabled"}`,
+            `- Customisation sync settings: ${conf.pluginSyncExtendedSetting ? "included" : "not included"}`,
+        ];
+        if (payload) {
+            lines.push(
+                `- Access: ${describeScope(payload.scope)}`,
+                `- Issued: ${new Date(payload.issued).toLocaleString()}`,
+                `- Expires: ${describeExpiry(payload.expires)}`
+            );
+        }
+        const notes = {
+            checked: "This setup URI has not been revoked.",
+            unchecked: "Could not confirm that this setup URI has not been revoked, as the remote was not reachable.",
+            legacy: "This is a legacy setup URI, which grants full access and never expires.",
+        };
+        return `Importing the configuration from the setup URI. The following access will be granted to this device:
+
+${lines.join("\n")}
+
+${notes[revocation]}
+
+Are you sure to proceed?`;
+    }
+
     async setupWizard(confString: string) {
         try {
             const oldConf = JSON.parse(JSON.stringify(this.settings));
@@ -123,14 +390,24 @@ export class ModuleSetupObsidian extends AbstractObsidianModule implements IObsi
                 true
             );
             if (encryptingPassphrase === false) return;
-            const newConf = await JSON.parse(await decrypt(confString, encryptingPassphrase, false));
+            const decrypted = await JSON.parse(await decrypt(confString, encryptingPassphrase, false));
+            const payload =
+                decrypted?.setupURIVersion == SETUP_URI_VERSION ? (decrypted as SetupURIPayload) : undefined;
+            const newConf = payload ? payload.settings : decrypted;
             if (newConf) {
+                const revocation = payload ? await this.verifySetupURI(payload) : "legacy";
+                if (revocation === false) return;
                 const result = await this.core.confirm.askYesNoDialog(
-                    "Importing Configuration from the Setup-URI. Are you sure to proceed?",
-                    {}
+                    this.describeGrantedAccess(newConf, payload, revocation),
+                    { title: "Setup URI", defaultOption: "No" }
                 );
                 if (result == "yes") {
-                    const newSettingW = Object.assign({}, DEFAULT_SETTINGS, newConf) as ObsidianLiveSyncSettings;
+                    const newSettingW = Object.assign(
+                        {},
+                        DEFAULT_SETTINGS,
+                        DEFAULT_PLUGIN_SETTINGS_EXTENSION,
+                        newConf
+                    ) as LiveSyncPluginSettings;
                     this.core.replicator.closeReplication();
                     this.settings.suspendFileWatching = true;
                     console.dir(newSettingW);
@@ -147,14 +424,21 @@ export class ModuleSetupObsidian extends AbstractObsidianModule implements IObsi
                     newSettingW.syncInternalFiles = false;
                     newSettingW.usePluginSync = false;
                     newSettingW.isConfigured = true;
+                    if (payload) {
+                        newSettingW.readOnlyDevice = payload.scope.readOnly;
+                    }
                     // Migrate completely obsoleted configuration.
                     if (!newSettingW.useIndexedDBAdapter) {
                         newSettingW.useIndexedDBAdapter = true;
                     }
 
+                    // A read-only device should not send its files, nor initialise the remote.
+                    const setupTypes = newSettingW.readOnlyDevice
+                        ? [setupAsNew, setupJustImport]
+                        : [setupAsNew, setupAgain, setupAsMerge, setupJustImport, setupManually];
                     const setupType = await this.core.confirm.askSelectStringDialogue(
                         "How would you like to set it up?",
-                        [setupAsNew, setupAgain, setupAsMerge, setupJustImport, setupManually],
+                        setupTypes,
                         { defaultAction: setupAsNew }
                     );
                     if (setupType == setupJustImport) {
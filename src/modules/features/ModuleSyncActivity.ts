@@ -0,0 +1,78 @@
+import { throttle } from "octagonal-wheels/function";
+import { REMOTE_MINIO, REMOTE_P2P } from "../../lib/src/common/types.ts";
+import { fireAndForget } from "../../lib/src/common/utils.ts";
+import { isFileDropRemote } from "../../common/utils.ts";
+import { AbstractObsidianModule, type IObsidianModule } from "../AbstractObsidianModule.ts";
+import { SyncActivityView, VIEW_TYPE_SYNC_ACTIVITY } from "./SyncActivity/SyncActivityView.ts";
+
+export type ActivitySample = {
+    time: number;
+    // Keyed by the name of the queue.
+    counts: Record<string, number>;
+    processed: Record<string, number>;
+};
+
+const SAMPLE_INTERVAL = 5000;
+const MAX_SAMPLES = 60;
+const KV_KEY_LAST_SYNC_TIMES = "last-sync-times";
+
+export class ModuleSyncActivity extends AbstractObsidianModule implements IObsidianModule {
+    samples = [] as ActivitySample[];
+    // Keyed by the name of the remote.
+    lastSyncTimes = {} as Record<string, number>;
+
+    $everyOnloadStart(): Promise<boolean> {
+        this.addCommand({
+            id: "livesync-sync-activity",
+            name: "Show sync activity",
+            callback: () => {
+                void this.core.$$showView(VIEW_TYPE_SYNC_ACTIVITY);
+            },
+        });
+        this.registerView(VIEW_TYPE_SYNC_ACTIVITY, (leaf) => new SyncActivityView(leaf, this.plugin, this));
+        return Promise.resolve(true);
+    }
+
+    async $everyOnloadAfterLoadSettings(): Promise<boolean> {
+        this.lastSyncTimes = (await this.core.kvDB.get<Record<string, number>>(KV_KEY_LAST_SYNC_TIMES)) ?? {};
+        this.core.replicationStat.onChanged((e) => {
+            const status = e.value.syncStatus;
+            // `PAUSED` means that LiveSync has caught up with the remote.
+            if (status == "COMPLETED" || status == "PAUSED") {
+                this.lastSyncTimes[this.getRemoteName()] = Date.now();
+                this.saveLastSyncTimes();
+            }
+        });
+        this.plugin.registerInterval(setInterval(() => this.takeSample(), SAMPLE_INTERVAL) as unknown as number);
+        return true;
+    }
+
+    saveLastSyncTimes = throttle(() => {
+        fireAndForget(() => this.core.kvDB.set(KV_KEY_LAST_SYNC_TIMES, this.lastSyncTimes));
+    }, 1000);
+
+    getRemoteName() {
+        const settings = this.settings;
+        if (isFileDropRemote(settings)) return settings.fileDropFolder;
+        if (settings.remoteType == REMOTE_MINIO) return `${settings.endpoint}/${settings.bucket}`;
+        if (settings.remoteType == REMOTE_P2P) return "Peer-to-Peer";
+        return `${settings.couchDB_URI}/${settings.couchDB_DBNAME}`;
+    }
+
+    getQueues() {
+        return [...this.core.$$getReplicationQueues(), this.core.$$getConflictQueue()];
+    }
+
+    takeSample() {
+        if (!this.core.$$isReady()) return;
+        const queues = this.getQueues();
+        this.samples = [
+            ...this.samples,
+            {
+                time: Date.now(),
+                counts: Object.fromEntries(queues.map((e) => [e.name, e.count])),
+                processed: Object.fromEntries(queues.map((e) => [e.name, e.processed])),
+            },
+        ].slice(-MAX_SAMPLES);
+    }
+}
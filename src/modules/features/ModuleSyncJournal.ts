@@ -0,0 +1,126 @@
+import { AbstractObsidianModule, type IObsidianModule } from "../AbstractObsidianModule.ts";
+import {
+    LOG_LEVEL_NOTICE,
+    LOG_LEVEL_VERBOSE,
+    type EntryDoc,
+    type FilePathWithPrefix,
+    type MetaEntry,
+} from "../../lib/src/common/types.ts";
+import { isAnyNote, readContent } from "../../lib/src/common/utils.ts";
+import { digestHash } from "../../lib/src/string_and_binary/hash.ts";
+import { arrayBufferToBase64 } from "../../lib/src/string_and_binary/convert.ts";
+import { getPath, isChunk } from "../../common/utils.ts";
+import { SyncJournal, type SyncJournalDoc, type SyncJournalFileEvent } from "../../common/SyncJournal.ts";
+
+/**
+ * Record the sync journal: the file events in the order they have been queued, the documents of the replication
+ * results and the decisions of the conflict resolution. Contents are hashed in the background, and never recorded.
+ * Only on `syncJournalMaxEntries` is set; the journal is kept on memory, and exported by the command.
+ */
+export class ModuleSyncJournal extends AbstractObsidianModule implements IObsidianModule {
+    journal = new SyncJournal(() => this.settings?.syncJournalMaxEntries ?? 0);
+    // Hashes which are being computed; awaited on exporting.
+    hashing = new Set<Promise<void>>();
+
+    get isRecording() {
+        return (this.settings?.syncJournalMaxEntries ?? 0) > 0;
+    }
+
+    $everyOnloadStart(): Promise<boolean> {
+        this.addCommand({
+            id: "livesync-export-sync-journal",
+            name: "Export the sync journal",
+            callback: () => void this.core.$$exportSyncJournal(),
+        });
+        this.addCommand({
+            id: "livesync-clear-sync-journal",
+            name: "Clear the sync journal",
+            callback: () => {
+                this.journal.clear();
+                this._log("The sync journal has been cleared", LOG_LEVEL_NOTICE);
+            },
+        });
+        return Promise.resolve(true);
+    }
+
+    async hashOf(content: string | ArrayBuffer) {
+        const data = typeof content == "string" ? content : (await arrayBufferToBase64(content)).join("");
+        return digestHash([data]);
+    }
+
+    fillHash(target: { hash?: string }, read: () => Promise<string | ArrayBuffer | false>) {
+        const task = (async () => {
+            try {
+                const content = await read();
+                if (content !== false) target.hash = await this.hashOf(content);
+            } catch (ex) {
+                this._log(`Could not hash the content for the sync journal`, LOG_LEVEL_VERBOSE);
+                this._log(ex, LOG_LEVEL_VERBOSE);
+            }
+        })();
+        this.hashing.add(task);
+        void task.finally(() => this.hashing.delete(task));
+    }
+
+    $$recordFileEventsToJournal(events: SyncJournalFileEvent[]): void {
+        if (!this.isRecording) return;
+        for (const event of events) {
+            const entry = this.journal.record(event);
+            if (event.type == "CREATE" || event.type == "CHANGED" || event.type == "RENAME") {
+                this.fillHash(entry, () => this.core.storageAccess.readFileAuto(event.path));
+            }
+        }
+    }
+
+    $$recordReplicationResultToJournal(docs: Array<PouchDB.Core.ExistingDocument<EntryDoc>>): void {
+        if (!this.isRecording) return;
+        const chunks = docs.filter((e) => isChunk(e._id)).length;
+        const recorded = docs
+            .filter((e) => !isChunk(e._id))
+            .map((doc) => {
+                const item: SyncJournalDoc = { id: doc._id, rev: doc._rev, type: `${doc.type}` };
+                if (!isAnyNote(doc)) return item;
+                const meta = doc as MetaEntry;
+                item.path = getPath(meta);
+                item.deleted = meta._deleted || meta.deleted || undefined;
+                item.mtime = meta.mtime;
+                item.size = meta.size;
+                if (!item.deleted) {
+                    this.fillHash(item, async () => {
+                        const entry = await this.core.databaseFileAccess.fetchEntryFromMeta(meta, true, true);
+                        return entry === false ? false : readContent(entry);
+                    });
+                }
+                return item;
+            });
+        this.journal.record({ kind: "replicated", docs: recorded, chunks });
+    }
+
+    $$recordConflictDecisionToJournal(path: FilePathWithPrefix, decision: string, rev?: string): void {
+        if (!this.isRecording) return;
+        this.journal.record({ kind: "conflict", path, decision, rev });
+    }
+
+    async $$exportSyncJournal(): Promise<string | false> {
+        if (!this.isRecording && this.journal.entries.length == 0) {
+            this._log(
+                "The sync journal is not recorded. Please set `Record the sync journal` first.",
+                LOG_LEVEL_NOTICE
+            );
+            return false;
+        }
+        await Promise.allSettled([...this.hashing]);
+        const dir = this.app.vault.configDir + "/ls-debug/";
+        const file = `${dir}sync-journal-${new Date().toISOString().replace(/[:.]/g, "-")}.json`;
+        try {
+            await this.core.storageAccess.ensureDir(dir);
+            await this.core.storageAccess.writeHiddenFileAuto(file, JSON.stringify(this.journal.export(), null, 2));
+            this._log(`The sync journal has been exported to ${file}`, LOG_LEVEL_NOTICE);
+            return file;
+        } catch (ex) {
+            this._log(`Could not export the sync journal to ${file}`, LOG_LEVEL_NOTICE);
+            this._log(ex, LOG_LEVEL_VERBOSE);
+            return false;
+        }
+    }
+}
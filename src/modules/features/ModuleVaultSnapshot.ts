@@ -0,0 +1,287 @@
+import { AbstractObsidianModule, type IObsidianModule } from "../AbstractObsidianModule.ts";
+import {
+    LOG_LEVEL_INFO,
+    LOG_LEVEL_NOTICE,
+    LOG_LEVEL_VERBOSE,
+    type EntryDoc,
+    type FilePathWithPrefix,
+} from "../../lib/src/common/types.ts";
+import { readContent } from "../../lib/src/common/utils.ts";
+import { serialized } from "../../lib/src/concurrency/lock.ts";
+import { getPath, PeriodicProcessor } from "../../common/utils.ts";
+import { stripAllPrefixes } from "../../lib/src/string_and_binary/path.ts";
+import { VaultSnapshotRestoreModal, type SnapshotRestoreItem } from "./VaultSnapshot/VaultSnapshotRestoreModal.ts";
+
+// Snapshots are `_local` documents, which are neither replicated nor enumerated as files.
+const SNAPSHOT_INDEX_ID = "_local/livesync-snapshots";
+const SNAPSHOT_ID_PREFIX = "_local/livesync-snapshot-";
+
+export type VaultSnapshotInfo = {
+    id: string;
+    name: string;
+    created: number;
+    // Scheduled snapshots are removed when they exceed `vaultSnapshotKeepCount`. Named ones are kept until deleted.
+    scheduled: boolean;
+    count: number;
+    // The sequence of the local database at the time. The scheduled snapshot is skipped if nothing has been changed.
+    seq: number | string;
+};
+type VaultSnapshotIndexDoc = {
+    _id: typeof SNAPSHOT_INDEX_ID;
+    _rev?: string;
+    snapshots: VaultSnapshotInfo[];
+};
+type VaultSnapshotDoc = {
+    _id: string;
+    _rev?: string;
+    // Path to the revision of every file at the time.
+    files: Record<FilePathWithPrefix, string>;
+};
+
+/**
+ * Vault snapshots are the lightweight records of the revisions of all files, to restore the vault to a point in time.
+ * Only the revisions are recorded, hence a snapshot cannot restore the revisions which have been compacted.
+ */
+export class ModuleVaultSnapshot extends AbstractObsidianModule implements IObsidianModule {
+    periodicSnapshotProcessor = new PeriodicProcessor(this.core, async () => await this.takeSnapshot("", true));
+
+    $everyOnloadStart(): Promise<boolean> {
+        this.addCommand({
+            id: "livesync-snapshot-take",
+            name: "Take a snapshot of the vault",
+            callback: async () => {
+                const name = await this.core.confirm.askString("Snapshot", "Name", "Before reorganising");
+                if (name === false) return;
+                await this.takeSnapshot(name, false);
+            },
+        });
+        this.addCommand({
+            id: "livesync-snapshot-restore",
+            name: "Restore the vault to a snapshot",
+            callback: async () => {
+                const snapshot = await this.selectSnapshot("Snapshot to restore");
+                if (snapshot) await this.restoreSnapshot(snapshot);
+            },
+        });
+        this.addCommand({
+            id: "livesync-snapshot-delete",
+            name: "Delete a snapshot of the vault",
+            callback: async () => {
+                const snapshot = await this.selectSnapshot("Snapshot to delete");
+                if (snapshot) await this.deleteSnapshots([snapshot.id]);
+            },
+        });
+        return Promise.resolve(true);
+    }
+
+    _disablePeriodicSnapshot() {
+        this.periodicSnapshotProcessor?.disable();
+        return Promise.resolve(true);
+    }
+    _resumePeriodicSnapshot() {
+        this.periodicSnapshotProcessor.enable(this.settings.vaultSnapshotIntervalInMinutes * 60 * 1000);
+        return Promise.resolve(true);
+    }
+    $allOnUnload() {
+        return this._disablePeriodicSnapshot();
+    }
+    $everyBeforeSuspendProcess(): Promise<boolean> {
+        return this._disablePeriodicSnapshot();
+    }
+    $everyAfterResumeProcess(): Promise<boolean> {
+        return this._resumePeriodicSnapshot();
+    }
+    $everyAfterRealizeSetting(): Promise<boolean> {
+        return this._resumePeriodicSnapshot();
+    }
+
+    get database() {
+        return this.localDatabase.localDatabase;
+    }
+
+    async getSnapshotIndex(): Promise<VaultSnapshotIndexDoc> {
+        try {
+            return (await this.database.get(SNAPSHOT_INDEX_ID)) as unknown as VaultSnapshotIndexDoc;
+        } catch (ex: any) {
+            if (ex?.status != 404) throw ex;
+            return { _id: SNAPSHOT_INDEX_ID, snapshots: [] };
+        }
+    }
+
+    async getSnapshots() {
+        return (await this.getSnapshotIndex()).snapshots.sort((a, b) => b.created - a.created);
+    }
+
+    async selectSnapshot(message: string) {
+        const snapshots = await this.getSnapshots();
+        if (snapshots.length == 0) {
+            this._log("There are no snapshots of the vault", LOG_LEVEL_NOTICE);
+            return false;
+        }
+        const labels = snapshots.map(
+            (e) => `${new Date(e.created).toLocaleString()} ${e.name || "(Scheduled)"} (${e.count} files)`
+        );
+        const selected = await this.core.confirm.askSelectString(message, labels);
+        return snapshots[labels.indexOf(selected)] ?? false;
+    }
+
+    /**
+     * Record the current revisions of all files.
+     * @param name the name of the snapshot. Scheduled snapshots have no name.
+     */
+    async takeSnapshot(name: string, scheduled: boolean) {
+        if (!this.core.$$isDatabaseReady()) return false;
+        return await serialized("vault-snapshot", async () => {
+            try {
+                const index = await this.getSnapshotIndex();
+                const seq = (await this.database.info()).update_seq;
+                const last = [...index.snapshots].sort((a, b) => b.created - a.created)[0];
+                if (scheduled && last?.seq == seq) {
+                    this._log("Scheduled snapshot has been skipped: no changes since the last one", LOG_LEVEL_VERBOSE);
+                    return false;
+                }
+                const files = {} as Record<FilePathWithPrefix, string>;
+                for await (const doc of this.localDatabase.findAllNormalDocs()) {
+                    if (doc.deleted || doc._deleted) continue;
+                    files[getPath(doc)] = doc._rev;
+                }
+                const created = Date.now();
+                const info: VaultSnapshotInfo = {
+                    id: `${SNAPSHOT_ID_PREFIX}${created}`,
+                    name,
+                    created,
+                    scheduled,
+                    count: Object.keys(files).length,
+                    seq,
+                };
+                await this.database.put({ _id: info.id, files } as VaultSnapshotDoc as unknown as EntryDoc);
+                index.snapshots.push(info);
+                await this.database.put(index as unknown as EntryDoc);
+                this._log(
+                    `Snapshot of ${info.count} files has been taken${name ? `: ${name}` : ""}`,
+                    scheduled ? LOG_LEVEL_INFO : LOG_LEVEL_NOTICE
+                );
+                await this.pruneScheduledSnapshots();
+                return info;
+            } catch (ex) {
+                this._log("Could not take the snapshot of the vault", LOG_LEVEL_NOTICE);
+                this._log(ex, LOG_LEVEL_VERBOSE);
+                return false;
+            }
+        });
+    }
+
+    async pruneScheduledSnapshots() {
+        const scheduled = (await this.getSnapshots()).filter((e) => e.scheduled);
+        const expired = scheduled.slice(Math.max(this.settings.vaultSnapshotKeepCount, 1));
+        if (expired.length > 0) await this.deleteSnapshots(expired.map((e) => e.id));
+    }
+
+    async deleteSnapshots(ids: string[]) {
+        const index = await this.getSnapshotIndex();
+        for (const id of ids) {
+            try {
+                const doc = await this.database.get(id);
+                await this.database.remove(doc);
+            } catch (ex: any) {
+                if (ex?.status != 404) throw ex;
+            }
+        }
+        index.snapshots = index.snapshots.filter((e) => !ids.includes(e.id));
+        await this.database.put(index as unknown as EntryDoc);
+        this._log(`${ids.length} snapshot(s) have been deleted`, LOG_LEVEL_VERBOSE);
+    }
+
+    /**
+     * Keep the revisions in the snapshots from the garbage collection, to be able to restore them.
+     */
+    async $everyCollectRetainedRevisions(retained: Map<FilePathWithPrefix, Set<string>>): Promise<boolean> {
+        try {
+            for (const snapshot of await this.getSnapshots()) {
+                let doc: VaultSnapshotDoc;
+                try {
+                    doc = (await this.database.get(snapshot.id)) as unknown as VaultSnapshotDoc;
+                } catch (ex: any) {
+                    if (ex?.status != 404) throw ex;
+                    continue;
+                }
+                for (const [path, rev] of Object.entries(doc.files) as [FilePathWithPrefix, string][]) {
+                    retained.set(path, (retained.get(path) ?? new Set()).add(rev));
+                }
+            }
+            return true;
+        } catch (ex) {
+            this._log("Could not read the snapshots of the vault", LOG_LEVEL_NOTICE);
+            this._log(ex, LOG_LEVEL_VERBOSE);
+            return false;
+        }
+    }
+
+    /**
+     * Compare the snapshot with the current local database.
+     */
+    async planRestore(snapshot: VaultSnapshotInfo) {
+        const { files } = (await this.database.get(snapshot.id)) as unknown as VaultSnapshotDoc;
+        const items = [] as SnapshotRestoreItem[];
+        for (const [path, rev] of Object.entries(files) as [FilePathWithPrefix, string][]) {
+            if (!(await this.core.$$isTargetFile(stripAllPrefixes(path)))) continue;
+            const current = await this.core.databaseFileAccess.fetchEntryMeta(path);
+            if (current && current._rev == rev) continue;
+            const isDeleted = !current || current.deleted || current._deleted;
+            const isAvailable = (await this.core.databaseFileAccess.fetchEntryMeta(path, rev)) !== false;
+            const action = !isAvailable ? "unavailable" : isDeleted ? "create" : "restore";
+            items.push({ path, action, rev });
+        }
+        for await (const doc of this.localDatabase.findAllNormalDocs()) {
+            const path = getPath(doc);
+            if (doc.deleted || doc._deleted || path in files) continue;
+            if (!(await this.core.$$isTargetFile(stripAllPrefixes(path)))) continue;
+            items.push({ path, action: "delete", rev: "" });
+        }
+        return items;
+    }
+
+    async restoreSnapshot(snapshot: VaultSnapshotInfo) {
+        if (this.settings.readOnlyDevice) {
+            this._log("Snapshots cannot be restored on the read-only device", LOG_LEVEL_NOTICE);
+            return;
+        }
+        const items = await this.planRestore(snapshot);
+        if (items.length == 0) {
+            this._log("The vault is the same as the snapshot", LOG_LEVEL_NOTICE);
+            return;
+        }
+        const title = `Restore to ${snapshot.name || "the snapshot"} (${new Date(snapshot.created).toLocaleString()})`;
+        const decision = await new VaultSnapshotRestoreModal(this.app, title, items).waitForDecision();
+        if (decision === false || decision.length == 0) return;
+        let restored = 0;
+        for (const item of decision) {
+            if (await this.restoreItem(item)) restored++;
+        }
+        this._log(`${restored} / ${decision.length} file(s) have been restored`, LOG_LEVEL_NOTICE);
+    }
+
+    /**
+     * Store the revision in the snapshot as the newest one, and write it to the storage.
+     */
+    async restoreItem(item: SnapshotRestoreItem) {
+        const storagePath = stripAllPrefixes(item.path);
+        try {
+            if (item.action == "delete") {
+                if (!(await this.core.databaseFileAccess.delete(item.path))) return false;
+            } else {
+                const entry = await this.core.databaseFileAccess.fetchEntry(item.path, item.rev, true, true);
+                if (entry === false) {
+                    this._log(`Could not read ${storagePath} in the snapshot`, LOG_LEVEL_NOTICE);
+                    return false;
+                }
+                if (!(await this.core.databaseFileAccess.storeContent(item.path, readContent(entry)))) return false;
+            }
+            return await this.core.fileHandler.dbToStorage(item.path, storagePath, true);
+        } catch (ex) {
+            this._log(`Could not restore ${storagePath}`, LOG_LEVEL_NOTICE);
+            this._log(ex, LOG_LEVEL_VERBOSE);
+            return false;
+        }
+    }
+}
@@ -0,0 +1,103 @@
+import { App, Modal } from "../../../deps.ts";
+import type { FilePathWithPrefix } from "../../../lib/src/common/types.ts";
+import { stripAllPrefixes } from "../../../lib/src/string_and_binary/path.ts";
+
+export type PreviewAction = "create" | "modify" | "delete" | "rename" | "conflict";
+export type PreviewItem = {
+    path: FilePathWithPrefix;
+    action: PreviewAction;
+    mtime: number;
+};
+// false: Decide later. The changes are kept in the staging area.
+export type PreviewDecision = { accepted: FilePathWithPrefix[]; discarded: FilePathWithPrefix[] } | false;
+
+export class ReplicationPreviewModal extends Modal {
+    items: PreviewItem[];
+    selected: Set<FilePathWithPrefix>;
+    decision: PreviewDecision = false;
+    onDecided?: (decision: PreviewDecision) => void;
+
+    constructor(app: App, items: PreviewItem[]) {
+        super(app);
+        this.items = items.sort((a, b) => a.path.localeCompare(b.path));
+        this.selected = new Set(items.map((e) => e.path));
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        this.titleEl.setText("Replication preview");
+        contentEl.empty();
+        const counts = this.items.reduce(
+            (acc, e) => ({ ...acc, [e.action]: (acc[e.action] ?? 0) + 1 }),
+            {} as Partial<Record<PreviewAction, number>>
+        );
+        contentEl.createDiv({
+            text:
+                `${this.items.length} change(s) have been fetched from the remote, but not applied to the vault yet. ` +
+                Object.entries(counts)
+                    .map(([action, count]) => `${action}: ${count}`)
+                    .join(", "),
+        });
+        contentEl.createDiv({
+            text: "Discarded changes are not applied to this vault, and the files in this vault are kept as they are. Other devices are not affected. Editing the files later supersedes the discarded changes.",
+            cls: "op-info",
+        });
+        const list = contentEl.createDiv("op-scrollable");
+        for (const item of this.items) {
+            list.createEl("label", {}, (label) => {
+                label.createEl("input", { type: "checkbox" }, (checkbox) => {
+                    checkbox.checked = this.selected.has(item.path);
+                    checkbox.addEventListener("change", () => {
+                        if (checkbox.checked) {
+                            this.selected.add(item.path);
+                        } else {
+                            this.selected.delete(item.path);
+                        }
+                    });
+                });
+                label.appendText(
+                    ` [${item.action}] ${stripAllPrefixes(item.path)} (${new Date(item.mtime).toLocaleString()})`
+                );
+            });
+            list.createEl("br");
+        }
+        const buttons = contentEl.createDiv("");
+        const all = this.items.map((e) => e.path);
+        buttons.createEl("button", { text: "Accept all", cls: "mod-cta" }, (e) =>
+            e.addEventListener("click", () => this.sendDecision({ accepted: all, discarded: [] }))
+        ).style.marginRight = "4px";
+        buttons.createEl("button", { text: "Accept checked, discard others" }, (e) =>
+            e.addEventListener("click", () =>
+                this.sendDecision({
+                    accepted: all.filter((path) => this.selected.has(path)),
+                    discarded: all.filter((path) => !this.selected.has(path)),
+                })
+            )
+        ).style.marginRight = "4px";
+        buttons.createEl("button", { text: "Discard all", cls: "mod-warning" }, (e) =>
+            e.addEventListener("click", () => this.sendDecision({ accepted: [], discarded: all }))
+        ).style.marginRight = "4px";
+        buttons.createEl("button", { text: "Decide later" }, (e) =>
+            e.addEventListener("click", () => this.sendDecision(false))
+        ).style.marginRight = "4px";
+    }
+
+    sendDecision(decision: PreviewDecision) {
+        this.decision = decision;
+        this.close();
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+        this.onDecided?.(this.decision);
+        this.onDecided = undefined;
+    }
+
+    waitForDecision(): Promise<PreviewDecision> {
+        return new Promise((res) => {
+            this.onDecided = res;
+            this.open();
+        });
+    }
+}
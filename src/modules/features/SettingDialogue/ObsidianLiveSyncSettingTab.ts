@@ -45,11 +45,21 @@ import {
 } from "../../../lib/src/pouchdb/utils_couchdb.ts";
 import { testCrypt } from "../../../lib/src/encryption/e2ee_v2.ts";
 import ObsidianLiveSyncPlugin from "../../../main.ts";
-import { getPath, requestToCouchDB, scheduleTask } from "../../../common/utils.ts";
+import {
+    getPath,
+    isFileDropRemote,
+    parseConflictResolutionRules,
+    parsePluginDataKeyRules,
+    parseRevisionRetentionPolicy,
+    parseSelectiveSyncProfiles,
+    requestToCouchDB,
+    scheduleTask,
+} from "../../../common/utils.ts";
 import { request } from "obsidian";
 import { addPrefix, shouldBeIgnored, stripAllPrefixes } from "../../../lib/src/string_and_binary/path.ts";
 import MultipleRegExpControl from "./MultipleRegExpControl.svelte";
 import { LiveSyncCouchDBReplicator } from "../../../lib/src/replication/couchdb/LiveSyncReplicator.ts";
+import { validateSettings } from "../../../common/settingsSchema.ts";
 import {
     type AllSettingItemKey,
     type AllStringItemKey,
@@ -75,7 +85,8 @@ import {
 } from "../../../common/events.ts";
 import { skipIfDuplicated } from "octagonal-wheels/concurrency/lock";
 import { JournalSyncMinio } from "../../../lib/src/replication/journal/objectstore/JournalSyncMinio.ts";
-import { ICHeader, ICXHeader, PSCHeader } from "../../../common/types.ts";
+import { JournalSyncFileDrop } from "../../core/fileDropLib/JournalSyncFileDrop.ts";
+import { DEFAULT_PLUGIN_SETTINGS_EXTENSION, ICHeader, ICXHeader, PSCHeader } from "../../../common/types.ts";
 import { HiddenFileSync } from "../../../features/HiddenFileSync/CmdHiddenFileSync.ts";
 import { EVENT_REQUEST_SHOW_HISTORY } from "../../../common/obsidianEvents.ts";
 import { LocalDatabaseMaintenance } from "../../../features/LocalDatabaseMainte/CmdLocalDatabaseMainte.ts";
@@ -229,6 +240,11 @@ export class ObsidianLiveSyncSettingTab extends PluginSettingTab {
             this.plugin.$$saveDeviceAndVaultName();
             return await Promise.resolve();
         }
+        if (key == "selectiveSyncProfile") {
+            this.plugin.$$setSelectiveSyncProfile(this.editingSettings?.[key] ?? "");
+            this.plugin.$$saveSelectiveSyncProfile();
+            return await Promise.resolve();
+        }
     }
     /**
      * Apply and save setting to the plug-in.
@@ -297,6 +313,7 @@ export class ObsidianLiveSyncSettingTab extends PluginSettingTab {
         ret.configPassphrase = localStorage.getItem("ls-setting-passphrase") || "";
         ret.preset = "";
         ret.deviceAndVaultName = this.plugin.$$getDeviceAndVaultName();
+        ret.selectiveSyncProfile = this.plugin.$$getSelectiveSyncProfile();
         return ret;
     }
     computeAllLocalSettings(): Partial<OnDialogSettings> {
@@ -827,6 +844,16 @@ export class ObsidianLiveSyncSettingTab extends PluginSettingTab {
             ({
                 visibility: this.isConfiguredAs("remoteType", REMOTE_MINIO),
             }) as OnUpdateResult;
+        // The shared folder remote is also the object storage remote, which has `useFileDrop`.
+        const onlyOnBucket = () =>
+            ({
+                visibility:
+                    this.isConfiguredAs("remoteType", REMOTE_MINIO) && this.isConfiguredAs("useFileDrop", false),
+            }) as OnUpdateResult;
+        const onlyOnFileDrop = () =>
+            ({
+                visibility: this.isConfiguredAs("remoteType", REMOTE_MINIO) && this.isConfiguredAs("useFileDrop", true),
+            }) as OnUpdateResult;
         const onlyOnOnlyP2P = () =>
             ({
                 visibility: this.isConfiguredAs("remoteType", REMOTE_P2P),
@@ -930,6 +957,28 @@ export class ObsidianLiveSyncSettingTab extends PluginSettingTab {
         );
 
         void addPane(containerEl, $msg("obsidianLiveSyncSettingTab.panelSetup"), "🧙‍♂️", 110, false).then((paneEl) => {
+            // Reported on each update, as the issues may be resolved while editing.
+            let issuesEl: HTMLElement | undefined = undefined;
+            const renderIssues = () => {
+                const issues = validateSettings(this.editingSettings);
+                if (issuesEl) {
+                    issuesEl.empty();
+                    for (const issue of issues) {
+                        issuesEl.createEl("li", {
+                            text: `${issue.level == "error" ? "❗" : "⚠️"} ${issue.message} (${issue.keys.join(", ")})`,
+                        });
+                    }
+                }
+                return { visibility: issues.length > 0 };
+            };
+            void addPanel(paneEl, "Configuration issues", undefined, renderIssues).then((paneEl) => {
+                paneEl.createDiv({
+                    text: "The following settings are invalid or contradictory. Please review them before synchronising.",
+                    cls: "op-warn",
+                });
+                issuesEl = paneEl.createEl("ul");
+                renderIssues();
+            });
             void addPanel(paneEl, $msg("obsidianLiveSyncSettingTab.titleQuickSetup")).then((paneEl) => {
                 new Setting(paneEl)
                     .setName($msg("obsidianLiveSyncSettingTab.nameConnectSetupURI"))
@@ -991,9 +1040,16 @@ export class ObsidianLiveSyncSettingTab extends PluginSettingTab {
                                         { defaultOption: "No" }
                                     )) == "yes"
                                 ) {
-                                    this.editingSettings = { ...this.editingSettings, ...DEFAULT_SETTINGS };
+                                    this.editingSettings = {
+                                        ...this.editingSettings,
+                                        ...DEFAULT_SETTINGS,
+                                        ...DEFAULT_PLUGIN_SETTINGS_EXTENSION,
+                                    };
                                     await this.saveAllDirtySettings();
-                                    this.plugin.settings = { ...DEFAULT_SETTINGS };
+                                    this.plugin.settings = {
+                                        ...DEFAULT_SETTINGS,
+                                        ...DEFAULT_PLUGIN_SETTINGS_EXTENSION,
+                                    };
                                     await this.plugin.$$saveSettingData();
                                     await this.plugin.$$resetLocalDatabase();
                                     // await this.plugin.initializeDatabase();
@@ -1385,6 +1441,7 @@ export class ObsidianLiveSyncSettingTab extends PluginSettingTab {
                         },
                         onUpdate: enableOnlySyncDisabled,
                     });
+                    new Setting(paneEl).autoWireToggle("useFileDrop", { holdValue: true, onUpdate: onlyOnMinIO });
                     void addPanel(paneEl, "Peer-to-Peer", undefined, onlyOnOnlyP2P).then((paneEl) => {
                         const syncWarnP2P = this.createEl(paneEl, "div", {
                             text: "",
@@ -1414,7 +1471,7 @@ The pane also can be launched by \`P2P Replicator\` command from the Command Pal
                         paneEl,
                         $msg("obsidianLiveSyncSettingTab.titleMinioS3R2"),
                         undefined,
-                        onlyOnMinIO
+                        onlyOnBucket
                     ).then((paneEl) => {
                         const syncWarnMinio = this.createEl(paneEl, "div", {
                             text: "",
@@ -1458,6 +1515,7 @@ The pane also can be launched by \`P2P Replicator\` command from the Command Pal
                             .setClass("wizardHidden")
                             .addApplyButton([
                                 "remoteType",
+                                "useFileDrop",
                                 "endpoint",
                                 "region",
                                 "accessKey",
@@ -1465,7 +1523,41 @@ The pane also can be launched by \`P2P Replicator\` command from the Command Pal
                                 "bucket",
                                 "useCustomRequestHandler",
                             ])
-                            .addOnUpdate(onlyOnMinIO);
+                            .addOnUpdate(onlyOnBucket);
+                    });
+
+                    void addPanel(paneEl, "Shared folder", undefined, onlyOnFileDrop).then((paneEl) => {
+                        const syncWarnFileDrop = this.createEl(paneEl, "div", {
+                            text: "",
+                        });
+                        const fileDropMessage = `The journal packs are exchanged through the folder, as same as the object storage. Only available on the desktop.
+Please do not edit the files in the folder. The folder can be mirrored by another sync tool, but packs should not be modified by it.
+`;
+                        void MarkdownRenderer.render(
+                            this.plugin.app,
+                            fileDropMessage,
+                            syncWarnFileDrop,
+                            "/",
+                            this.plugin
+                        );
+                        syncWarnFileDrop.addClass("op-warn-info");
+
+                        new Setting(paneEl).autoWireText("fileDropFolder", { holdValue: true });
+                        new Setting(paneEl)
+                            .setName($msg("obsidianLiveSyncSettingTab.nameTestConnection"))
+                            .addButton((button) =>
+                                button
+                                    .setButtonText($msg("obsidianLiveSyncSettingTab.btnTest"))
+                                    .setDisabled(false)
+                                    .onClick(async () => {
+                                        await this.testConnection(this.editingSettings);
+                                    })
+                            );
+                        new Setting(paneEl)
+                            .setName($msg("obsidianLiveSyncSettingTab.nameApplySettings"))
+                            .setClass("wizardHidden")
+                            .addApplyButton(["remoteType", "useFileDrop", "fileDropFolder"])
+                            .addOnUpdate(onlyOnFileDrop);
                     });
 
                     void addPanel(
@@ -1946,6 +2038,15 @@ The pane also can be launched by \`P2P Replicator\` command from the Command Pal
                     new Setting(paneEl).setClass("wizardHidden").autoWireToggle("checkConflictOnlyOnOpen");
 
                     new Setting(paneEl).setClass("wizardHidden").autoWireToggle("showMergeDialogOnlyOnActive");
+
+                    new Setting(paneEl).setClass("wizardHidden").autoWireTextArea("conflictResolutionRules", {
+                        onUpdate: () => {
+                            const { errors } = parseConflictResolutionRules(
+                                this.editingSettings.conflictResolutionRules
+                            );
+                            return { isWarning: errors.length > 0 };
+                        },
+                    });
                 });
 
                 void addPanel(
@@ -2087,12 +2188,57 @@ The pane also can be launched by \`P2P Replicator\` command from the Command Pal
                     },
                 });
                 new Setting(paneEl).setClass("wizardHidden").autoWireNumeric("syncMaxSizeInMB", { clampMin: 0 });
+                new Setting(paneEl).setClass("wizardHidden").autoWireToggle("usePlaceholderFiles");
+                if (this.editingSettings.readOnlyDevice) {
+                    // Not a toggle; the scope of the setup URI should only be lifted by the one with full access.
+                    new Setting(paneEl)
+                        .setClass("wizardHidden")
+                        .setName("Read-only device")
+                        .setDesc(
+                            "This device has been set up with a read-only setup URI. To send changes, use the setup URI which grants full access."
+                        )
+                        .addButton((button) => {
+                            button.setButtonText("Use a setup URI").onClick(() => {
+                                this.closeSetting();
+                                eventHub.emitEvent(EVENT_REQUEST_OPEN_SETUP_URI);
+                            });
+                        });
+                }
 
                 new Setting(paneEl).setClass("wizardHidden").autoWireToggle("useIgnoreFiles");
                 new Setting(paneEl).setClass("wizardHidden").autoWireTextArea("ignoreFiles", {
                     onUpdate: visibleOnly(() => this.isConfiguredAs("useIgnoreFiles", true)),
                 });
             });
+            void addPanel(paneEl, "Selective sync", undefined, undefined, LEVEL_ADVANCED).then((paneEl) => {
+                paneEl.addClass("wizardHidden");
+                new Setting(paneEl).setClass("wizardHidden").autoWireTextArea("selectiveSyncProfiles", {
+                    holdValue: true,
+                    onUpdate: () => {
+                        const { errors } = parseSelectiveSyncProfiles(this.editingSettings.selectiveSyncProfiles);
+                        return { isWarning: errors.length > 0 };
+                    },
+                });
+                new Setting(paneEl)
+                    .setClass("wizardHidden")
+                    .autoWireText("selectiveSyncProfile", {
+                        holdValue: true,
+                        onUpdate: () => {
+                            const name = this.editingSettings.selectiveSyncProfile;
+                            const { profiles } = parseSelectiveSyncProfiles(this.editingSettings.selectiveSyncProfiles);
+                            return { isWarning: name != "" && !profiles.some((e) => e.name == name) };
+                        },
+                    })
+                    .addApplyButton(["selectiveSyncProfiles", "selectiveSyncProfile"]);
+                // Both keys may be saved at once; apply the profile only once.
+                const applyProfile = () =>
+                    scheduleTask("apply-selective-sync-profile", 250, async () => {
+                        if (!this.plugin.settings.isConfigured) return;
+                        await this.plugin.$$applySelectiveSyncProfile();
+                    });
+                this.addOnSaved("selectiveSyncProfiles", applyProfile);
+                this.addOnSaved("selectiveSyncProfile", applyProfile);
+            });
             void addPanel(paneEl, "Hidden Files", undefined, undefined, LEVEL_ADVANCED).then((paneEl) => {
                 const defaultSkipPattern = "\\/node_modules\\/, \\/\\.git\\/, ^\\.git\\/, \\/obsidian-livesync\\/";
                 const defaultSkipPatternXPlat =
@@ -2205,6 +2351,12 @@ The pane also can be launched by \`P2P Replicator\` command from the Command Pal
                 new Setting(paneEl).autoWireToggle("notifyPluginOrSettingUpdated", {
                     onUpdate: visibleOnlyOnPluginSyncEnabled,
                 });
+                new Setting(paneEl).autoWireTextArea("pluginDataKeyPolicies", {
+                    onUpdate: () => {
+                        const { errors } = parsePluginDataKeyRules(this.editingSettings.pluginDataKeyPolicies);
+                        return { ...visibleOnlyOnPluginSyncEnabled(), isWarning: errors.length > 0 };
+                    },
+                });
 
                 new Setting(paneEl)
                     .setName("Open")
@@ -2257,6 +2409,8 @@ The pane also can be launched by \`P2P Replicator\` command from the Command Pal
                                     responseConfig =
                                         "Requesting information from the remote CouchDB has failed. If you are using IBM Cloudant, this is normal behaviour.";
                                 }
+                            } else if (isFileDropRemote(this.editingSettings)) {
+                                responseConfig = "Shared Folder Synchronisation";
                             } else if (this.editingSettings.remoteType == REMOTE_MINIO) {
                                 responseConfig = "Object Storage Synchronisation";
                                 //
@@ -2314,6 +2468,19 @@ ${stringifyYaml(pluginConfig)}`;
                         })
                 );
                 new Setting(paneEl).autoWireToggle("writeLogToTheFile");
+                new Setting(paneEl).autoWireNumeric("persistentLogMaxSizeInMB", { clampMin: 0 });
+                new Setting(paneEl).autoWireNumeric("syncJournalMaxEntries", { clampMin: 0 });
+                new Setting(paneEl)
+                    .setName("Export the sync journal")
+                    .setDesc("Export the recorded sync journal into `ls-debug` of the configuration directory.")
+                    .addButton((button) =>
+                        button
+                            .setButtonText("Export")
+                            .setDisabled(false)
+                            .onClick(async () => {
+                                await this.plugin.$$exportSyncJournal();
+                            })
+                    );
             });
 
             void addPanel(paneEl, "Scram Switches").then((paneEl) => {
@@ -3016,7 +3183,7 @@ ${stringifyYaml(pluginConfig)}`;
                             .setWarning()
                             .setDisabled(false)
                             .onClick(async () => {
-                                await this.getMinioJournalSyncClient().updateCheckPointInfo((info) => ({
+                                await this.getJournalSyncClient().updateCheckPointInfo((info) => ({
                                     ...info,
                                     receivedFiles: new Set(),
                                     knownIDs: new Set(),
@@ -3037,7 +3204,7 @@ ${stringifyYaml(pluginConfig)}`;
                             .setWarning()
                             .setDisabled(false)
                             .onClick(async () => {
-                                await this.getMinioJournalSyncClient().updateCheckPointInfo((info) => ({
+                                await this.getJournalSyncClient().updateCheckPointInfo((info) => ({
                                     ...info,
                                     lastLocalSeq: 0,
                                     sentIDs: new Set(),
@@ -3048,7 +3215,48 @@ ${stringifyYaml(pluginConfig)}`;
                     )
                     .addOnUpdate(onlyOnMinIO);
             });
+            void addPanel(paneEl, "Archive").then((paneEl) => {
+                new Setting(paneEl)
+                    .setName("Export the local database")
+                    .setDesc(
+                        "Export all documents, chunks and their revisions into an archive in the vault. The archive is not synchronised."
+                    )
+                    .addButton((button) =>
+                        button
+                            .setButtonText("Export")
+                            .setDisabled(false)
+                            .onClick(async () => {
+                                await this.plugin
+                                    .getAddOn<LocalDatabaseMaintenance>(LocalDatabaseMaintenance.name)
+                                    ?.exportDatabaseArchive();
+                            })
+                    );
+                new Setting(paneEl)
+                    .setName("Import an archive")
+                    .setDesc("Verify the archive in the vault, and import it into the local or remote database.")
+                    .addButton((button) =>
+                        button
+                            .setButtonText("Import")
+                            .setWarning()
+                            .setDisabled(false)
+                            .onClick(async () => {
+                                await this.plugin
+                                    .getAddOn<LocalDatabaseMaintenance>(LocalDatabaseMaintenance.name)
+                                    ?.importDatabaseArchive();
+                            })
+                    );
+            });
+            void addPanel(paneEl, "Vault snapshots").then((paneEl) => {
+                new Setting(paneEl).autoWireNumeric("vaultSnapshotIntervalInMinutes", { clampMin: 0 });
+                new Setting(paneEl).autoWireNumeric("vaultSnapshotKeepCount", { clampMin: 1 });
+            });
             void addPanel(paneEl, "Garbage Collection (Beta)", (e) => e, onlyOnP2POrCouchDB).then((paneEl) => {
+                new Setting(paneEl).autoWireTextArea("revisionRetentionPolicy", {
+                    onUpdate: () => {
+                        const { errors } = parseRevisionRetentionPolicy(this.editingSettings.revisionRetentionPolicy);
+                        return { isWarning: errors.length > 0 };
+                    },
+                });
                 new Setting(paneEl)
                     .setName("Remove all orphaned chunks")
                     .setDesc("Remove all orphaned chunks from the local database.")
@@ -3205,7 +3413,7 @@ ${stringifyYaml(pluginConfig)}`;
                                 .setWarning()
                                 .setDisabled(false)
                                 .onClick(async () => {
-                                    await this.getMinioJournalSyncClient().resetCheckpointInfo();
+                                    await this.getJournalSyncClient().resetCheckpointInfo();
                                     Logger(`Journal exchange history has been cleared.`, LOG_LEVEL_NOTICE);
                                 })
                         )
@@ -3220,7 +3428,7 @@ ${stringifyYaml(pluginConfig)}`;
                                 .setWarning()
                                 .setDisabled(false)
                                 .onClick(async () => {
-                                    await this.getMinioJournalSyncClient().resetAllCaches();
+                                    await this.getJournalSyncClient().resetAllCaches();
                                     Logger(`Journal download/upload cache has been cleared.`, LOG_LEVEL_NOTICE);
                                 })
                         )
@@ -3235,7 +3443,7 @@ ${stringifyYaml(pluginConfig)}`;
                                 .setWarning()
                                 .setDisabled(false)
                                 .onClick(async () => {
-                                    await this.getMinioJournalSyncClient().updateCheckPointInfo((info) => ({
+                                    await this.getJournalSyncClient().updateCheckPointInfo((info) => ({
                                         ...info,
                                         receivedFiles: new Set(),
                                         knownIDs: new Set(),
@@ -3331,7 +3539,10 @@ ${stringifyYaml(pluginConfig)}`;
         });
     }
 
-    getMinioJournalSyncClient() {
+    getJournalSyncClient() {
+        if (isFileDropRemote(this.plugin.settings)) {
+            return new JournalSyncFileDrop(this.plugin.settings.fileDropFolder, this.plugin.simpleStore, this.plugin);
+        }
         const id = this.plugin.settings.accessKey;
         const key = this.plugin.settings.secretKey;
         const bucket = this.plugin.settings.bucket;
@@ -3350,7 +3561,7 @@ ${stringifyYaml(pluginConfig)}`;
         );
     }
     async resetRemoteBucket() {
-        const minioJournal = this.getMinioJournalSyncClient();
-        await minioJournal.resetBucket();
+        const journal = this.getJournalSyncClient();
+        await journal.resetBucket();
     }
 }
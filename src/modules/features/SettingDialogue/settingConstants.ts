@@ -8,6 +8,7 @@ import {
     type FilterStringKeys,
     type ObsidianLiveSyncSettings,
 } from "../../../lib/src/common/types.ts";
+import { DEFAULT_PLUGIN_SETTINGS_EXTENSION, type LiveSyncPluginSettings } from "../../../common/types.ts";
 
 export type OnDialogSettings = {
     configPassphrase: string;
@@ -15,6 +16,7 @@ export type OnDialogSettings = {
     syncMode: "ONEVENTS" | "PERIODIC" | "LIVESYNC";
     dummy: number;
     deviceAndVaultName: string;
+    selectiveSyncProfile: string;
 };
 
 export const OnDialogSettingsDefault: OnDialogSettings = {
@@ -23,10 +25,15 @@ export const OnDialogSettingsDefault: OnDialogSettings = {
     syncMode: "ONEVENTS",
     dummy: 0,
     deviceAndVaultName: "",
+    selectiveSyncProfile: "",
+};
+export const AllSettingDefault = {
+    ...DEFAULT_SETTINGS,
+    ...DEFAULT_PLUGIN_SETTINGS_EXTENSION,
+    ...OnDialogSettingsDefault,
 };
-export const AllSettingDefault = { ...DEFAULT_SETTINGS, ...OnDialogSettingsDefault };
 
-export type AllSettings = ObsidianLiveSyncSettings & OnDialogSettings;
+export type AllSettings = LiveSyncPluginSettings & OnDialogSettings;
 export type AllStringItemKey = FilterStringKeys<AllSettings>;
 export type AllNumericItemKey = FilterNumberKeys<AllSettings>;
 export type AllBooleanItemKey = FilterBooleanKeys<AllSettings>;
@@ -88,7 +95,7 @@ export const SettingInformation: Partial<Record<keyof AllSettings, Configuration
     },
     writeCredentialsForSettingSync: {
         name: "Write credentials to the file",
-        desc: "Not recommended - If set, credentials will be stored in the Markdown file.",
+        desc: "Not recommended - If set, the username will be stored in the Markdown file. Passwords and passphrases are never stored.",
     },
     notifyAllSettingSyncFile: {
         name: "Notify all setting files",
@@ -140,6 +147,25 @@ export const SettingInformation: Partial<Record<keyof AllSettings, Configuration
         name: "Delay merge conflict prompt for inactive files.",
         desc: "Only prompt to merge a conflict when the conflicting file is opened.",
     },
+    conflictResolutionRules: {
+        name: "Conflict resolution rules",
+        desc: "One rule per line as `<policy> <pattern>`. The pattern is a glob, or a regular expression enclosed in slashes. The first matched rule is used. Policies: newer, local, remote, ask, merge, keep-both.",
+        placeHolder: "newer *.png\nmerge /^daily\\/.*\\.md$/",
+    },
+    pluginDataKeyPolicies: {
+        name: "Key policies of plugin settings",
+        desc: "One rule per line as `<plugin> <policy> <JSON pointer> [<id key>]`, applied when data.json of the plugin is applied. The plugin is its folder name, or `*` for all. Policies: local (keep the value of this device), remote (always take the other device's), merge (merge the array by `id` or the given key).",
+        placeHolder: "obsidian-git local /basePath\nmy-plugin merge /items key",
+    },
+    selectiveSyncProfiles: {
+        name: "Selective sync profiles",
+        desc: "Each profile starts with `[name]`, followed by `include <pattern>` or `exclude <pattern>` per line. The pattern is a glob, or a regular expression enclosed in slashes. Excluded files are kept in the database, but not written to the storage of the device which uses the profile.",
+        placeHolder: "[Mobile]\nexclude Attachments/Video/**",
+    },
+    selectiveSyncProfile: {
+        name: "Selective sync profile of this device",
+        desc: "The name of the profile to use on this device. Leave empty to synchronise all files. This is not shared between devices.",
+    },
     disableMarkdownAutoMerge: {
         name: "Always prompt merge conflicts",
         desc: "Prompt for every merge, even if the conflict can be resolved automatically.",
@@ -164,6 +190,14 @@ export const SettingInformation: Partial<Record<keyof AllSettings, Configuration
         name: "Maximum file size",
         desc: "MB - If this is set, only files smaller than this value will be synchronized.",
     },
+    usePlaceholderFiles: {
+        name: "Write placeholders for files not on this device",
+        desc: "Binary files which exceed the maximum file size or are excluded by the selective sync profile are written as small placeholder notes. They can be fetched and evicted again by commands.",
+    },
+    readOnlyDevice: {
+        name: "Read-only device",
+        desc: "Changes to local files are not sent to the remote database. Enabled when this device has been set up with a read-only setup URI, and disabled by using a setup URI with full access. Note that this is not enforced by the remote server.",
+    },
     useIgnoreFiles: {
         name: "(Beta) Use ignore files",
         desc: "Skip changes to local files which are matched by the ignore files. Remote changes are determined using local ignore files.",
@@ -202,6 +236,34 @@ export const SettingInformation: Partial<Record<keyof AllSettings, Configuration
         name: "Write logs to a file",
         desc: "Warning! This will have a serious impact on performance. The logs will not be synchronized under their default name. Please be careful with logs; they often contain confidential information.",
     },
+    persistentLogMaxSizeInMB: {
+        name: "Maximum size of the stored logs",
+        desc: "MB - Logs are kept in the local database of this device, and the oldest ones are removed when they exceed this size. They can be searched and exported from the log pane. 0 to disable.",
+    },
+    useFileDrop: {
+        name: "Use a shared folder instead of the bucket",
+        desc: "Exchange the journal packs through a plain folder; e.g., a NAS mount, a USB stick or a folder mirrored by another sync tool. Only available on the desktop.",
+    },
+    fileDropFolder: {
+        name: "Shared folder",
+        desc: "The absolute path of the folder to exchange the journal packs; e.g., a NAS mount, a USB stick or a folder mirrored by another sync tool. Packs are kept in `livesync-journal` inside it. Only available on the desktop.",
+    },
+    syncJournalMaxEntries: {
+        name: "Record the sync journal",
+        desc: "Entries - Record the order of the file events, the replicated documents and the conflict decisions on memory, to reproduce the issue by replaying it. Contents are not recorded but hashed; paths are recorded as they are. 0 to disable.",
+    },
+    vaultSnapshotIntervalInMinutes: {
+        name: "Snapshot interval",
+        desc: "(Minutes) Record the revisions of all files periodically, to restore the vault to the point in time. Skipped if nothing has been changed. Revisions which have been removed by compaction cannot be restored. 0 to disable.",
+    },
+    vaultSnapshotKeepCount: {
+        name: "Scheduled snapshots to keep",
+        desc: "Older scheduled snapshots are deleted. Named snapshots are kept until they are deleted.",
+    },
+    revisionRetentionPolicy: {
+        name: "Revision retention policy",
+        desc: "One rule per line: `<all|hourly|daily|weekly|monthly> <period>`, e.g., `all 7d`, `daily 3m` and `monthly forever`. Periods are in h, d, w, m or y. When removing unused chunks, only the chunks of the revisions kept by these rules, pinned revisions, revisions in vault snapshots and the latest revisions are kept. If empty, chunks are kept as before, and pinned revisions and revisions in vault snapshots are also kept.",
+    },
     deleteMetadataOfDeletedFiles: {
         name: "Do not keep metadata of deleted files.",
     },
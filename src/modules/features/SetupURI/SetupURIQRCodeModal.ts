@@ -0,0 +1,73 @@
+import qrcode from "qrcode-generator";
+import { App, Modal } from "../../../deps.ts";
+
+const CELL_SIZE = 4;
+
+/**
+ * Show the setup URI (or its chunks) as QR codes, one by one.
+ * Each code can be scanned by the camera of the device, and opens Obsidian with it.
+ */
+export class SetupURIQRCodeModal extends Modal {
+    chunks: string[];
+    page = 0;
+
+    constructor(app: App, chunks: string[]) {
+        super(app);
+        this.chunks = chunks;
+    }
+
+    onOpen() {
+        this.render();
+    }
+
+    render() {
+        const { contentEl } = this;
+        const total = this.chunks.length;
+        this.titleEl.setText(total > 1 ? `Setup URI (${this.page + 1} / ${total})` : "Setup URI");
+        contentEl.empty();
+        contentEl.createDiv({
+            text:
+                total > 1
+                    ? "The setup URI is too long for one QR code. Scan all of them in any order on the new device."
+                    : "Scan this QR code on the new device.",
+        });
+        contentEl.createDiv({
+            text: "The passphrase of the setup URI is not included. Please tell it to the new device separately.",
+            cls: "op-info",
+        });
+        const qr = qrcode(0, "L");
+        qr.addData(this.chunks[this.page]);
+        qr.make();
+        const size = qr.getModuleCount() * CELL_SIZE;
+        const canvas = contentEl.createDiv().createEl("canvas");
+        canvas.width = size;
+        canvas.height = size;
+        const context = canvas.getContext("2d");
+        if (context) qr.renderTo2dContext(context, CELL_SIZE);
+        const buttons = contentEl.createDiv("");
+        if (total > 1) {
+            buttons.createEl("button", { text: "Previous" }, (e) => {
+                e.disabled = this.page == 0;
+                e.addEventListener("click", () => {
+                    this.page--;
+                    this.render();
+                });
+            }).style.marginRight = "4px";
+            buttons.createEl("button", { text: "Next", cls: "mod-cta" }, (e) => {
+                e.disabled = this.page == total - 1;
+                e.addEventListener("click", () => {
+                    this.page++;
+                    this.render();
+                });
+            }).style.marginRight = "4px";
+        }
+        // For the devices without a camera; chunks can be sent and pasted one by one.
+        buttons.createEl("button", { text: total > 1 ? "Copy all chunks as text" : "Copy as text" }, (e) =>
+            e.addEventListener("click", () => void navigator.clipboard.writeText(this.chunks.join("\n")))
+        );
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
@@ -0,0 +1,43 @@
+import { WorkspaceLeaf } from "../../../deps.ts";
+import SyncActivityComponent from "./SyncActivity.svelte";
+import type ObsidianLiveSyncPlugin from "../../../main.ts";
+import { SvelteItemView } from "../../../common/SvelteItemView.ts";
+import { mount } from "svelte";
+import type { ModuleSyncActivity } from "../ModuleSyncActivity.ts";
+
+export const VIEW_TYPE_SYNC_ACTIVITY = "sync-activity";
+export class SyncActivityView extends SvelteItemView {
+    instantiateComponent(target: HTMLElement) {
+        return mount(SyncActivityComponent, {
+            target: target,
+            props: {
+                plugin: this.plugin,
+                activity: this.activity,
+            },
+        });
+    }
+
+    plugin: ObsidianLiveSyncPlugin;
+    activity: ModuleSyncActivity;
+    icon = "activity";
+    title: string = "";
+    navigation = true;
+
+    getIcon(): string {
+        return "activity";
+    }
+
+    constructor(leaf: WorkspaceLeaf, plugin: ObsidianLiveSyncPlugin, activity: ModuleSyncActivity) {
+        super(leaf);
+        this.plugin = plugin;
+        this.activity = activity;
+    }
+
+    getViewType() {
+        return VIEW_TYPE_SYNC_ACTIVITY;
+    }
+
+    getDisplayText() {
+        return "Sync activity";
+    }
+}
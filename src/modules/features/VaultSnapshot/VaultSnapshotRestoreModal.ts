@@ -0,0 +1,95 @@
+import { App, Modal } from "../../../deps.ts";
+import type { FilePathWithPrefix } from "../../../lib/src/common/types.ts";
+import { stripAllPrefixes } from "../../../lib/src/string_and_binary/path.ts";
+
+// restore: The file will be rewritten with the revision in the snapshot.
+// create: The file had been deleted after the snapshot, and will be created again.
+// delete: The file had been created after the snapshot, and will be deleted.
+// unavailable: The revision in the snapshot has been removed from the local database by compaction.
+export type SnapshotRestoreAction = "restore" | "create" | "delete" | "unavailable";
+export type SnapshotRestoreItem = {
+    path: FilePathWithPrefix;
+    action: SnapshotRestoreAction;
+    // The revision in the snapshot. Empty for `delete`.
+    rev: string;
+};
+
+export class VaultSnapshotRestoreModal extends Modal {
+    title: string;
+    items: SnapshotRestoreItem[];
+    selected: Set<FilePathWithPrefix>;
+    decision: SnapshotRestoreItem[] | false = false;
+    onDecided?: (decision: SnapshotRestoreItem[] | false) => void;
+
+    constructor(app: App, title: string, items: SnapshotRestoreItem[]) {
+        super(app);
+        this.title = title;
+        this.items = items.sort((a, b) => a.path.localeCompare(b.path));
+        this.selected = new Set(items.filter((e) => e.action != "unavailable").map((e) => e.path));
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        this.titleEl.setText(this.title);
+        contentEl.empty();
+        const counts = this.items.reduce(
+            (acc, e) => ({ ...acc, [e.action]: (acc[e.action] ?? 0) + 1 }),
+            {} as Partial<Record<SnapshotRestoreAction, number>>
+        );
+        contentEl.createDiv({
+            text:
+                `${this.items.length} file(s) are different from the snapshot. ` +
+                Object.entries(counts)
+                    .map(([action, count]) => `${action}: ${count}`)
+                    .join(", "),
+        });
+        contentEl.createDiv({
+            text: "Restored files are stored as new revisions, hence they will be sent to the remote on the next replication. Files which are not checked are left as they are.",
+            cls: "op-info",
+        });
+        const list = contentEl.createDiv("op-scrollable");
+        for (const item of this.items) {
+            list.createEl("label", {}, (label) => {
+                label.createEl("input", { type: "checkbox" }, (checkbox) => {
+                    checkbox.checked = this.selected.has(item.path);
+                    checkbox.disabled = item.action == "unavailable";
+                    checkbox.addEventListener("change", () => {
+                        if (checkbox.checked) {
+                            this.selected.add(item.path);
+                        } else {
+                            this.selected.delete(item.path);
+                        }
+                    });
+                });
+                label.appendText(` [${item.action}] ${stripAllPrefixes(item.path)}`);
+            });
+            list.createEl("br");
+        }
+        const buttons = contentEl.createDiv("");
+        buttons.createEl("button", { text: "Restore checked", cls: "mod-warning" }, (e) =>
+            e.addEventListener("click", () => this.sendDecision(this.items.filter((e) => this.selected.has(e.path))))
+        ).style.marginRight = "4px";
+        buttons.createEl("button", { text: "Cancel" }, (e) =>
+            e.addEventListener("click", () => this.sendDecision(false))
+        ).style.marginRight = "4px";
+    }
+
+    sendDecision(decision: SnapshotRestoreItem[] | false) {
+        this.decision = decision;
+        this.close();
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+        this.onDecided?.(this.decision);
+        this.onDecided = undefined;
+    }
+
+    waitForDecision(): Promise<SnapshotRestoreItem[] | false> {
+        return new Promise((res) => {
+            this.onDecided = res;
+            this.open();
+        });
+    }
+}
@@ -9,7 +9,7 @@ import type {
 export interface DatabaseFileAccess {
     delete: (file: UXFileInfoStub | FilePathWithPrefix, rev?: string) => Promise<boolean>;
     store: (file: UXFileInfo, force?: boolean, skipCheck?: boolean) => Promise<boolean>;
-    storeContent(path: FilePathWithPrefix, content: string): Promise<boolean>;
+    storeContent(path: FilePathWithPrefix, content: string | ArrayBuffer): Promise<boolean>;
     createChunks: (file: UXFileInfo, force?: boolean, skipCheck?: boolean) => Promise<boolean>;
     fetch: (
         file: UXFileInfoStub | FilePathWithPrefix,
@@ -30,5 +30,6 @@ export interface DatabaseFileAccess {
         skipCheck?: boolean
     ) => Promise<LoadedEntry | false>;
     getConflictedRevs: (file: UXFileInfoStub | FilePathWithPrefix) => Promise<string[]>;
+    storeRenamed: (file: UXFileInfo, oldPath: FilePathWithPrefix) => Promise<boolean>;
     // storeFromStorage: (file: UXFileInfoStub | FilePathWithPrefix, force?: boolean) => Promise<boolean>;
 }
@@ -10,6 +10,7 @@ import type {
 
 export interface StorageAccess {
     deleteVaultItem(file: FilePathWithPrefix | UXFileInfoStub | UXFolderInfo): Promise<void>;
+    renameVaultItem(file: FilePathWithPrefix | UXFileInfoStub, newPath: FilePathWithPrefix): Promise<boolean>;
 
     writeFileAuto(path: string, data: string | ArrayBuffer, opt?: UXDataWriteOptions): Promise<boolean>;
 
@@ -17,7 +18,7 @@ export interface StorageAccess {
     readFileText(path: string): Promise<string>;
     isExists(path: string): Promise<boolean>;
     writeHiddenFileAuto(path: string, data: string | ArrayBuffer, opt?: UXDataWriteOptions): Promise<boolean>;
-    appendHiddenFile(path: string, data: string, opt?: UXDataWriteOptions): Promise<boolean>;
+    appendHiddenFile(path: string, data: string | ArrayBuffer, opt?: UXDataWriteOptions): Promise<boolean>;
 
     stat(path: string): Promise<UXStat | null>;
     statHidden(path: string): Promise<UXStat | null>;
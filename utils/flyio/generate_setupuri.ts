@@ -137,6 +137,7 @@ function friendlyString() {
 }
 
 const uri_passphrase = `${Deno.env.get("uri_passphrase") ?? friendlyString()}`;
+const uri_expires_in_days = Number(Deno.env.get("uri_expires_in_days") ?? "7");
 
 const URIBASE = "obsidian://setuplivesync?settings=";
 async function main() {
@@ -166,10 +167,23 @@ async function main() {
         settingVersion: 10,
         notifyThresholdOfRemoteStorageSize: 800,
     };
-    const encryptedConf = encodeURIComponent(await encrypt(JSON.stringify(conf), uri_passphrase, false));
+    const issued = Date.now();
+    // Setup URI version 2; `0` means that the URI never expires.
+    const payload = {
+        setupURIVersion: 2,
+        id: crypto.randomUUID(),
+        issued,
+        expires: uri_expires_in_days == 0 ? 0 : issued + uri_expires_in_days * 24 * 60 * 60 * 1000,
+        scope: { readOnly: false, vaultName: "" },
+        settings: conf,
+    };
+    const encryptedConf = encodeURIComponent(await encrypt(JSON.stringify(payload), uri_passphrase, false));
     const theURI = `${URIBASE}${encryptedConf}`;
     console.log("\nYour passphrase of Setup-URI is: ", uri_passphrase);
     console.log("This passphrase is never shown again, so please note it in a safe place.");
+    console.log(
+        `This Setup-URI (ID: ${payload.id}) expires at: ${payload.expires == 0 ? "never" : new Date(payload.expires).toISOString()}`
+    );
     console.log(theURI);
 }
 await main();
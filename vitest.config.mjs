@@ -0,0 +1,34 @@
+//@ts-check
+
+import { defineConfig } from "vitest/config";
+import { svelte } from "@sveltejs/vite-plugin-svelte";
+import fs from "node:fs";
+import path from "node:path";
+
+// Tests run on Node.js with the headless runtime (See docs/headless.md); as same as `esbuild.headless.config.mjs`.
+const manifestJson = JSON.parse(fs.readFileSync("./manifest.json") + "");
+const packageJson = JSON.parse(fs.readFileSync("./package.json") + "");
+const updateInfo = JSON.stringify(fs.readFileSync("./updates.md") + "");
+
+export default defineConfig({
+    plugins: [svelte({ compilerOptions: { css: "injected" } })],
+    define: {
+        MANIFEST_VERSION: `"${manifestJson.version}"`,
+        PACKAGE_VERSION: `"${packageJson.version}"`,
+        UPDATE_INFO: `${updateInfo}`,
+    },
+    resolve: {
+        alias: [
+            // `obsidian` is not available on Node.js; replace it with the shim.
+            { find: /^obsidian$/, replacement: path.resolve("src/headless/obsidian.ts") },
+            // Some modules are imported from `src/...`, by `baseUrl` of tsconfig.json.
+            { find: /^src\//, replacement: path.resolve("src") + "/" },
+        ],
+    },
+    test: {
+        include: ["src/**/*.test.ts"],
+        exclude: ["src/lib/**", "**/node_modules/**"],
+        environment: "node",
+        testTimeout: 60000,
+    },
+});